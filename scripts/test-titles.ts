@@ -10,6 +10,8 @@ import * as http from 'http';
 import type { IncomingMessage } from 'http';
 // @ts-expect-error — jsdom has no bundled types and @types/jsdom conflicts with peer deps
 import { JSDOM, VirtualConsole } from 'jsdom';
+import { findOembedRequestUrl } from '../src/oembed';
+import { extractOembedDiscoveryUrl } from '../src/parsers/html';
 
 const virtualConsole = new VirtualConsole();
 
@@ -41,34 +43,17 @@ function httpGet(url: string): Promise<string> {
   });
 }
 
-const OEMBED_ENDPOINTS: { pattern: RegExp; endpoint: string }[] = [
-  {
-    pattern: /^https?:\/\/(www\.)?youtube\.com\/watch/,
-    endpoint: 'https://www.youtube.com/oembed?format=json&url=',
-  },
-  {
-    pattern: /^https?:\/\/youtu\.be\//,
-    endpoint: 'https://www.youtube.com/oembed?format=json&url=',
-  },
-  {
-    pattern: /^https?:\/\/(www\.)?vimeo\.com\/\d+/,
-    endpoint: 'https://vimeo.com/api/oembed.json?url=',
-  },
-];
-
-async function fetchOembedTitle(url: string): Promise<string | undefined> {
-  for (const { pattern, endpoint } of OEMBED_ENDPOINTS) {
-    if (pattern.test(url)) {
-      try {
-        const json = await httpGet(`${endpoint}${encodeURIComponent(url)}`);
-        const title = JSON.parse(json).title?.trim();
-        return title || undefined;
-      } catch {
-        return undefined;
-      }
-    }
+async function fetchOembedTitle(endpoint: string | undefined): Promise<string | undefined> {
+  if (!endpoint) {
+    return undefined;
+  }
+  try {
+    const json = await httpGet(endpoint);
+    const title = JSON.parse(json).title?.trim();
+    return title || undefined;
+  } catch {
+    return undefined;
   }
-  return undefined;
 }
 
 function extractDocTitle(doc: Document): string | undefined {
@@ -107,7 +92,8 @@ async function testUrl(raw: string): Promise<void> {
     return;
   }
 
-  const oembedTitle = await fetchOembedTitle(url);
+  const oembedTitle = await fetchOembedTitle(findOembedRequestUrl(url));
+  const discoveredTitle = await fetchOembedTitle(extractOembedDiscoveryUrl(doc, url));
   const docTitle = extractDocTitle(doc);
   const ogSiteName = extractOgSiteName(doc);
   const ogTitle = extractOgTitle(doc);
@@ -119,10 +105,11 @@ async function testUrl(raw: string): Promise<void> {
     hostname = raw;
   }
 
-  const winner = oembedTitle ?? docTitle ?? ogSiteName ?? ogTitle ?? hostname;
+  const winner = oembedTitle ?? discoveredTitle ?? docTitle ?? ogSiteName ?? ogTitle ?? hostname;
 
   console.log(raw);
   console.log(`  oEmbed:      ${oembedTitle ?? '(none)'}`);
+  console.log(`  discovered:  ${discoveredTitle ?? '(none)'}`);
   console.log(`  docTitle:    ${docTitle ?? '(none)'}`);
   console.log(`  ogSiteName:  ${ogSiteName ?? '(none)'}`);
   console.log(`  ogTitle:     ${ogTitle ?? '(none)'}`);
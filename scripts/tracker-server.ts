@@ -0,0 +1,31 @@
+/**
+ * Runs the Jira, GitLab and Linear stand-in used by the tracker
+ * integration test, for trying the issue tracker pills in Obsidian
+ * without real accounts.
+ *
+ * Usage: npx tsx scripts/tracker-server.ts [port]
+ */
+
+import { STAND_IN_TOKEN, startTrackerServer } from './tracker-stand-in';
+
+async function main() {
+  const server = await startTrackerServer(Number(process.argv[2] ?? 8787));
+  console.log(`Stand-in tracker server on ${server.baseUrl}
+
+Settings:
+  Jira base URL     ${server.baseUrl}
+  GitLab base URL   ${server.baseUrl}
+  Linear API URL    ${server.linearApiUrl}
+  Tokens            ${STAND_IN_TOKEN} (or empty)
+
+Links:
+  [](${server.baseUrl}/browse/PROJ-123)
+  [](${server.baseUrl}/browse/PROJ-7)
+  [](${server.baseUrl}/acme/platform/api/-/issues/12)
+  [](${server.baseUrl}/acme/platform/api/-/merge_requests/34)
+  [](https://linear.app/acme/issue/ENG-42/flaky-login-test-on-ci)
+
+Press Ctrl+C to stop.`);
+}
+
+main();
@@ -0,0 +1,206 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import type { RequestUrlParam } from 'obsidian';
+
+/**
+ * A local stand-in for the Jira, GitLab and Linear APIs, serving a few
+ * fixed issues. Used by `scripts/tracker-server.ts` for trying the
+ * providers in Obsidian without real accounts, and by the tracker
+ * integration test (through {@link fetchRequestUrl}).
+ */
+export interface TrackerServer {
+  /** `http://127.0.0.1:<port>` — the Jira and GitLab base URL. */
+  baseUrl: string;
+  /** Linear GraphQL endpoint on the same server. */
+  linearApiUrl: string;
+  /** Requests received so far, newest last. */
+  requests: { method: string; url: string; headers: IncomingMessage['headers']; body: string }[];
+  close(): Promise<void>;
+}
+
+/** Token the stand-in expects; any other token gets a 401. Requests without one are answered too. */
+export const STAND_IN_TOKEN = 'stand-in-token';
+
+const JIRA_ISSUES: Record<string, unknown> = {
+  'PROJ-123': {
+    key: 'PROJ-123',
+    fields: {
+      summary: 'Checkout fails for saved cards',
+      status: { name: 'In Review', statusCategory: { key: 'indeterminate' } },
+      reporter: { displayName: 'Ada Lovelace' },
+      issuetype: { name: 'Bug' },
+      project: { name: 'Payments' },
+      created: '2024-05-01T09:30:00.000+0000',
+    },
+  },
+  'PROJ-7': {
+    key: 'PROJ-7',
+    fields: {
+      summary: 'Rotate signing keys',
+      status: { name: 'Done', statusCategory: { key: 'done' } },
+      reporter: null,
+      issuetype: { name: 'Task' },
+      project: { name: 'Payments' },
+    },
+  },
+};
+
+const GITLAB_ITEMS: Record<string, unknown> = {
+  '/api/v4/projects/acme%2Fplatform%2Fapi/issues/12': {
+    title: 'Rate limit webhook retries',
+    state: 'opened',
+    author: { name: 'Grace Hopper', username: 'grace' },
+    created_at: '2024-05-02T10:00:00.000Z',
+    references: { full: 'acme/platform/api#12' },
+  },
+  '/api/v4/projects/acme%2Fplatform%2Fapi/merge_requests/34': {
+    title: 'Add retry backoff',
+    state: 'merged',
+    draft: false,
+    author: { name: 'Grace Hopper', username: 'grace' },
+    created_at: '2024-05-03T10:00:00.000Z',
+    references: { full: 'acme/platform/api!34' },
+  },
+};
+
+const LINEAR_ISSUES: Record<string, unknown> = {
+  'ENG-42': {
+    identifier: 'ENG-42',
+    title: 'Flaky login test on CI',
+    createdAt: '2024-05-04T08:00:00.000Z',
+    state: { name: 'Todo', type: 'unstarted' },
+    creator: { name: 'Alan Turing' },
+    team: { name: 'Engineering' },
+  },
+};
+
+function send(res: ServerResponse, status: number, json: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(json));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+/** Checks the credentials each tracker uses: Basic or Bearer for Jira, `PRIVATE-TOKEN` for GitLab, a bare key for Linear. */
+function authorized(req: IncomingMessage): boolean {
+  const header = req.headers['private-token'] ?? req.headers.authorization;
+  if (header === undefined) {
+    return true;
+  }
+  const value = Array.isArray(header) ? header[0] : header;
+  const basic = /^Basic (.+)$/.exec(value);
+  const token = basic
+    ? Buffer.from(basic[1], 'base64').toString().split(':').slice(1).join(':')
+    : value.replace(/^Bearer /, '');
+  return token === STAND_IN_TOKEN;
+}
+
+async function handle(
+  req: IncomingMessage,
+  res: ServerResponse,
+  log: TrackerServer['requests'],
+): Promise<void> {
+  const body = await readBody(req);
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  log.push({ method: req.method ?? 'GET', url: req.url ?? '/', headers: req.headers, body });
+
+  if (!authorized(req)) {
+    send(res, 401, { message: 'Unauthorized' });
+    return;
+  }
+
+  const jira = /^\/rest\/api\/2\/issue\/([^/]+)$/.exec(url.pathname);
+  if (jira) {
+    const issue = JIRA_ISSUES[decodeURIComponent(jira[1])];
+    if (issue) {
+      send(res, 200, issue);
+    } else {
+      send(res, 404, { errorMessages: ['Issue does not exist'] });
+    }
+    return;
+  }
+
+  // GitLab project paths stay encoded, as in `projects/acme%2Fplatform%2Fapi`
+  const rawPath = (req.url ?? '/').replace(/\?.*$/, '');
+  if (rawPath.startsWith('/api/v4/')) {
+    const item = GITLAB_ITEMS[rawPath];
+    if (item) {
+      send(res, 200, item);
+    } else {
+      send(res, 404, { message: '404 Not found' });
+    }
+    return;
+  }
+
+  if (url.pathname === '/graphql' && req.method === 'POST') {
+    const { variables } = JSON.parse(body) as { variables?: { id?: string } };
+    const issue = LINEAR_ISSUES[variables?.id ?? ''];
+    send(
+      res,
+      200,
+      issue ? { data: { issue } } : { data: null, errors: [{ message: 'Entity not found' }] },
+    );
+    return;
+  }
+
+  res.writeHead(200, { 'content-type': 'text/html' });
+  res.end('<html><head><title>Sign in</title></head></html>');
+}
+
+/** Starts the stand-in on a free local port. */
+export function startTrackerServer(port = 0): Promise<TrackerServer> {
+  const requests: TrackerServer['requests'] = [];
+  const server = createServer((req, res) => {
+    handle(req, res, requests).catch(() => send(res, 500, { message: 'Internal error' }));
+  });
+  return new Promise((resolve) => {
+    server.listen(port, '127.0.0.1', () => {
+      const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      resolve({
+        baseUrl,
+        linearApiUrl: `${baseUrl}/graphql`,
+        requests,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+/**
+ * A `requestUrl` implementation that performs real HTTP requests through
+ * Node's `fetch`, for tests that talk to the stand-in server.
+ */
+export async function fetchRequestUrl({
+  url,
+  method,
+  contentType,
+  headers,
+  body,
+}: RequestUrlParam) {
+  const response = await fetch(url, {
+    method,
+    headers: { ...(contentType ? { 'content-type': contentType } : {}), ...headers },
+    body: body as string | undefined,
+  });
+  const text = await response.text();
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    json = undefined;
+  }
+  return {
+    status: response.status,
+    headers: Object.fromEntries(response.headers.entries()),
+    text,
+    json,
+    arrayBuffer: new TextEncoder().encode(text).buffer,
+  };
+}
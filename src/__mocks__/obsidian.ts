@@ -3,3 +3,5 @@ import { vi } from 'vitest';
 export const requestUrl = vi.fn();
 export const setIcon = vi.fn();
 export class MarkdownPostProcessorContext {}
+export const Platform = { isMobile: false };
+export class PluginSettingTab {}
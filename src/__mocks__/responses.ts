@@ -0,0 +1,20 @@
+/** A `requestUrl` response carrying a parsed JSON body, for stubbing API calls in provider tests. */
+export function jsonResponse(json: unknown, status = 200) {
+  return { json, text: '', headers: {}, arrayBuffer: new ArrayBuffer(0), status };
+}
+
+/** A `requestUrl` response carrying a plain text body, e.g. an XML feed. */
+export function textResponse(text: string, status = 200) {
+  return { json: {}, text, headers: {}, arrayBuffer: new ArrayBuffer(0), status };
+}
+
+/** A `requestUrl` response carrying an HTML page. The body is read from `text`, as no bytes are given. */
+export function htmlResponse(text: string, status = 200) {
+  return {
+    json: {},
+    text,
+    headers: { 'content-type': 'text/html' },
+    arrayBuffer: new ArrayBuffer(0),
+    status,
+  };
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { formatMarkdownLink, formatMentionLink } from './context-menu';
+
+describe('formatMarkdownLink', () => {
+  it('formats a titled markdown link', () => {
+    expect(formatMarkdownLink('Example', 'https://example.com')).toBe(
+      '[Example](https://example.com)',
+    );
+  });
+
+  it('escapes brackets and backslashes in the title', () => {
+    expect(formatMarkdownLink('[WIP] a\\b', 'https://example.com')).toBe(
+      '[\\[WIP\\] a\\\\b](https://example.com)',
+    );
+  });
+});
+
+describe('formatMentionLink', () => {
+  it('writes the title as the link title', () => {
+    expect(formatMentionLink('My title', 'https://example.com')).toBe(
+      '[](https://example.com "My title")',
+    );
+  });
+
+  it('escapes quotes and backslashes in the title', () => {
+    expect(formatMentionLink('Say "hi" \\o/', 'https://example.com')).toBe(
+      '[](https://example.com "Say \\"hi\\" \\\\o/")',
+    );
+  });
+
+  it('drops the title when it is empty', () => {
+    expect(formatMentionLink('', 'https://example.com')).toBe('[](https://example.com)');
+  });
+});
@@ -0,0 +1,162 @@
+import { Menu, Notice } from 'obsidian';
+import { LinkMetadata, refreshLinkMetadata } from './metadata';
+
+/**
+ * Access to the markdown source of a rendered pill, provided by the view
+ * that rendered it. Live Preview edits the editor directly; Reading View
+ * edits the note file.
+ */
+export interface PillSource {
+  /** Replaces the pill's `[](url)` markdown with {@link markdown}. */
+  replace(markdown: string): void;
+  /** Shows the pill's raw markdown with the cursor inside it. */
+  reveal(): void;
+}
+
+/**
+ * Formats a titled markdown link, escaping characters in the title that
+ * would end the link text early.
+ *
+ * @internal exported for testing
+ */
+export function formatMarkdownLink(title: string, url: string): string {
+  const text = title.replace(/([\\[\]])/g, '\\$1');
+  return `[${text}](${url})`;
+}
+
+/**
+ * Formats an empty link that keeps the pill look, with {@link title} as
+ * its link title (`[](url "Title")`) overriding the fetched title. An
+ * empty title gives a plain `[](url)`.
+ *
+ * @internal exported for testing
+ */
+export function formatMentionLink(title: string, url: string): string {
+  if (!title) {
+    return `[](${url})`;
+  }
+  return `[](${url} "${title.replace(/(["\\])/g, '\\$1')}")`;
+}
+
+/**
+ * Swaps the pill's title for a text field. Enter or leaving the field
+ * writes the new title into the markdown as the link title; Escape
+ * cancels. Clearing the field removes the override.
+ */
+function renameInline(pill: HTMLElement, url: string, title: string, source: PillSource): void {
+  const span = pill.querySelector<HTMLElement>('.link-mention-title');
+  if (!span) {
+    return;
+  }
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.className = 'link-mention-rename';
+  input.value = title;
+
+  let finished = false;
+  const finish = (save: boolean) => {
+    if (finished) {
+      return;
+    }
+    finished = true;
+    const value = input.value.trim();
+    input.replaceWith(span);
+    if (save && value !== title) {
+      source.replace(formatMentionLink(value, url));
+    }
+  };
+
+  input.addEventListener('keydown', (e) => {
+    // Keep editor and app hotkeys out of the field
+    e.stopPropagation();
+    if (e.key === 'Enter' || e.key === 'Escape') {
+      e.preventDefault();
+      finish(e.key === 'Enter');
+    }
+  });
+  input.addEventListener('blur', () => finish(true));
+  // The pill opens its URL on click; clicks in the field only place the caret
+  input.addEventListener('mousedown', (e) => e.stopPropagation());
+  input.addEventListener('click', (e) => {
+    e.preventDefault();
+    e.stopPropagation();
+  });
+
+  span.replaceWith(input);
+  input.focus();
+  input.select();
+}
+
+function copyToClipboard(text: string): void {
+  void navigator.clipboard.writeText(text).then(
+    () => new Notice('Copied to clipboard'),
+    () => new Notice('Could not copy to clipboard'),
+  );
+}
+
+/**
+ * Shows the pill context menu at the mouse position. Source-editing
+ * items are omitted when {@link source} is `null` (e.g. the pill was
+ * rendered from a bare URL rather than `[](url)`).
+ */
+export function showPillMenu(
+  event: MouseEvent,
+  pill: HTMLElement,
+  url: string,
+  meta: LinkMetadata,
+  source: PillSource | null,
+): void {
+  const menu = new Menu();
+
+  menu.addItem((item) =>
+    item
+      .setTitle('Copy URL')
+      .setIcon('link')
+      .onClick(() => copyToClipboard(url)),
+  );
+  menu.addItem((item) =>
+    item
+      .setTitle('Copy title')
+      .setIcon('type')
+      .onClick(() => copyToClipboard(meta.title)),
+  );
+  menu.addItem((item) =>
+    item
+      .setTitle('Copy as markdown link')
+      .setIcon('copy')
+      .onClick(() => copyToClipboard(formatMarkdownLink(meta.title, url))),
+  );
+
+  menu.addSeparator();
+
+  if (source) {
+    menu.addItem((item) =>
+      item
+        .setTitle('Rename')
+        .setIcon('pencil-line')
+        .onClick(() => renameInline(pill, url, meta.title, source)),
+    );
+    menu.addItem((item) =>
+      item
+        .setTitle('Convert to titled link')
+        .setIcon('text-cursor-input')
+        .onClick(() => source.replace(formatMarkdownLink(meta.title, url))),
+    );
+  }
+  menu.addItem((item) =>
+    item
+      .setTitle('Refresh metadata')
+      .setIcon('refresh-cw')
+      .onClick(() => void refreshLinkMetadata(url)),
+  );
+  if (source) {
+    menu.addItem((item) =>
+      item
+        .setTitle('Edit markdown')
+        .setIcon('pencil')
+        .onClick(() => source.reveal()),
+    );
+  }
+
+  menu.showAtMouseEvent(event);
+}
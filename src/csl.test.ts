@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { citationResult, cslDateToIso, formatCitationTitle } from './csl';
+
+describe('formatCitationTitle', () => {
+  it('formats FirstAuthor et al. (Year) Title', () => {
+    expect(
+      formatCitationTitle({
+        title: 'Attention  is all\nyou need',
+        author: [
+          { given: 'Ashish', family: 'Vaswani' },
+          { given: 'Noam', family: 'Shazeer' },
+        ],
+        issued: { 'date-parts': [[2017, 6, 12]] },
+      }),
+    ).toBe('Vaswani et al. (2017) Attention is all you need');
+  });
+
+  it('leaves out "et al." for single authors and uses literal names', () => {
+    expect(
+      formatCitationTitle({
+        title: 'Annual report',
+        author: [{ literal: 'World Health Organization' }],
+        issued: { raw: 'Spring 2020' },
+      }),
+    ).toBe('World Health Organization (2020) Annual report');
+  });
+
+  it('leaves out unknown authors and years', () => {
+    expect(formatCitationTitle({ title: 'Untitled data' })).toBe('Untitled data');
+    expect(formatCitationTitle({ author: [{ family: 'Smith' }] })).toBeUndefined();
+  });
+});
+
+describe('cslDateToIso', () => {
+  it('pads months and days', () => {
+    expect(cslDateToIso({ 'date-parts': [[2020, 1, 5]] })).toBe('2020-01-05');
+    expect(cslDateToIso({ 'date-parts': [['2020', '3']] })).toBe('2020-03');
+    expect(cslDateToIso(undefined)).toBeUndefined();
+  });
+});
+
+describe('citationResult', () => {
+  it('keeps the full item and uses the journal as site name', () => {
+    const item = {
+      title: 'A paper',
+      'container-title': ['Nature Physics'],
+      abstract: ' Short\n abstract ',
+    };
+    expect(citationResult(item, 'DOI')).toMatchObject({
+      title: 'A paper',
+      siteName: 'Nature Physics',
+      description: 'Short abstract',
+      csl: item,
+    });
+    expect(citationResult({ title: 'Preprint' }, 'arXiv')?.siteName).toBe('arXiv');
+  });
+});
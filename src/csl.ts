@@ -0,0 +1,104 @@
+/**
+ * Minimal CSL-JSON types (Citation Style Language, the format returned by
+ * DOI content negotiation) and pill formatting for citations. Only the
+ * fields used by the plugin are typed; everything else is kept as-is.
+ */
+import type { ProviderResult } from './providers/types';
+
+export interface CslName {
+  family?: string;
+  given?: string;
+  /** Single-field name, e.g. an organization. */
+  literal?: string;
+}
+
+export interface CslDate {
+  /** `[[year, month, day]]`, with month and day optional. */
+  'date-parts'?: (number | string)[][];
+  raw?: string;
+}
+
+/** A CSL-JSON item describing a publication. */
+export interface CslItem {
+  type?: string;
+  id?: string;
+  title?: string;
+  author?: CslName[];
+  issued?: CslDate;
+  /** Journal or repository name. Some sources send a list. */
+  'container-title'?: string | string[];
+  DOI?: string;
+  URL?: string;
+  abstract?: string;
+  [field: string]: unknown;
+}
+
+function nameOf(name: CslName): string | undefined {
+  return name.family?.trim() || name.literal?.trim() || name.given?.trim() || undefined;
+}
+
+/** Returns the `[year, month, day]` parts of a CSL date, as far as they are known. */
+function dateParts(date: CslDate | undefined): number[] {
+  const parts = date?.['date-parts']?.[0];
+  if (parts?.length) {
+    return parts.map(Number).filter((n) => Number.isFinite(n));
+  }
+  const year = /\b(\d{4})\b/.exec(date?.raw ?? '');
+  return year ? [Number(year[1])] : [];
+}
+
+/** Formats a CSL date as an ISO 8601 date (`YYYY`, `YYYY-MM` or `YYYY-MM-DD`). */
+export function cslDateToIso(date: CslDate | undefined): string | undefined {
+  const [year, month, day] = dateParts(date);
+  if (!year) {
+    return undefined;
+  }
+  return [String(year), month, day]
+    .filter((part) => part !== undefined)
+    .map((part) => String(part).padStart(2, '0'))
+    .join('-');
+}
+
+/** Returns the journal or repository name of an item. */
+export function cslContainerTitle(item: CslItem): string | undefined {
+  const container = item['container-title'];
+  const title = Array.isArray(container) ? container[0] : container;
+  return title?.trim() || undefined;
+}
+
+/**
+ * Formats the pill title for a publication: `FirstAuthor et al. (Year) Title`.
+ * "et al." is left out for single authors, and the author and year are
+ * left out when unknown. Returns `undefined` if the item has no title.
+ */
+export function formatCitationTitle(item: CslItem): string | undefined {
+  const title = item.title?.replace(/\s+/g, ' ').trim();
+  if (!title) {
+    return undefined;
+  }
+  const authors = (item.author ?? []).map(nameOf).filter((name): name is string => !!name);
+  const [year] = dateParts(item.issued);
+  const byline = authors.length > 1 ? `${authors[0]} et al.` : authors[0];
+  return [byline, year ? `(${year})` : undefined, title].filter(Boolean).join(' ');
+}
+
+/**
+ * Builds the provider result for a publication: citation-style title,
+ * journal (or {@link fallbackSite}) as the site name, abstract as the
+ * description, and the full item as {@link LinkMetadata.csl}.
+ */
+export function citationResult(item: CslItem, fallbackSite: string): ProviderResult | undefined {
+  const title = formatCitationTitle(item);
+  if (!title) {
+    return undefined;
+  }
+  return {
+    title,
+    author: '',
+    description: item.abstract?.replace(/\s+/g, ' ').trim() || undefined,
+    siteName: cslContainerTitle(item) ?? fallbackSite,
+    type: 'article',
+    publishedTime: cslDateToIso(item.issued),
+    csl: item,
+  };
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Platform } from 'obsidian';
+import { attachHoverCard, buildHoverCard } from './hover-card';
+
+describe('buildHoverCard', () => {
+  it('shows every available field', () => {
+    const card = buildHoverCard('https://ex.com/post', {
+      title: 'Full title',
+      favicon: '',
+      author: 'Jane',
+      siteName: 'Example',
+      description: 'A summary',
+      image: 'https://ex.com/cover.png',
+      stats: [{ icon: 'message-square', value: '12', label: '12 comments' }],
+      tags: ['git', 'rebase'],
+      fetchedAt: Date.now(),
+    });
+
+    expect(card.querySelector('.link-mention-card-title')!.textContent).toBe('Full title');
+    expect(card.querySelector('.link-mention-card-byline')!.textContent).toBe('Jane · Example');
+    expect(card.querySelector('.link-mention-card-stats')!.textContent).toBe('12 comments');
+    expect(card.querySelector('.link-mention-card-tags')!.textContent).toBe('git, rebase');
+    expect(card.querySelector('.link-mention-card-description')!.textContent).toBe('A summary');
+    expect(card.querySelector<HTMLImageElement>('.link-mention-card-image')!.src).toBe(
+      'https://ex.com/cover.png',
+    );
+    expect(card.querySelector('.link-mention-card-url')!.textContent).toBe('https://ex.com/post');
+    expect(card.querySelector('.link-mention-card-fetched')!.textContent).toMatch(/^Fetched /);
+  });
+
+  it('leaves out missing fields', () => {
+    const card = buildHoverCard('https://ex.com', { title: 'Only title', favicon: '', author: '' });
+
+    expect(card.querySelector('.link-mention-card-image')).toBeNull();
+    expect(card.querySelector('.link-mention-card-byline')).toBeNull();
+    expect(card.querySelector('.link-mention-card-description')).toBeNull();
+    expect(card.querySelector('.link-mention-card-fetched')).toBeNull();
+    expect(card.querySelector('.link-mention-card-url')!.textContent).toBe('https://ex.com');
+    expect(card.querySelector('.link-mention-card-final-url')).toBeNull();
+  });
+
+  it('shows where a redirecting link goes', () => {
+    const card = buildHoverCard('https://t.co/abc', {
+      title: 'Post',
+      favicon: '',
+      author: '',
+      finalUrl: 'https://ex.com/post',
+    });
+
+    expect(card.querySelector('.link-mention-card-final-url')!.textContent).toBe(
+      'Goes to https://ex.com/post',
+    );
+  });
+});
+
+describe('attachHoverCard', () => {
+  const meta = { title: 'Title', favicon: '', author: '' };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    document.body.innerHTML = '';
+  });
+
+  function hoveredPill(): HTMLElement {
+    const pill = document.createElement('a');
+    document.body.append(pill);
+    attachHoverCard(pill, 'https://ex.com', meta);
+    pill.dispatchEvent(new MouseEvent('mouseenter'));
+    return pill;
+  }
+
+  it('replaces the native tooltip unless the link redirects', () => {
+    const plain = document.createElement('a');
+    plain.title = 'https://ex.com';
+    attachHoverCard(plain, 'https://ex.com', meta);
+    expect(plain.hasAttribute('title')).toBe(false);
+
+    const redirected = document.createElement('a');
+    redirected.title = 'https://ex.com\n→ https://dest.example/';
+    attachHoverCard(redirected, 'https://ex.com', { ...meta, finalUrl: 'https://dest.example/' });
+    expect(redirected.title).toBe('https://ex.com\n→ https://dest.example/');
+  });
+
+  it('opens the card after the hover delay', () => {
+    hoveredPill();
+    vi.runAllTimers();
+
+    expect(document.querySelector('.link-mention-card')).not.toBeNull();
+  });
+
+  it('does not open a card for a pill replaced during the delay', () => {
+    hoveredPill().replaceWith(document.createElement('a'));
+    vi.runAllTimers();
+
+    expect(document.querySelector('.link-mention-card')).toBeNull();
+  });
+
+  it('closes the card when its pill is replaced', async () => {
+    const pill = hoveredPill();
+    vi.runAllTimers();
+    pill.replaceWith(document.createElement('a'));
+    await Promise.resolve();
+
+    expect(document.querySelector('.link-mention-card')).toBeNull();
+  });
+
+  it("opens and dismisses the card in a popout pill's own window", () => {
+    const popout = document.implementation.createHTMLDocument('popout');
+    const pill = popout.createElement('a');
+    popout.body.append(pill);
+    attachHoverCard(pill, 'https://ex.com', meta);
+
+    pill.dispatchEvent(new MouseEvent('mouseenter'));
+    vi.runAllTimers();
+    expect(popout.querySelector('.link-mention-card')).not.toBeNull();
+    expect(document.querySelector('.link-mention-card')).toBeNull();
+    pill.dispatchEvent(new MouseEvent('mouseleave'));
+
+    Platform.isMobile = true;
+    try {
+      const touched = popout.createElement('a');
+      popout.body.append(touched);
+      attachHoverCard(touched, 'https://ex.com', meta);
+      touched.dispatchEvent(new Event('touchstart'));
+      vi.runAllTimers();
+      expect(popout.querySelector('.link-mention-card')).not.toBeNull();
+
+      popout.body.dispatchEvent(new Event('touchstart', { bubbles: true }));
+      expect(popout.querySelector('.link-mention-card')).toBeNull();
+    } finally {
+      Platform.isMobile = false;
+    }
+  });
+});
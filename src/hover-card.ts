@@ -0,0 +1,213 @@
+import { Platform } from 'obsidian';
+import { LinkMetadata } from './metadata';
+
+/** Delay before the card opens on hover, so moving the mouse across a note doesn't flash cards. */
+const HOVER_DELAY = 400;
+/** How long a touch must be held to open the card on mobile. */
+const LONG_PRESS_DELAY = 500;
+/** Gap between the pill and the card, in pixels. */
+const CARD_OFFSET = 6;
+
+let enabled = true;
+let activeCard: HTMLElement | null = null;
+/**
+ * Watches the document of the pill whose card is open. A pill replaced by
+ * a redraw never gets `mouseleave`, so its card is closed once the pill
+ * is detached.
+ */
+let pillObserver: MutationObserver | null = null;
+
+/** Enables or disables hover cards for pills rendered from now on. */
+export function setHoverCardEnabled(value: boolean): void {
+  enabled = value;
+  if (!value) {
+    hideHoverCard();
+  }
+}
+
+/**
+ * Builds the card element for a link: preview image, full title,
+ * status/author/site name, counts, tags, description, URL, redirect
+ * destination and fetch time. Empty fields are left out. The card is
+ * created in {@link doc}, the document of the window it will open in.
+ *
+ * @internal exported for testing
+ */
+export function buildHoverCard(url: string, meta: LinkMetadata, doc = document): HTMLElement {
+  const card = doc.createElement('div');
+  card.className = 'link-mention-card';
+
+  if (meta.image) {
+    const img = doc.createElement('img');
+    img.className = 'link-mention-card-image';
+    img.src = meta.image;
+    img.alt = '';
+    img.addEventListener('error', () => img.remove());
+    card.appendChild(img);
+  }
+
+  const title = doc.createElement('div');
+  title.className = 'link-mention-card-title';
+  title.textContent = meta.title;
+  card.appendChild(title);
+
+  const byline = [meta.status?.label, meta.author, meta.siteName].filter(Boolean).join(' · ');
+  if (byline) {
+    const el = doc.createElement('div');
+    el.className = 'link-mention-card-byline';
+    el.textContent = byline;
+    card.appendChild(el);
+  }
+
+  if (meta.stats?.length) {
+    const el = doc.createElement('div');
+    el.className = 'link-mention-card-stats';
+    el.textContent = meta.stats.map(({ label }) => label).join(' · ');
+    card.appendChild(el);
+  }
+
+  if (meta.tags?.length) {
+    const el = doc.createElement('div');
+    el.className = 'link-mention-card-tags';
+    el.textContent = meta.tags.join(', ');
+    card.appendChild(el);
+  }
+
+  if (meta.description) {
+    const el = doc.createElement('div');
+    el.className = 'link-mention-card-description';
+    el.textContent = meta.description;
+    card.appendChild(el);
+  }
+
+  const urlEl = doc.createElement('div');
+  urlEl.className = 'link-mention-card-url';
+  urlEl.textContent = url;
+  card.appendChild(urlEl);
+
+  if (meta.finalUrl) {
+    const el = doc.createElement('div');
+    el.className = 'link-mention-card-final-url';
+    el.textContent = `Goes to ${meta.finalUrl}`;
+    card.appendChild(el);
+  }
+
+  if (meta.fetchedAt) {
+    const el = doc.createElement('div');
+    el.className = 'link-mention-card-fetched';
+    el.textContent = `Fetched ${new Date(meta.fetchedAt).toLocaleString()}`;
+    card.appendChild(el);
+  }
+
+  return card;
+}
+
+/**
+ * Opens the card below the pill, or above it when there isn't room below,
+ * in the pill's own window so pills in popout windows get their card there.
+ */
+function showHoverCard(pill: HTMLElement, url: string, meta: LinkMetadata): void {
+  // The pill may have been redrawn while the hover delay was running
+  if (!pill.isConnected) {
+    return;
+  }
+  hideHoverCard();
+
+  const doc = pill.ownerDocument;
+  const win = doc.defaultView ?? window;
+  const card = buildHoverCard(url, meta, doc);
+  doc.body.appendChild(card);
+  activeCard = card;
+  pillObserver = new MutationObserver(() => {
+    if (!pill.isConnected) {
+      hideHoverCard();
+    }
+  });
+  pillObserver.observe(doc.body, { childList: true, subtree: true });
+
+  const rect = pill.getBoundingClientRect();
+  const cardRect = card.getBoundingClientRect();
+  const fitsBelow = rect.bottom + CARD_OFFSET + cardRect.height <= win.innerHeight;
+  const top = fitsBelow
+    ? rect.bottom + CARD_OFFSET
+    : Math.max(CARD_OFFSET, rect.top - CARD_OFFSET - cardRect.height);
+  const left = Math.min(rect.left, win.innerWidth - cardRect.width - CARD_OFFSET);
+  card.style.top = `${top}px`;
+  card.style.left = `${Math.max(CARD_OFFSET, left)}px`;
+}
+
+function hideHoverCard(): void {
+  pillObserver?.disconnect();
+  pillObserver = null;
+  activeCard?.remove();
+  activeCard = null;
+}
+
+/**
+ * Shows a hover card for a pill: after a short hover on desktop, or on
+ * long-press on mobile. The card replaces the pill's native URL tooltip,
+ * except on redirected links, whose tooltip names the destination before
+ * the card opens.
+ * Must be attached before the pill's own click handlers so a long-press
+ * doesn't also open the link.
+ */
+export function attachHoverCard(pill: HTMLElement, url: string, meta: LinkMetadata): void {
+  if (!enabled) {
+    return;
+  }
+  if (!meta.finalUrl) {
+    pill.removeAttribute('title');
+  }
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const cancel = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  if (!Platform.isMobile) {
+    pill.addEventListener('mouseenter', () => {
+      cancel();
+      timer = setTimeout(() => showHoverCard(pill, url, meta), HOVER_DELAY);
+    });
+    pill.addEventListener('mouseleave', () => {
+      cancel();
+      hideHoverCard();
+    });
+    pill.addEventListener('mousedown', () => {
+      cancel();
+      hideHoverCard();
+    });
+    return;
+  }
+
+  let longPressed = false;
+  pill.addEventListener(
+    'touchstart',
+    () => {
+      longPressed = false;
+      cancel();
+      timer = setTimeout(() => {
+        longPressed = true;
+        showHoverCard(pill, url, meta);
+        // The next touch anywhere in the pill's window dismisses the card
+        pill.ownerDocument.addEventListener('touchstart', hideHoverCard, {
+          once: true,
+          capture: true,
+        });
+      }, LONG_PRESS_DELAY);
+    },
+    { passive: true },
+  );
+  pill.addEventListener('touchmove', cancel, { passive: true });
+  pill.addEventListener('touchend', cancel);
+  pill.addEventListener('click', (e) => {
+    if (longPressed) {
+      longPressed = false;
+      e.preventDefault();
+      e.stopImmediatePropagation();
+    }
+  });
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  acceptLanguageHeader,
+  languageMatches,
+  parseLanguageList,
+  pickAlternate,
+} from './language';
+
+describe('parseLanguageList', () => {
+  it('reads comma-separated tags and drops weights and invalid entries', () => {
+    expect(parseLanguageList(' en-GB, de;q=0.8 ,, not a tag, zh-Hant-TW')).toEqual([
+      'en-GB',
+      'de',
+      'zh-Hant-TW',
+    ]);
+    expect(parseLanguageList('')).toEqual([]);
+  });
+});
+
+describe('acceptLanguageHeader', () => {
+  it('weights languages by their position', () => {
+    expect(acceptLanguageHeader(['en-GB', 'de', 'fr'])).toBe('en-GB, de;q=0.9, fr;q=0.8');
+    expect(acceptLanguageHeader([])).toBeUndefined();
+  });
+});
+
+describe('languageMatches', () => {
+  it('only compares regions when both tags have one', () => {
+    expect(languageMatches('de-AT', 'de')).toBe(true);
+    expect(languageMatches('en', 'en-GB')).toBe(true);
+    expect(languageMatches('EN-gb', 'en-GB')).toBe(true);
+    expect(languageMatches('en-US', 'en-GB')).toBe(false);
+    expect(languageMatches('fr', 'de')).toBe(false);
+  });
+});
+
+describe('pickAlternate', () => {
+  const alternates = [
+    { lang: 'en', href: 'https://ex.com/en/' },
+    { lang: 'de', href: 'https://ex.com/de/' },
+    { lang: 'x-default', href: 'https://ex.com/' },
+  ];
+
+  it('picks the translation in the most preferred language', () => {
+    expect(pickAlternate('https://ex.com/fr/', 'fr', alternates, ['de', 'en'])).toBe(
+      'https://ex.com/de/',
+    );
+  });
+
+  it('keeps a page already in an equally or more preferred language', () => {
+    expect(pickAlternate('https://ex.com/en/', 'en', alternates, ['en', 'de'])).toBeUndefined();
+    expect(pickAlternate('https://ex.com/fr/', 'fr', alternates, ['fr', 'de'])).toBeUndefined();
+  });
+
+  it('takes the page language from its own alternate entry', () => {
+    expect(
+      pickAlternate('https://ex.com/de/', undefined, alternates, ['de', 'en']),
+    ).toBeUndefined();
+  });
+
+  it('recognizes its own alternate after normalization', () => {
+    const own = [{ lang: 'de', href: 'https://ex.com/' }];
+    expect(pickAlternate('https://EX.com', undefined, own, ['de'])).toBeUndefined();
+  });
+
+  it('returns undefined without preferences or a matching translation', () => {
+    expect(pickAlternate('https://ex.com/fr/', 'fr', alternates, [])).toBeUndefined();
+    expect(pickAlternate('https://ex.com/fr/', 'fr', alternates, ['ja'])).toBeUndefined();
+  });
+});
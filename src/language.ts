@@ -0,0 +1,89 @@
+import { normalizeUrl } from './parsers/url';
+
+/** A translation of a page advertised with `<link rel="alternate" hreflang>`. */
+export interface LanguageAlternate {
+  /** BCP 47 language tag, e.g. `de` or `en-GB`. */
+  lang: string;
+  /** Absolute URL of the translation. */
+  href: string;
+}
+
+let preferredLanguages: string[] = [];
+
+/**
+ * Parses a comma-separated list of language tags as entered in the
+ * settings (`en-GB, de`). Invalid entries and `q` weights are dropped.
+ *
+ * @internal exported for testing
+ */
+export function parseLanguageList(value: string): string[] {
+  return value
+    .split(',')
+    .map((entry) => entry.split(';')[0].trim())
+    .filter((tag) => /^[a-z]{2,3}(?:-[a-z0-9]{2,8})*$/i.test(tag));
+}
+
+/** Updates the preferred languages, most preferred first. Empty leaves the choice to each site. */
+export function setPreferredLanguages(value: string): void {
+  preferredLanguages = parseLanguageList(value);
+}
+
+/**
+ * Builds the `Accept-Language` header for the preferred languages, with
+ * decreasing `q` weights: `en-GB, de;q=0.9`. Returns `undefined` when no
+ * languages are set.
+ */
+export function acceptLanguageHeader(languages = preferredLanguages): string | undefined {
+  if (languages.length === 0) {
+    return undefined;
+  }
+  return languages
+    .map((lang, i) => (i === 0 ? lang : `${lang};q=${Math.max(0.1, 1 - i / 10).toFixed(1)}`))
+    .join(', ');
+}
+
+/**
+ * Returns `true` if content in {@link tag} satisfies a preference for
+ * {@link wanted}. Regions only have to agree when both name one, so `de`
+ * accepts `de-AT` and `en-GB` accepts `en`, but `en-GB` doesn't accept
+ * `en-US`.
+ *
+ * @internal exported for testing
+ */
+export function languageMatches(tag: string, wanted: string): boolean {
+  const [tagLang, tagRegion] = tag.toLowerCase().split('-');
+  const [wantedLang, wantedRegion] = wanted.toLowerCase().split('-');
+  return tagLang === wantedLang && (!tagRegion || !wantedRegion || tagRegion === wantedRegion);
+}
+
+/**
+ * Picks the translation to read titles from: the alternate matching the
+ * most preferred language, unless the page itself is already in a
+ * language at least as preferred. Alternates pointing back at the page
+ * (compared as normalized URLs) and `x-default` are skipped.
+ *
+ * @internal exported for testing
+ */
+export function pickAlternate(
+  pageUrl: string,
+  pageLang: string | undefined,
+  alternates: LanguageAlternate[],
+  languages = preferredLanguages,
+): string | undefined {
+  const page = normalizeUrl(pageUrl);
+  const isPage = (href: string) => normalizeUrl(href) === page;
+  const others = alternates.filter(
+    ({ lang, href }) => !isPage(href) && lang.toLowerCase() !== 'x-default',
+  );
+  const ownLang = pageLang ?? alternates.find(({ href }) => isPage(href))?.lang;
+  for (const wanted of languages) {
+    if (ownLang && languageMatches(ownLang, wanted)) {
+      return undefined;
+    }
+    const alternate = others.find(({ lang }) => languageMatches(lang, wanted));
+    if (alternate) {
+      return alternate.href;
+    }
+  }
+  return undefined;
+}
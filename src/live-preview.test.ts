@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { EditorSelection } from '@codemirror/state';
-import { cursorInRange, EMPTY_LINK_RE } from './live-preview';
+import { cursorInRange, EMPTY_LINK_RE, findEmptyLinks, relocateLink } from './live-preview';
 
 describe('cursorInRange', () => {
   it('returns true when cursor is inside the range', () => {
@@ -62,4 +62,57 @@ describe('EMPTY_LINK_RE', () => {
   it('returns null for links with display text', () => {
     expect(matchUrl('[click](https://example.com)')).toBeNull();
   });
+
+  it('captures a URL followed by a link title', () => {
+    expect(matchUrl('[](https://example.com/a(b) "My title")')).toBe('https://example.com/a(b)');
+    expect(matchUrl("[](https://example.com 'My title')")).toBe('https://example.com');
+  });
+});
+
+describe('findEmptyLinks', () => {
+  it('returns every empty link with its position', () => {
+    const text = 'See [](https://a.example) and [](https://b.example).';
+    expect(findEmptyLinks(text)).toEqual([
+      { from: 4, to: 25, url: 'https://a.example' },
+      { from: 30, to: 51, url: 'https://b.example' },
+    ]);
+  });
+
+  it('shifts positions by the offset', () => {
+    expect(findEmptyLinks('[](https://a.example)', 100)).toEqual([
+      { from: 100, to: 121, url: 'https://a.example' },
+    ]);
+  });
+
+  it('skips links with display text', () => {
+    expect(findEmptyLinks('[text](https://a.example)')).toEqual([]);
+  });
+
+  it('reads and unescapes the link title', () => {
+    expect(findEmptyLinks('[](https://a.example "Say \\"hi\\"")')).toEqual([
+      { from: 0, to: 34, url: 'https://a.example', title: 'Say "hi"' },
+    ]);
+    expect(findEmptyLinks('[](https://a.example "")')[0].title).toBeUndefined();
+  });
+});
+
+describe('relocateLink', () => {
+  const text = 'See [](https://a.example) and [](https://b.example).';
+  const [, link] = findEmptyLinks(text);
+
+  it('finds the link after text before it was edited', () => {
+    const edited = `Intro.\n${text.replace('See', 'Also see')}`;
+    const target = relocateLink(edited, link)!;
+    const renamed = `${edited.slice(0, target.from)}[](https://b.example "B")${edited.slice(target.to)}`;
+    expect(renamed).toBe('Intro.\nAlso see [](https://a.example) and [](https://b.example "B").');
+  });
+
+  it('picks the link to the same URL closest to the old position', () => {
+    const edited = `[](https://b.example) ${text} [](https://b.example)`;
+    expect(relocateLink(edited, link)).toMatchObject({ from: 52, to: 73 });
+  });
+
+  it('returns undefined when the link was removed', () => {
+    expect(relocateLink('See [](https://a.example).', link)).toBeUndefined();
+  });
 });
@@ -6,9 +6,20 @@ import {
   ViewUpdate,
   WidgetType,
 } from '@codemirror/view';
-import { setIcon } from 'obsidian';
 import { EditorSelection, Range } from '@codemirror/state';
-import { fetchLinkMetadata, getCachedMetadata, LinkMetadata } from './metadata';
+import { PillSource, showPillMenu } from './context-menu';
+import { attachHoverCard } from './hover-card';
+import {
+  fetchLinkMetadata,
+  getCachedMetadata,
+  hasVisibleChange,
+  LinkMetadata,
+  onMetadataChange,
+  revalidateIfStale,
+  withTitleOverride,
+} from './metadata';
+import { normalizeUrl } from './parsers/url';
+import { createPill } from './pill';
 
 /**
  * CodeMirror widget that renders a mention pill (favicon + title)
@@ -22,62 +33,20 @@ class LinkMentionWidget extends WidgetType {
     super();
   }
 
-  /** Two widgets are equal if they point to the same URL with the same title. */
+  /** Two widgets are equal if they point to the same URL with the same title, author and favicon. */
   eq(other: LinkMentionWidget): boolean {
-    return (
-      this.url === other.url &&
-      this.meta.title === other.meta.title &&
-      this.meta.author === other.meta.author
-    );
+    return this.url === other.url && !hasVisibleChange(this.meta, other.meta);
   }
 
-  /** Builds the pill `<a>` element with favicon, title, and click handling. */
-  toDOM(): HTMLElement {
-    const pill = document.createElement('a');
-    pill.className = 'link-mention external-link';
-    pill.href = this.url;
-    pill.title = this.url;
-    pill.setAttribute('target', '_blank');
-    pill.setAttribute('rel', 'noopener noreferrer');
-
-    if (this.meta.favicon) {
-      const img = document.createElement('img');
-      img.className = 'link-mention-favicon';
-      img.src = this.meta.favicon;
-      img.alt = '';
-      img.setAttribute('width', '19');
-      img.setAttribute('height', '19');
-      img.addEventListener('error', () => {
-        const iconEl = document.createElement('span');
-        iconEl.className = 'link-mention-favicon link-mention-default-icon';
-        setIcon(iconEl, 'link');
-        img.replaceWith(iconEl);
-      });
-      pill.appendChild(img);
-    } else {
-      const iconEl = document.createElement('span');
-      iconEl.className = 'link-mention-favicon link-mention-default-icon';
-      setIcon(iconEl, 'link');
-      pill.appendChild(iconEl);
-    }
-
-    if (this.meta.author) {
-      const author = document.createElement('span');
-      author.className = 'link-mention-author';
-      author.textContent = this.meta.author;
-      pill.appendChild(author);
-    }
-
-    const span = document.createElement('span');
-    span.className = 'link-mention-title';
-    span.textContent = this.meta.title;
-
-    pill.appendChild(span);
+  /** Builds the pill `<a>` element with favicon, title, hover card, click and context menu handling. */
+  toDOM(view: EditorView): HTMLElement {
+    const pill = createPill(this.url, this.meta);
+    attachHoverCard(pill, this.url, this.meta);
 
     // Always prevent mousedown from moving the cursor into the widget
     // (which would reveal the raw markdown). Only stop propagation for
-    // plain left-clicks; let modifier-clicks bubble to Obsidian so it
-    // can show/dismiss its context menu.
+    // plain left-clicks; let right- and modifier-clicks bubble so the
+    // pill context menu can open and Obsidian can dismiss open menus.
     pill.addEventListener('mousedown', (e) => {
       if (e.button !== 0 || e.altKey || e.ctrlKey || e.metaKey) {
         return;
@@ -97,6 +66,12 @@ class LinkMentionWidget extends WidgetType {
       window.open(this.url, '_blank');
     });
 
+    pill.addEventListener('contextmenu', (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      showPillMenu(e, pill, this.url, this.meta, editorSource(view, pill));
+    });
+
     return pill;
   }
 
@@ -106,19 +81,98 @@ class LinkMentionWidget extends WidgetType {
 }
 
 /**
- * Regex for empty markdown links `[](url)`. Supports one level of balanced
- * parentheses so that Wikipedia-style URLs like `Obsidian_(software)` are
- * captured in full.
+ * Regex for empty markdown links `[](url)`, optionally with a link title
+ * in double or single quotes, `[](url "Title")`. Supports one level of
+ * balanced parentheses so that Wikipedia-style URLs like
+ * `Obsidian_(software)` are captured in full.
  *
  * @internal exported for testing
  */
-export const EMPTY_LINK_RE = /\[]\((https?:\/\/(?:[^()\r\n]|\([^()\r\n]*\))+)\)/g;
+export const EMPTY_LINK_RE =
+  /\[]\((https?:\/\/(?:[^()\s]|\([^()\s]*\))+)(?:\s+(?:"((?:[^"\\\r\n]|\\.)*)"|'((?:[^'\\\r\n]|\\.)*)'))?\s*\)/g;
 
 /** A link position found during a full scan. */
-interface KnownLink {
+export interface KnownLink {
   from: number;
   to: number;
   url: string;
+  /** The link title from `[](url "Title")`, shown instead of the fetched title. */
+  title?: string;
+}
+
+/**
+ * Returns every empty markdown link in {@link text}, with positions
+ * shifted by {@link offset} so callers can scan a slice of a document.
+ */
+export function findEmptyLinks(text: string, offset = 0): KnownLink[] {
+  const links: KnownLink[] = [];
+  EMPTY_LINK_RE.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = EMPTY_LINK_RE.exec(text)) !== null) {
+    const from = offset + match.index;
+    const link: KnownLink = { from, to: from + match[0].length, url: match[1] };
+    const title = (match[2] ?? match[3])?.replace(/\\(.)/g, '$1').trim();
+    if (title) {
+      link.title = title;
+    }
+    links.push(link);
+  }
+  return links;
+}
+
+/**
+ * Finds {@link link} again in {@link text} after the document may have
+ * changed: the empty link to the same URL closest to its old position.
+ * Returns `undefined` if the link is gone.
+ *
+ * @internal exported for testing
+ */
+export function relocateLink(text: string, link: KnownLink): KnownLink | undefined {
+  let closest: KnownLink | undefined;
+  for (const candidate of findEmptyLinks(text)) {
+    if (
+      candidate.url === link.url &&
+      (!closest || Math.abs(candidate.from - link.from) < Math.abs(closest.from - link.from))
+    ) {
+      closest = candidate;
+    }
+  }
+  return closest;
+}
+
+/**
+ * Maps a rendered widget back to its `[](url)` in the editor, so the
+ * context menu can rewrite or reveal it. Returns `null` if the widget's
+ * position no longer holds an empty link. The note may be edited while
+ * the menu or rename field is open, so the link is found again before
+ * each write.
+ */
+function editorSource(view: EditorView, pill: HTMLElement): PillSource | null {
+  const pos = view.posAtDOM(pill);
+  const line = view.state.doc.lineAt(pos);
+  const link = findEmptyLinks(line.text, line.from).find(({ from }) => from === pos);
+  if (!link) {
+    return null;
+  }
+  const current = () => relocateLink(view.state.doc.toString(), link);
+
+  return {
+    replace: (markdown) => {
+      const target = current();
+      if (target) {
+        view.dispatch({ changes: { from: target.from, to: target.to, insert: markdown } });
+      }
+    },
+    reveal: () => {
+      const target = current();
+      if (!target) {
+        return;
+      }
+      // A cursor inside the link range makes the decoration step aside
+      view.dispatch({ selection: { anchor: target.to - 1 } });
+      view.focus();
+    },
+  };
 }
 
 /**
@@ -185,7 +239,8 @@ function getSelectedSearchRange(view: EditorView): { from: number; to: number }
  * a {@link DecorationSet} of replacement widgets for each match that has
  * cached metadata. Links without cached metadata trigger a background
  * fetch; {@link onFetchComplete} is called when a fetch resolves so the
- * view can be re-decorated.
+ * view can be re-decorated. Stale cached links are revalidated in the
+ * background.
  *
  * Returns both the decoration set and the list of found link positions
  * so that fetch-only updates can skip the regex scan.
@@ -201,18 +256,11 @@ function buildDecorations(
 
   // Scan the visible text with a regex (syntax tree node types vary
   // across Obsidian versions, so regex is more reliable).
-  EMPTY_LINK_RE.lastIndex = 0;
-
   for (const { from, to } of view.visibleRanges) {
-    const text = doc.sliceString(from, to);
-    EMPTY_LINK_RE.lastIndex = 0;
-    let match: RegExpExecArray | null;
-    while ((match = EMPTY_LINK_RE.exec(text)) !== null) {
-      const matchFrom = from + match.index;
-      const matchTo = matchFrom + match[0].length;
-      const url = match[1];
+    for (const link of findEmptyLinks(doc.sliceString(from, to), from)) {
+      const { from: matchFrom, to: matchTo, url, title } = link;
 
-      links.push({ from: matchFrom, to: matchTo, url });
+      links.push(link);
 
       if (cursorInRange(view.state.selection, matchFrom, matchTo)) {
         continue;
@@ -227,9 +275,10 @@ function buildDecorations(
       const meta = getCachedMetadata(url);
 
       if (meta) {
+        revalidateIfStale(url);
         decorations.push(
           Decoration.replace({
-            widget: new LinkMentionWidget(url, meta),
+            widget: new LinkMentionWidget(url, withTitleOverride(meta, title)),
           }).range(matchFrom, matchTo),
         );
       } else {
@@ -254,7 +303,7 @@ function rebuildFromKnown(
   const decorations: Range<Decoration>[] = [];
   const selectedSearch = getSelectedSearchRange(view);
 
-  for (const { from, to, url } of knownLinks) {
+  for (const { from, to, url, title } of knownLinks) {
     if (cursorInRange(view.state.selection, from, to)) {
       continue;
     }
@@ -268,7 +317,7 @@ function rebuildFromKnown(
     if (meta) {
       decorations.push(
         Decoration.replace({
-          widget: new LinkMentionWidget(url, meta),
+          widget: new LinkMentionWidget(url, withTitleOverride(meta, title)),
         }).range(from, to),
       );
     } else {
@@ -295,6 +344,7 @@ export const livePreviewExtension = ViewPlugin.fromClass(
     private searchInput: HTMLInputElement | null = null;
     private searchDebounce: ReturnType<typeof setTimeout> | null = null;
     private view: EditorView;
+    private stopListening: () => void;
 
     constructor(view: EditorView) {
       this.view = view;
@@ -303,6 +353,13 @@ export const livePreviewExtension = ViewPlugin.fromClass(
       this.decorations = result.decorations;
       this.knownLinks = result.links;
 
+      // Redraw when a background revalidation changes a visible link.
+      this.stopListening = onMetadataChange((url) => {
+        if (this.knownLinks.some((link) => normalizeUrl(link.url) === url)) {
+          this.scheduleDispatch(this.view);
+        }
+      });
+
       // Watch the workspace leaf for the search container appearing or
       // disappearing. When it appears, attach input/keydown listeners
       // to react to query changes and result navigation (Enter/arrows).
@@ -351,6 +408,7 @@ export const livePreviewExtension = ViewPlugin.fromClass(
     }
 
     destroy(): void {
+      this.stopListening();
       this.searchObserver?.disconnect();
       this.detachSearchInput();
       if (this.searchDebounce) {
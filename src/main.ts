@@ -1,25 +1,63 @@
-import { Plugin, PluginSettingTab, Setting, App } from 'obsidian';
-import { readingViewPostProcessor } from './reading-view';
-import { livePreviewExtension } from './live-preview';
-import { setMaxConcurrent } from './metadata';
-
-interface LinkMentionSettings {
-  showExternalArrow: boolean;
-  maxConcurrentFetches: number;
-}
+import { Plugin, Editor, MarkdownView, Notice, debounce } from 'obsidian';
+import { readingViewPostProcessor, refreshReadingViewPills } from './reading-view';
+import { findEmptyLinks, livePreviewExtension } from './live-preview';
+import { setHoverCardEnabled } from './hover-card';
+import { setPreferredLanguages } from './language';
+import {
+  clearCache,
+  exportCache,
+  importCache,
+  onCacheChange,
+  onMetadataChange,
+  refreshLinkMetadata,
+  setCacheLimits,
+  setMaxConcurrent,
+  setRevalidateAfter,
+} from './metadata';
+import { setOembedProviders } from './oembed';
+import { setGithubToken } from './providers/github';
+import { setGitlabConfig } from './providers/gitlab';
+import { setJiraConfig } from './providers/jira';
+import { setLinearConfig } from './providers/linear';
+import { setMediawikiSites } from './providers/mediawiki';
+import { registerProvider, unregisterProvider } from './providers/registry';
+import { setHeaderRules } from './request';
+import {
+  DEFAULT_SETTINGS,
+  hasSecrets,
+  LinkMentionSettings,
+  LinkMentionSettingTab,
+  mergeSecrets,
+  splitSecrets,
+  withHeaderRuleIds,
+} from './settings';
+import { setJunkTitlePhrases } from './title-quality';
+import { setTitleRules } from './title-rules';
 
-/** Default number of concurrent metadata fetches. */
-const DEFAULT_CONCURRENT_FETCHES = 4;
-/** Upper bound for the concurrent fetches slider. Too high can freeze the UI on link-heavy notes. */
-const MAX_CONCURRENT_LIMIT = 30;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
 
-const DEFAULT_SETTINGS: LinkMentionSettings = {
-  showExternalArrow: true,
-  maxConcurrentFetches: DEFAULT_CONCURRENT_FETCHES,
-};
+/** File in the plugin folder that holds the persisted metadata cache. Kept out of `data.json` so settings stay small. */
+const CACHE_FILE = 'cache.json';
+/** Delay before writing cache changes to disk, so a burst of fetches results in a single write. */
+const CACHE_SAVE_DELAY = 5000;
+/** Vault local storage key for tokens and header secrets, which are kept out of the synced `data.json`. */
+const SECRETS_KEY = 'link-mention-secrets';
 
 const HIDE_ARROW_CLASS = 'link-mention-hide-arrow';
 
+export type { LinkMetadata } from './metadata';
+export type { LinkProvider, ProviderResult } from './providers/types';
+
+/**
+ * API exposed to other plugins as
+ * `app.plugins.getPlugin('link-mention').api`.
+ */
+export interface LinkMentionApi {
+  registerProvider: typeof registerProvider;
+  unregisterProvider: typeof unregisterProvider;
+}
+
 /**
  * Obsidian plugin entry point. Registers the reading-view post-processor
  * and the live-preview CodeMirror extension so that empty markdown links
@@ -28,70 +66,163 @@ const HIDE_ARROW_CLASS = 'link-mention-hide-arrow';
 export default class LinkMentionPlugin extends Plugin {
   settings!: LinkMentionSettings;
 
+  /** Lets other plugins add site providers at runtime. */
+  readonly api: LinkMentionApi = { registerProvider, unregisterProvider };
+
+  private requestCacheSave = debounce(() => void this.saveMetadataCache(), CACHE_SAVE_DELAY, true);
+
   async onload(): Promise<void> {
     await this.loadSettings();
     setMaxConcurrent(this.settings.maxConcurrentFetches);
+    setHoverCardEnabled(this.settings.showHoverCard);
+    setOembedProviders(this.settings.oembedProviders);
+    setGithubToken(this.settings.githubToken);
+    setJiraConfig(this.settings.jira);
+    setGitlabConfig(this.settings.gitlab);
+    setLinearConfig(this.settings.linear);
+    setMediawikiSites(this.settings.mediawikiSites);
+    setHeaderRules(this.settings.requestHeaders);
+    setPreferredLanguages(this.settings.preferredLanguages);
+    setJunkTitlePhrases(this.settings.junkTitlePhrases);
+    setTitleRules(this.settings.titleRules);
+    this.applyCacheLimits();
+    await this.loadMetadataCache();
+    this.register(onCacheChange(() => this.requestCacheSave()));
+    this.register(onMetadataChange((url, meta) => refreshReadingViewPills(this.app, url, meta)));
     this.applyBodyClass();
     this.addSettingTab(new LinkMentionSettingTab(this.app, this));
-    this.registerMarkdownPostProcessor(readingViewPostProcessor);
+    this.registerMarkdownPostProcessor((el, ctx) => readingViewPostProcessor(el, ctx, this.app));
     this.registerEditorExtension(livePreviewExtension);
+    this.registerCommands();
   }
 
   onunload(): void {
     document.body.classList.remove(HIDE_ARROW_CLASS);
+    this.requestCacheSave.cancel();
+    void this.saveMetadataCache();
+  }
+
+  private registerCommands(): void {
+    this.addCommand({
+      id: 'refresh-link-under-cursor',
+      name: 'Refresh link mention under cursor',
+      editorCheckCallback: (checking: boolean, editor: Editor) => {
+        const url = linkUnderCursor(editor);
+        if (!url) {
+          return false;
+        }
+        if (!checking) {
+          void refreshLinkMetadata(url);
+        }
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'refresh-links-in-note',
+      name: 'Refresh all link mentions in current note',
+      checkCallback: (checking: boolean) => {
+        const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+        if (!view) {
+          return false;
+        }
+        if (!checking) {
+          const urls = linksInText(view.getViewData());
+          void this.refreshLinks(urls).then(() => {
+            new Notice(
+              `Refreshed ${urls.length} link ${urls.length === 1 ? 'mention' : 'mentions'}`,
+            );
+          });
+        }
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'clear-cache',
+      name: 'Clear link mention cache',
+      callback: () => {
+        clearCache();
+        new Notice('Link mention cache cleared');
+        // Re-fetch what is on screen so open notes don't keep showing the evicted data
+        const urls = new Set<string>();
+        for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
+          if (leaf.view instanceof MarkdownView) {
+            linksInText(leaf.view.getViewData()).forEach((url) => urls.add(url));
+          }
+        }
+        void this.refreshLinks(Array.from(urls));
+      },
+    });
+  }
+
+  /** Re-fetches every URL, redrawing their pills through the metadata change listeners. */
+  private async refreshLinks(urls: string[]): Promise<void> {
+    await Promise.all(urls.map((url) => refreshLinkMetadata(url)));
   }
 
   async loadSettings(): Promise<void> {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    const loaded: LinkMentionSettings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    const data = withHeaderRuleIds(loaded);
+    this.settings = mergeSecrets(data, this.app.loadLocalStorage(SECRETS_KEY));
+    if (hasSecrets(data) || data !== loaded) {
+      // Move tokens saved by earlier versions out of data.json, and key header secrets by rule id
+      await this.saveSettings();
+    }
   }
 
+  /** Writes the settings to `data.json` and their credentials to the vault's local storage. */
   async saveSettings(): Promise<void> {
-    await this.saveData(this.settings);
+    const { data, secrets } = splitSecrets(this.settings);
+    this.app.saveLocalStorage(SECRETS_KEY, secrets);
+    await this.saveData(data);
     this.applyBodyClass();
   }
 
-  applyBodyClass(): void {
-    document.body.classList.toggle(HIDE_ARROW_CLASS, !this.settings.showExternalArrow);
+  applyCacheLimits(): void {
+    setCacheLimits(this.settings.cacheTtlDays * DAY_MS, this.settings.maxCacheEntries);
+    setRevalidateAfter(this.settings.revalidateAfterHours * HOUR_MS);
   }
-}
 
-class LinkMentionSettingTab extends PluginSettingTab {
-  plugin: LinkMentionPlugin;
+  private get cachePath(): string {
+    return `${this.manifest.dir}/${CACHE_FILE}`;
+  }
 
-  constructor(app: App, plugin: LinkMentionPlugin) {
-    super(app, plugin);
-    this.plugin = plugin;
+  /** Restores the metadata cache from disk. A missing or corrupt file leaves the cache empty. */
+  async loadMetadataCache(): Promise<void> {
+    try {
+      const adapter = this.app.vault.adapter;
+      if (await adapter.exists(this.cachePath)) {
+        importCache(JSON.parse(await adapter.read(this.cachePath)));
+      }
+    } catch {
+      /* start with an empty cache */
+    }
   }
 
-  display(): void {
-    const { containerEl } = this;
-    containerEl.empty();
-
-    new Setting(containerEl)
-      .setName('Show external link arrow')
-      .setDesc("Show Obsidian's external-link arrow icon next to link mention pills.")
-      .addToggle((toggle) =>
-        toggle.setValue(this.plugin.settings.showExternalArrow).onChange(async (value) => {
-          this.plugin.settings.showExternalArrow = value;
-          await this.plugin.saveSettings();
-        }),
-      );
-
-    new Setting(containerEl)
-      .setName('Max concurrent fetches')
-      .setDesc(
-        'Number of link metadata requests that can run in parallel. Higher values populate pills faster but may cause rate limiting.',
-      )
-      .addSlider((slider) =>
-        slider
-          .setLimits(1, MAX_CONCURRENT_LIMIT, 1)
-          .setValue(this.plugin.settings.maxConcurrentFetches)
-          .setDynamicTooltip()
-          .onChange(async (value) => {
-            this.plugin.settings.maxConcurrentFetches = value;
-            setMaxConcurrent(value);
-            await this.plugin.saveSettings();
-          }),
-      );
+  async saveMetadataCache(): Promise<void> {
+    try {
+      await this.app.vault.adapter.write(this.cachePath, JSON.stringify(exportCache()));
+    } catch {
+      /* the next change will retry */
+    }
   }
+
+  applyBodyClass(): void {
+    document.body.classList.toggle(HIDE_ARROW_CLASS, !this.settings.showExternalArrow);
+  }
+}
+
+/** Returns the URL of the empty link the cursor is in, if any. */
+function linkUnderCursor(editor: Editor): string | undefined {
+  const cursor = editor.getCursor();
+  const link = findEmptyLinks(editor.getLine(cursor.line)).find(
+    ({ from, to }) => cursor.ch >= from && cursor.ch <= to,
+  );
+  return link?.url;
+}
+
+/** Returns the distinct URLs of all empty links in a note's markdown. */
+function linksInText(text: string): string[] {
+  return Array.from(new Set(findEmptyLinks(text).map(({ url }) => url)));
 }
@@ -1,13 +1,24 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
   arrayBufferToBase64,
   getContentType,
-  fetchOembed,
-  normalizeUrl,
   getCachedMetadata,
   fetchLinkMetadata,
   clearFailedCache,
   getFailedUntil,
+  exportCache,
+  importCache,
+  setCacheLimits,
+  setRevalidateAfter,
+  onCacheChange,
+  onMetadataChange,
+  hasVisibleChange,
+  refreshLinkMetadata,
+  refreshCachedWhere,
+  markCacheStale,
+  reapplyTitleRules,
+  clearCache,
+  LinkMetadata,
 } from './metadata';
 import {
   extractFaviconUrl,
@@ -15,7 +26,29 @@ import {
   extractAuthor,
   extractDocTitle,
   extractGithubTitle,
+  extractOgDescription,
+  extractOgImage,
+  extractOgSiteName,
+  extractOgType,
+  extractPublishedTime,
+  extractTwitterTitle,
+  extractTwitterDescription,
+  extractTwitterImage,
+  extractMetaDescription,
+  extractOembedDiscoveryUrl,
+  extractCanonicalUrl,
+  extractClientRedirectUrl,
+  extractHreflangAlternates,
+  extractPageLanguage,
 } from './parsers/html';
+import { registerProvider } from './providers/registry';
+import { setHeaderRules } from './request';
+import { setPreferredLanguages } from './language';
+import { extractUrlTitle } from './parsers/url';
+import { setJunkTitlePhrases } from './title-quality';
+import { setTitleRules } from './title-rules';
+
+import { htmlResponse, jsonResponse } from './__mocks__/responses';
 
 import { requestUrl } from 'obsidian';
 const mockRequestUrl = vi.mocked(requestUrl);
@@ -107,6 +140,212 @@ describe('extractOgTitle', () => {
   });
 });
 
+describe('extractOgDescription', () => {
+  it('extracts og:description content', () => {
+    const doc = makeDoc(
+      '<html><head><meta property="og:description" content="A summary"></head></html>',
+    );
+    expect(extractOgDescription(doc)).toBe('A summary');
+  });
+
+  it('returns undefined when og:description is missing', () => {
+    expect(extractOgDescription(makeDoc('<html><head></head></html>'))).toBeUndefined();
+  });
+});
+
+describe('extractOgSiteName', () => {
+  it('extracts og:site_name content', () => {
+    const doc = makeDoc(
+      '<html><head><meta property="og:site_name" content="Example"></head></html>',
+    );
+    expect(extractOgSiteName(doc)).toBe('Example');
+  });
+
+  it('returns undefined for empty content', () => {
+    const doc = makeDoc('<html><head><meta property="og:site_name" content=" "></head></html>');
+    expect(extractOgSiteName(doc)).toBeUndefined();
+  });
+});
+
+describe('extractOgImage', () => {
+  it('resolves a relative og:image against the page URL', () => {
+    const doc = makeDoc(
+      '<html><head><meta property="og:image" content="/cover.png"></head></html>',
+    );
+    expect(extractOgImage(doc, 'https://example.com/post')).toBe('https://example.com/cover.png');
+  });
+
+  it('returns undefined when og:image is missing', () => {
+    expect(
+      extractOgImage(makeDoc('<html><head></head></html>'), 'https://example.com'),
+    ).toBeUndefined();
+  });
+});
+
+/** A `<head>` carrying every OpenGraph and Twitter Card field the plugin reads. */
+const CARD_FIXTURE = `<html><head>
+  <title>Launch notes | Example Blog</title>
+  <meta name="description" content="Plain description">
+  <meta property="og:type" content="article">
+  <meta property="article:published_time" content="2024-05-01T09:30:00Z">
+  <meta name="twitter:title" content="Twitter title">
+  <meta name="twitter:description" content="Twitter description">
+  <meta name="twitter:image" content="/twitter.png">
+</head></html>`;
+
+describe('extractOgType', () => {
+  it('extracts og:type content', () => {
+    expect(extractOgType(makeDoc(CARD_FIXTURE))).toBe('article');
+  });
+
+  it('returns undefined when og:type is missing', () => {
+    expect(extractOgType(makeDoc('<html><head></head></html>'))).toBeUndefined();
+  });
+});
+
+describe('extractPublishedTime', () => {
+  it('extracts article:published_time content', () => {
+    expect(extractPublishedTime(makeDoc(CARD_FIXTURE))).toBe('2024-05-01T09:30:00Z');
+  });
+
+  it('returns undefined when the tag is missing', () => {
+    expect(extractPublishedTime(makeDoc('<html><head></head></html>'))).toBeUndefined();
+  });
+});
+
+describe('Twitter Card extractors', () => {
+  it('extract title, description and image from name= tags', () => {
+    const doc = makeDoc(CARD_FIXTURE);
+    expect(extractTwitterTitle(doc)).toBe('Twitter title');
+    expect(extractTwitterDescription(doc)).toBe('Twitter description');
+    expect(extractTwitterImage(doc, 'https://example.com/post')).toBe(
+      'https://example.com/twitter.png',
+    );
+  });
+
+  it('accept property= tags', () => {
+    const doc = makeDoc(
+      '<html><head><meta property="twitter:title" content="Via property"></head></html>',
+    );
+    expect(extractTwitterTitle(doc)).toBe('Via property');
+  });
+
+  it('accept the legacy twitter:image:src name', () => {
+    const doc = makeDoc(
+      '<html><head><meta name="twitter:image:src" content="https://cdn.example/i.png"></head></html>',
+    );
+    expect(extractTwitterImage(doc, 'https://example.com')).toBe('https://cdn.example/i.png');
+  });
+
+  it('return undefined when tags are missing', () => {
+    const doc = makeDoc('<html><head></head></html>');
+    expect(extractTwitterTitle(doc)).toBeUndefined();
+    expect(extractTwitterDescription(doc)).toBeUndefined();
+    expect(extractTwitterImage(doc, 'https://example.com')).toBeUndefined();
+  });
+});
+
+describe('extractMetaDescription', () => {
+  it('extracts meta[name="description"] content', () => {
+    expect(extractMetaDescription(makeDoc(CARD_FIXTURE))).toBe('Plain description');
+  });
+
+  it('returns undefined for empty content', () => {
+    const doc = makeDoc('<html><head><meta name="description" content=""></head></html>');
+    expect(extractMetaDescription(doc)).toBeUndefined();
+  });
+});
+
+describe('extractOembedDiscoveryUrl', () => {
+  it('resolves the JSON oEmbed discovery link', () => {
+    const doc = makeDoc(
+      '<html><head><link rel="alternate" type="application/json+oembed" href="/wp-json/oembed/1.0/embed?url=x"></head></html>',
+    );
+    expect(extractOembedDiscoveryUrl(doc, 'https://blog.example/post')).toBe(
+      'https://blog.example/wp-json/oembed/1.0/embed?url=x',
+    );
+  });
+
+  it('ignores XML oEmbed links', () => {
+    const doc = makeDoc(
+      '<html><head><link rel="alternate" type="text/xml+oembed" href="/oembed.xml"></head></html>',
+    );
+    expect(extractOembedDiscoveryUrl(doc, 'https://blog.example/post')).toBeUndefined();
+  });
+});
+
+describe('extractCanonicalUrl', () => {
+  it('prefers link rel=canonical over og:url and resolves relative URLs', () => {
+    const doc = makeDoc(
+      '<html><head><meta property="og:url" content="https://ex.com/og"><link rel="canonical" href="/post"></head></html>',
+    );
+    expect(extractCanonicalUrl(doc, 'https://ex.com/post?utm_source=x')).toBe(
+      'https://ex.com/post',
+    );
+  });
+
+  it('falls back to og:url and ignores non-http URLs', () => {
+    expect(
+      extractCanonicalUrl(
+        makeDoc('<html><head><meta property="og:url" content="https://ex.com/og"></head></html>'),
+        'https://ex.com/',
+      ),
+    ).toBe('https://ex.com/og');
+    expect(
+      extractCanonicalUrl(
+        makeDoc('<html><head><link rel="canonical" href="javascript:void(0)"></head></html>'),
+        'https://ex.com/',
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe('extractClientRedirectUrl', () => {
+  it('reads immediate meta refresh redirects', () => {
+    const doc = makeDoc(
+      '<html><head><meta http-equiv="Refresh" content="0;URL=\'https://ex.com/post\'"></head></html>',
+    );
+    expect(extractClientRedirectUrl(doc, 'https://t.co/abc')).toBe('https://ex.com/post');
+  });
+
+  it('ignores periodic reloads', () => {
+    const doc = makeDoc(
+      '<html><head><meta http-equiv="refresh" content="300; url=https://ex.com/"></head></html>',
+    );
+    expect(extractClientRedirectUrl(doc, 'https://ex.com/')).toBeUndefined();
+  });
+
+  it('reads the outbound link of the lnkd.in interstitial', () => {
+    const doc = makeDoc(
+      '<html><body><a data-tracking-control-name="external_url_click" href="https://ex.com/job">ex.com</a></body></html>',
+    );
+    expect(extractClientRedirectUrl(doc, 'https://lnkd.in/abc')).toBe('https://ex.com/job');
+  });
+});
+
+describe('extractHreflangAlternates', () => {
+  it('resolves hreflang alternates and skips incomplete ones', () => {
+    const doc = makeDoc(
+      '<html><head><link rel="alternate" hreflang="de" href="/de/post"><link rel="alternate" hreflang="fr"><link rel="alternate" type="application/rss+xml" href="/feed"></head></html>',
+    );
+    expect(extractHreflangAlternates(doc, 'https://ex.com/en/post')).toEqual([
+      { lang: 'de', href: 'https://ex.com/de/post' },
+    ]);
+  });
+});
+
+describe('extractPageLanguage', () => {
+  it('reads <html lang>, then og:locale', () => {
+    expect(extractPageLanguage(makeDoc('<html lang="de-AT"><head></head></html>'))).toBe('de-AT');
+    expect(
+      extractPageLanguage(
+        makeDoc('<html><head><meta property="og:locale" content="en_GB"></head></html>'),
+      ),
+    ).toBe('en-GB');
+    expect(extractPageLanguage(makeDoc('<html><head></head></html>'))).toBeUndefined();
+  });
+});
+
 describe('extractAuthor', () => {
   it('extracts author content', () => {
     const doc = makeDoc('<html><head><meta name="author" content="Example Author"></head></html>');
@@ -200,186 +439,151 @@ describe('extractGithubTitle', () => {
   });
 });
 
-describe('fetchOembed', () => {
-  beforeEach(() => {
-    vi.resetAllMocks();
+describe('getCachedMetadata', () => {
+  it('returns undefined for an uncached URL', () => {
+    expect(getCachedMetadata('https://never-fetched.example')).toBeUndefined();
   });
 
-  it('returns title and author for a YouTube watch URL', async () => {
-    mockRequestUrl.mockResolvedValue({
-      json: { title: 'My Video Title', author_name: 'Channel Name' },
-      text: '',
-      headers: {},
-      arrayBuffer: new ArrayBuffer(0),
-      status: 200,
-    });
-
-    const result = await fetchOembed('https://www.youtube.com/watch?v=abc123');
-    expect(result).toEqual({ title: 'My Video Title', author: 'Channel Name' });
-    expect(mockRequestUrl).toHaveBeenCalledWith(
-      expect.objectContaining({
-        url: expect.stringContaining('youtube.com/oembed'),
-      }),
+  it('reports a hit so the new recency order is persisted', () => {
+    const fetchedAt = Date.now();
+    importCache([
+      ['https://www.lru-a.example/', { title: 'A', favicon: '', author: '', fetchedAt }],
+      ['https://www.lru-b.example/', { title: 'B', favicon: '', author: '', fetchedAt }],
+    ]);
+    let changes = 0;
+    const off = onCacheChange(() => changes++);
+
+    getCachedMetadata('https://www.lru-a.example/');
+    off();
+
+    expect(changes).toBe(1);
+    const urls = exportCache().map(([url]) => url);
+    expect(urls.indexOf('https://www.lru-a.example/')).toBeGreaterThan(
+      urls.indexOf('https://www.lru-b.example/'),
     );
   });
+});
 
-  it('returns empty author when author_name is missing', async () => {
-    mockRequestUrl.mockResolvedValue({
-      json: { title: 'No Author Video' },
-      text: '',
-      headers: {},
-      arrayBuffer: new ArrayBuffer(0),
-      status: 200,
-    });
-
-    const result = await fetchOembed('https://www.youtube.com/watch?v=abc123');
-    expect(result).toEqual({ title: 'No Author Video', author: '' });
-  });
-
-  it('returns title and author for a youtu.be short URL', async () => {
-    mockRequestUrl.mockResolvedValue({
-      json: { title: 'Short URL Video', author_name: 'Short Channel' },
-      text: '',
-      headers: {},
-      arrayBuffer: new ArrayBuffer(0),
-      status: 200,
-    });
-
-    const result = await fetchOembed('https://youtu.be/abc123');
-    expect(result).toEqual({
-      title: 'Short URL Video',
-      author: 'Short Channel',
-    });
-  });
-
-  it('returns title and author for a Vimeo URL', async () => {
-    mockRequestUrl.mockResolvedValue({
-      json: { title: 'Vimeo Video', author_name: 'Vimeo Creator' },
-      text: '',
-      headers: {},
-      arrayBuffer: new ArrayBuffer(0),
-      status: 200,
-    });
-
-    const result = await fetchOembed('https://vimeo.com/123456');
-    expect(result).toEqual({ title: 'Vimeo Video', author: 'Vimeo Creator' });
-  });
-
-  it('returns undefined for non-oEmbed URLs', async () => {
-    const result = await fetchOembed('https://github.com');
-    expect(result).toBeUndefined();
-    expect(mockRequestUrl).not.toHaveBeenCalled();
+describe('fetchLinkMetadata', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
   });
 
-  it('returns undefined when oEmbed request fails', async () => {
-    mockRequestUrl.mockRejectedValue(new Error('Network error'));
+  it('extracts title from og:title', async () => {
+    mockRequestUrl.mockResolvedValue(
+      htmlResponse('<html><head><meta property="og:title" content="OG Title"></head></html>'),
+    );
 
-    const result = await fetchOembed('https://www.youtube.com/watch?v=abc123');
-    expect(result).toBeUndefined();
+    const meta = await fetchLinkMetadata('https://www.og-title.example');
+    expect(meta.title).toBe('OG Title');
   });
-});
 
-describe('normalizeUrl', () => {
-  it('adds trailing slash to bare domain', () => {
-    expect(normalizeUrl('https://example.com')).toBe('https://example.com/');
-  });
+  it('extracts author from meta author tag', async () => {
+    mockRequestUrl.mockResolvedValue(
+      htmlResponse(
+        '<html><head><meta name="author" content="Example Author"><title>Post</title></head></html>',
+      ),
+    );
 
-  it('preserves subdomains', () => {
-    expect(normalizeUrl('https://docs.google.com')).toBe('https://docs.google.com/');
+    const meta = await fetchLinkMetadata('https://www.author-tag.example');
+    expect(meta.author).toBe('Example Author');
+    expect(meta.title).toBe('Post');
   });
 
-  it('preserves www. when already present', () => {
-    expect(normalizeUrl('https://www.google.com')).toBe('https://www.google.com/');
-  });
+  it('ignores og:site_name for author', async () => {
+    mockRequestUrl.mockResolvedValue(
+      htmlResponse(
+        '<html><head><meta property="og:site_name" content="GitHub"><title>Repo</title></head></html>',
+      ),
+    );
 
-  it('preserves http:// protocol', () => {
-    expect(normalizeUrl('http://example.com')).toBe('http://example.com/');
+    const meta = await fetchLinkMetadata('https://www.site-name.example');
+    expect(meta.author).toBe('');
+    expect(meta.title).toBe('Repo');
   });
 
-  it('preserves path, query, and fragment', () => {
-    expect(normalizeUrl('https://example.com/path?q=1#frag')).toBe(
-      'https://example.com/path?q=1#frag',
+  it('extracts description, image and site name for the hover card', async () => {
+    mockRequestUrl.mockResolvedValue(
+      htmlResponse(
+        '<html><head><title>Card</title><meta property="og:description" content="Summary"><meta property="og:image" content="/img.png"><meta property="og:site_name" content="Site"></head></html>',
+      ),
     );
-  });
 
-  it('returns the input as-is for unparseable strings', () => {
-    expect(normalizeUrl('not a url')).toBe('not a url');
+    const meta = await fetchLinkMetadata('https://www.hover-card.example/post');
+    expect(meta.description).toBe('Summary');
+    expect(meta.image).toBe('https://www.hover-card.example/img.png');
+    expect(meta.siteName).toBe('Site');
   });
-});
 
-describe('getCachedMetadata', () => {
-  it('returns undefined for an uncached URL', () => {
-    expect(getCachedMetadata('https://never-fetched.example')).toBeUndefined();
-  });
-});
+  it('falls back to Twitter Card and meta description fields', async () => {
+    mockRequestUrl.mockResolvedValue(htmlResponse(CARD_FIXTURE));
 
-describe('fetchLinkMetadata', () => {
-  beforeEach(() => {
-    vi.resetAllMocks();
+    const meta = await fetchLinkMetadata('https://www.twitter-card.example/post');
+    expect(meta.title).toBe('Launch notes');
+    expect(meta.description).toBe('Twitter description');
+    expect(meta.image).toBe('https://www.twitter-card.example/twitter.png');
+    expect(meta.type).toBe('article');
+    expect(meta.publishedTime).toBe('2024-05-01T09:30:00Z');
   });
 
-  it('extracts title from og:title', async () => {
-    mockRequestUrl.mockResolvedValue({
-      text: '<html><head><meta property="og:title" content="OG Title"></head></html>',
-      headers: { 'content-type': 'text/html' },
-      arrayBuffer: new ArrayBuffer(0),
-      json: {},
-      status: 200,
+  it('prefers the JSON-LD headline and author over <title> and meta author', async () => {
+    const jsonLd = JSON.stringify({
+      '@type': 'NewsArticle',
+      headline: 'Actual headline',
+      author: { '@type': 'Person', name: 'Reporter' },
+      datePublished: '2024-02-02',
     });
+    mockRequestUrl.mockResolvedValue(
+      htmlResponse(
+        `<html><head><title>Breaking! Top 10 news | Site</title><meta name="author" content="Site Staff"><script type="application/ld+json">${jsonLd}</script></head></html>`,
+      ),
+    );
 
-    const meta = await fetchLinkMetadata('https://www.og-title.example');
-    expect(meta.title).toBe('OG Title');
+    const meta = await fetchLinkMetadata('https://www.json-ld.example/story');
+    expect(meta.title).toBe('Actual headline');
+    expect(meta.author).toBe('Reporter');
+    expect(meta.publishedTime).toBe('2024-02-02');
   });
 
-  it('extracts author from meta author tag', async () => {
-    mockRequestUrl.mockResolvedValue({
-      text: '<html><head><meta name="author" content="Example Author"><title>Post</title></head></html>',
-      headers: { 'content-type': 'text/html' },
-      arrayBuffer: new ArrayBuffer(0),
-      json: {},
-      status: 200,
-    });
+  it('prefers the title and author from a discovered oEmbed endpoint', async () => {
+    const page = 'https://www.oembed-discovery.example/post';
+    const endpoint = 'https://www.oembed-discovery.example/oembed?url=post';
+    mockRequestUrl.mockImplementation(async ({ url }) =>
+      url === endpoint
+        ? jsonResponse({ title: 'Clean title', author_name: 'Blogger' })
+        : htmlResponse(
+            `<html><head><title>Clean title – My Blog – Just another site</title><link rel="alternate" type="application/json+oembed" href="${endpoint}"></head></html>`,
+          ),
+    );
 
-    const meta = await fetchLinkMetadata('https://www.author-tag.example');
-    expect(meta.author).toBe('Example Author');
-    expect(meta.title).toBe('Post');
+    const meta = await fetchLinkMetadata(page);
+    expect(meta.title).toBe('Clean title');
+    expect(meta.author).toBe('Blogger');
   });
 
-  it('ignores og:site_name for author', async () => {
-    mockRequestUrl.mockResolvedValue({
-      text: '<html><head><meta property="og:site_name" content="GitHub"><title>Repo</title></head></html>',
-      headers: { 'content-type': 'text/html' },
-      arrayBuffer: new ArrayBuffer(0),
-      json: {},
-      status: 200,
-    });
+  it('uses twitter:title when <title> and og:title are missing', async () => {
+    mockRequestUrl.mockResolvedValue(
+      htmlResponse('<html><head><meta name="twitter:title" content="Only Twitter"></head></html>'),
+    );
 
-    const meta = await fetchLinkMetadata('https://www.site-name.example');
-    expect(meta.author).toBe('');
-    expect(meta.title).toBe('Repo');
+    const meta = await fetchLinkMetadata('https://www.twitter-title.example/');
+    expect(meta.title).toBe('Only Twitter');
   });
 
   it('returns empty author when meta author is missing', async () => {
-    mockRequestUrl.mockResolvedValue({
-      text: '<html><head><title>No Author</title></head></html>',
-      headers: { 'content-type': 'text/html' },
-      arrayBuffer: new ArrayBuffer(0),
-      json: {},
-      status: 200,
-    });
+    mockRequestUrl.mockResolvedValue(
+      htmlResponse('<html><head><title>No Author</title></head></html>'),
+    );
 
     const meta = await fetchLinkMetadata('https://www.no-author.example');
     expect(meta.author).toBe('');
   });
 
   it('falls back to <title> when og:title is missing', async () => {
-    mockRequestUrl.mockResolvedValue({
-      text: '<html><head><title>Page Title</title></head></html>',
-      headers: { 'content-type': 'text/html' },
-      arrayBuffer: new ArrayBuffer(0),
-      json: {},
-      status: 200,
-    });
+    mockRequestUrl.mockResolvedValue(
+      htmlResponse('<html><head><title>Page Title</title></head></html>'),
+    );
 
     const meta = await fetchLinkMetadata('https://www.title-tag.example');
     expect(meta.title).toBe('Page Title');
@@ -413,13 +617,9 @@ describe('fetchLinkMetadata', () => {
   });
 
   it('deduplicates concurrent fetches for the same URL', async () => {
-    mockRequestUrl.mockResolvedValue({
-      text: '<html><head><title>Dedup</title></head></html>',
-      headers: { 'content-type': 'text/html' },
-      arrayBuffer: new ArrayBuffer(0),
-      json: {},
-      status: 200,
-    });
+    mockRequestUrl.mockResolvedValue(
+      htmlResponse('<html><head><title>Dedup</title></head></html>'),
+    );
 
     const url = 'https://www.dedup.example/';
     const [a, b] = await Promise.all([fetchLinkMetadata(url), fetchLinkMetadata(url)]);
@@ -433,13 +633,9 @@ describe('fetchLinkMetadata', () => {
 
   it('returns cached value on subsequent calls', async () => {
     const url = 'https://www.cached-return.example/';
-    mockRequestUrl.mockResolvedValue({
-      text: '<html><head><title>Cached</title></head></html>',
-      headers: { 'content-type': 'text/html' },
-      arrayBuffer: new ArrayBuffer(0),
-      json: {},
-      status: 200,
-    });
+    mockRequestUrl.mockResolvedValue(
+      htmlResponse('<html><head><title>Cached</title></head></html>'),
+    );
 
     await fetchLinkMetadata(url);
     mockRequestUrl.mockClear();
@@ -457,26 +653,22 @@ describe('fetchLinkMetadata', () => {
   });
 
   it('strips description from GitHub repo titles', async () => {
-    mockRequestUrl.mockResolvedValue({
-      text: '<html><head><meta property="og:title" content="acme/widgets: A widget library"><title>GitHub - acme/widgets: A widget library</title></head></html>',
-      headers: { 'content-type': 'text/html' },
-      arrayBuffer: new ArrayBuffer(0),
-      json: {},
-      status: 200,
-    });
+    mockRequestUrl.mockResolvedValue(
+      htmlResponse(
+        '<html><head><meta property="og:title" content="acme/widgets: A widget library"><title>GitHub - acme/widgets: A widget library</title></head></html>',
+      ),
+    );
 
     const meta = await fetchLinkMetadata('https://github.com/acme/widgets');
     expect(meta.title).toBe('widgets');
   });
 
   it('falls back to hostname and extracts favicon when HTML has no title (JS-rendered sites)', async () => {
-    mockRequestUrl.mockResolvedValue({
-      text: '<html><head><link rel="shortcut icon" href="https://cdn.example.com/favicon.ico"></head><body><div id="app"></div></body></html>',
-      headers: { 'content-type': 'text/html' },
-      arrayBuffer: new ArrayBuffer(0),
-      json: {},
-      status: 200,
-    });
+    mockRequestUrl.mockResolvedValue(
+      htmlResponse(
+        '<html><head><link rel="shortcut icon" href="https://cdn.example.com/favicon.ico"></head><body><div id="app"></div></body></html>',
+      ),
+    );
 
     const meta = await fetchLinkMetadata('https://www.notitle-favicon.example');
     expect(meta.title).toBe('www.notitle-favicon.example');
@@ -484,13 +676,9 @@ describe('fetchLinkMetadata', () => {
   });
 
   it('falls back to hostname and /favicon.ico when HTML has no title and no favicon link', async () => {
-    mockRequestUrl.mockResolvedValue({
-      text: '<html><head></head><body><div id="app"></div></body></html>',
-      headers: { 'content-type': 'text/html' },
-      arrayBuffer: new ArrayBuffer(0),
-      json: {},
-      status: 200,
-    });
+    mockRequestUrl.mockResolvedValue(
+      htmlResponse('<html><head></head><body><div id="app"></div></body></html>'),
+    );
 
     const meta = await fetchLinkMetadata('https://www.notitle-nofav.example');
     expect(meta.title).toBe('www.notitle-nofav.example');
@@ -499,13 +687,7 @@ describe('fetchLinkMetadata', () => {
 
   it('caches result when HTML has no title', async () => {
     const url = 'https://www.notitle-cached.example/';
-    mockRequestUrl.mockResolvedValue({
-      text: '<html><head></head><body></body></html>',
-      headers: { 'content-type': 'text/html' },
-      arrayBuffer: new ArrayBuffer(0),
-      json: {},
-      status: 200,
-    });
+    mockRequestUrl.mockResolvedValue(htmlResponse('<html><head></head><body></body></html>'));
 
     await fetchLinkMetadata(url);
     const cached = getCachedMetadata(url);
@@ -514,13 +696,9 @@ describe('fetchLinkMetadata', () => {
   });
 
   it('normalizes bare domain before fetching', async () => {
-    mockRequestUrl.mockResolvedValue({
-      text: '<html><head><title>Normalized</title></head></html>',
-      headers: { 'content-type': 'text/html' },
-      arrayBuffer: new ArrayBuffer(0),
-      json: {},
-      status: 200,
-    });
+    mockRequestUrl.mockResolvedValue(
+      htmlResponse('<html><head><title>Normalized</title></head></html>'),
+    );
 
     const meta = await fetchLinkMetadata('https://example.com');
     expect(meta.title).toBe('Normalized');
@@ -532,25 +710,511 @@ describe('fetchLinkMetadata', () => {
   });
 
   it('uses URL slug as fallback title when HTML has no title and URL has a readable path', async () => {
-    mockRequestUrl.mockResolvedValue({
-      text: '<html><head></head><body></body></html>',
-      headers: { 'content-type': 'text/html' },
-      arrayBuffer: new ArrayBuffer(0),
-      json: {},
-      status: 200,
-    });
+    mockRequestUrl.mockResolvedValue(htmlResponse('<html><head></head><body></body></html>'));
 
     const meta = await fetchLinkMetadata(
       'https://www.amazon.es/Motivational-Interviewing-Fourth-Edition/dp/146255279X',
     );
     expect(meta.title).toBe('Motivational Interviewing Fourth Edition');
   });
-});
 
-describe('negative fetch cache', () => {
-  beforeEach(() => {
-    vi.resetAllMocks();
-    clearFailedCache();
+  it('decodes pages in their declared charset', async () => {
+    // "日本語" in Shift_JIS
+    const title = [0x93, 0xfa, 0x96, 0x7b, 0x8c, 0xea];
+    const ascii = (text: string) => Array.from(text, (ch) => ch.charCodeAt(0));
+    mockRequestUrl.mockResolvedValue({
+      text: '',
+      headers: { 'Content-Type': 'text/html; charset=Shift_JIS' },
+      arrayBuffer: new Uint8Array([
+        ...ascii('<html><head><title>'),
+        ...title,
+        ...ascii('</title></head></html>'),
+      ]).buffer,
+      json: {},
+      status: 200,
+    });
+
+    const meta = await fetchLinkMetadata('https://www.shift-jis.example');
+    expect(meta.title).toBe('日本語');
+  });
+
+  it('sends the configured headers for the host without caching them', async () => {
+    setHeaderRules([
+      {
+        id: 'intranet',
+        pattern: '*.intranet.example',
+        userAgent: '',
+        acceptLanguage: 'de',
+        authorization: '',
+        cookie: 'session=secret',
+      },
+    ]);
+    mockRequestUrl.mockResolvedValue(
+      htmlResponse('<html><head><title>Team wiki</title></head></html>'),
+    );
+
+    const meta = await fetchLinkMetadata('https://wiki.intranet.example/page');
+    setHeaderRules([]);
+    expect(meta.title).toBe('Team wiki');
+    expect(mockRequestUrl).toHaveBeenCalledWith(
+      expect.objectContaining({
+        headers: expect.objectContaining({ 'Accept-Language': 'de', Cookie: 'session=secret' }),
+      }),
+    );
+    expect(JSON.stringify(exportCache())).not.toContain('secret');
+  });
+});
+
+describe('redirects', () => {
+  function servePages(pages: Record<string, string>) {
+    mockRequestUrl.mockImplementation(async ({ url }) => {
+      const html = pages[url];
+      if (html === undefined) {
+        throw new Error(`unexpected request: ${url}`);
+      }
+      return htmlResponse(html);
+    });
+  }
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+  });
+
+  it('resolves query-parameter redirectors without requesting them', async () => {
+    servePages({
+      'https://dest-google.example/article': '<html><head><title>Article</title></head></html>',
+    });
+
+    const meta = await fetchLinkMetadata(
+      'https://www.google.com/url?q=https%3A%2F%2Fdest-google.example%2Farticle',
+    );
+    expect(meta.title).toBe('Article');
+    expect(meta.favicon).toBe('https://dest-google.example/favicon.ico');
+    expect(meta.finalUrl).toBe('https://dest-google.example/article');
+    expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+  });
+
+  it('follows meta refresh redirects', async () => {
+    servePages({
+      'https://t.co/refresh1':
+        '<html><head><meta http-equiv="refresh" content="0;URL=https://dest-tco.example/post"><title>https://dest-tco.example/post</title></head></html>',
+      'https://dest-tco.example/post':
+        '<html><head><title>Real post</title><link rel="icon" href="/icon.png"></head></html>',
+    });
+
+    const meta = await fetchLinkMetadata('https://t.co/refresh1');
+    expect(meta.title).toBe('Real post');
+    expect(meta.favicon).toBe('https://dest-tco.example/icon.png');
+    expect(meta.finalUrl).toBe('https://dest-tco.example/post');
+  });
+
+  it("fetches a shortener's canonical destination so its providers apply", async () => {
+    servePages({
+      // requestUrl follows the HTTP redirect silently and returns the destination page
+      'https://bit.ly/canon1':
+        '<html><head><title>Destination</title><link rel="canonical" href="https://dest-bitly.example/page"><link rel="icon" href="/icon.png"></head></html>',
+      'https://dest-bitly.example/page':
+        '<html><head><title>Destination</title><link rel="canonical" href="https://dest-bitly.example/page"><link rel="icon" href="/icon.png"></head></html>',
+    });
+
+    const meta = await fetchLinkMetadata('https://bit.ly/canon1');
+    expect(meta.favicon).toBe('https://dest-bitly.example/icon.png');
+    expect(meta.finalUrl).toBe('https://dest-bitly.example/page');
+    expect(mockRequestUrl).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't resolve relative links against a shortener whose destination is unknown", async () => {
+    servePages({
+      // The destination page names no canonical or og:url, so its address is unknown
+      'https://bit.ly/nocanon1':
+        '<html><head><title>Destination</title><link rel="icon" href="/icon.png"><meta property="og:image" content="/cover.png"></head></html>',
+      'https://bit.ly/nocanon2':
+        '<html><head><title>Destination</title><link rel="icon" href="https://cdn.dest.example/icon.png"></head></html>',
+    });
+
+    const relative = await fetchLinkMetadata('https://bit.ly/nocanon1');
+    expect(relative.title).toBe('Destination');
+    expect(relative.favicon).toBe('');
+    expect(relative.image).toBeUndefined();
+    expect(relative.finalUrl).toBeUndefined();
+
+    const absolute = await fetchLinkMetadata('https://bit.ly/nocanon2');
+    expect(absolute.favicon).toBe('https://cdn.dest.example/icon.png');
+  });
+
+  it('records a same-site canonical URL and resolves the favicon against it', async () => {
+    servePages({
+      'https://www.canon-site.example/amp/post':
+        '<html><head><title>Post</title><link rel="canonical" href="https://canon-site.example/post"></head></html>',
+    });
+
+    const meta = await fetchLinkMetadata('https://www.canon-site.example/amp/post');
+    expect(meta.finalUrl).toBe('https://canon-site.example/post');
+    expect(meta.favicon).toBe('https://canon-site.example/favicon.ico');
+  });
+
+  it('ignores canonical URLs on other sites', async () => {
+    servePages({
+      'https://spoof.example/login':
+        '<html><head><title>Sign in</title><link rel="canonical" href="https://bank.example/login"></head></html>',
+    });
+
+    const meta = await fetchLinkMetadata('https://spoof.example/login');
+    expect(meta.finalUrl).toBeUndefined();
+    expect(meta.favicon).toBe('https://spoof.example/favicon.ico');
+  });
+
+  it('stops following redirect loops', async () => {
+    servePages({
+      'https://loop-a.example/':
+        '<html><head><meta http-equiv="refresh" content="0;url=https://loop-b.example/"><title>A</title></head></html>',
+      'https://loop-b.example/':
+        '<html><head><meta http-equiv="refresh" content="0;url=https://loop-a.example/"><title>B</title></head></html>',
+    });
+
+    const meta = await fetchLinkMetadata('https://loop-a.example/');
+    expect(mockRequestUrl).toHaveBeenCalledTimes(4);
+    expect(meta.title).toBe('B');
+  });
+});
+
+describe('preferred languages', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+    setPreferredLanguages('de, en');
+  });
+
+  afterEach(() => {
+    setPreferredLanguages('');
+    setHeaderRules([]);
+  });
+
+  it('sends Accept-Language, letting header rules override it', async () => {
+    setHeaderRules([
+      {
+        id: 'lang',
+        pattern: 'lang-rule.example',
+        userAgent: '',
+        acceptLanguage: 'fr',
+        authorization: '',
+        cookie: '',
+      },
+    ]);
+    mockRequestUrl.mockResolvedValue(htmlResponse('<html><head><title>T</title></head></html>'));
+
+    await fetchLinkMetadata('https://lang-header.example/');
+    expect(mockRequestUrl.mock.calls[0][0]).toMatchObject({
+      headers: { 'Accept-Language': 'de, en;q=0.9' },
+    });
+    await fetchLinkMetadata('https://lang-rule.example/');
+    expect(mockRequestUrl.mock.calls[1][0]).toMatchObject({ headers: { 'Accept-Language': 'fr' } });
+  });
+
+  it('reads the title from the translation in a preferred language', async () => {
+    mockRequestUrl.mockImplementation(async ({ url }) =>
+      url === 'https://hreflang.example/de/'
+        ? htmlResponse('<html lang="de"><head><title>Willkommen</title></head></html>')
+        : htmlResponse(
+            '<html lang="es"><head><title>Bienvenidos</title><link rel="alternate" hreflang="de" href="/de/"><link rel="alternate" hreflang="en" href="/en/"></head></html>',
+          ),
+    );
+
+    const meta = await fetchLinkMetadata('https://hreflang.example/es/');
+    expect(meta.title).toBe('Willkommen');
+    expect(meta.finalUrl).toBeUndefined();
+    expect(mockRequestUrl).toHaveBeenCalledTimes(2);
+  });
+
+  it('ignores translations on another site', async () => {
+    mockRequestUrl.mockResolvedValue(
+      htmlResponse(
+        '<html lang="es"><head><title>Bienvenidos</title><link rel="alternate" hreflang="de" href="https://elsewhere.example/de/"></head></html>',
+      ),
+    );
+
+    const meta = await fetchLinkMetadata('https://hreflang-cross.example/es/');
+    expect(meta.title).toBe('Bienvenidos');
+    expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the page when it is already in a preferred language', async () => {
+    mockRequestUrl.mockResolvedValue(
+      htmlResponse(
+        '<html lang="de"><head><title>Hallo</title><link rel="alternate" hreflang="en" href="/en/"></head></html>',
+      ),
+    );
+
+    const meta = await fetchLinkMetadata('https://hreflang-kept.example/de/');
+    expect(meta.title).toBe('Hallo');
+    expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the original page when the translation fails', async () => {
+    mockRequestUrl.mockImplementation(async ({ url }) => {
+      if (url === 'https://hreflang-fail.example/de/') {
+        throw new Error('offline');
+      }
+      return htmlResponse(
+        '<html lang="es"><head><title>Hola</title><link rel="alternate" hreflang="de" href="/de/"></head></html>',
+      );
+    });
+
+    const meta = await fetchLinkMetadata('https://hreflang-fail.example/es/');
+    expect(meta.title).toBe('Hola');
+  });
+});
+
+describe('junk titles', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+  });
+
+  afterEach(() => {
+    setJunkTitlePhrases('');
+  });
+
+  it('falls back to og:title behind a consent wall and marks the result blocked', async () => {
+    mockRequestUrl.mockResolvedValue(
+      htmlResponse(
+        '<html><head><title>Before you continue</title><meta property="og:title" content="Real headline"></head></html>',
+      ),
+    );
+
+    const meta = await fetchLinkMetadata('https://consent.example/article');
+    expect(meta.title).toBe('Real headline');
+    expect(meta.blocked).toBe(true);
+  });
+
+  it('falls back to a discovered oEmbed title before og:title', async () => {
+    mockRequestUrl.mockImplementation(async ({ url }) =>
+      url.startsWith('https://oembed-wall.example/oembed')
+        ? jsonResponse({ title: 'oEmbed headline' })
+        : htmlResponse(
+            '<html><head><title>Just a moment...</title><meta property="og:title" content="OG headline"><link rel="alternate" type="application/json+oembed" href="/oembed?url=x"></head></html>',
+          ),
+    );
+
+    const meta = await fetchLinkMetadata('https://oembed-wall.example/post');
+    expect(meta.title).toBe('oEmbed headline');
+    expect(meta.blocked).toBe(true);
+  });
+
+  it('ignores the title of error statuses and falls back to the URL', async () => {
+    mockRequestUrl.mockResolvedValue(
+      htmlResponse('<html><head><title>Welcome to Example</title></head></html>', 503),
+    );
+
+    const meta = await fetchLinkMetadata('https://status.example/docs/getting-started');
+    expect(meta.title).toBe(extractUrlTitle('https://status.example/docs/getting-started'));
+    expect(meta.blocked).toBe(true);
+  });
+
+  it('still reads a discovered oEmbed title on error statuses', async () => {
+    mockRequestUrl.mockImplementation(async ({ url }) =>
+      url.startsWith('https://oembed-error.example/oembed')
+        ? jsonResponse({ title: 'oEmbed headline' })
+        : htmlResponse(
+            '<html><head><title>403 Forbidden</title><link rel="alternate" type="application/json+oembed" href="/oembed?url=x"></head></html>',
+            403,
+          ),
+    );
+
+    const meta = await fetchLinkMetadata('https://oembed-error.example/post');
+    expect(meta.title).toBe('oEmbed headline');
+    expect(meta.blocked).toBe(true);
+  });
+
+  it('uses phrases added in the settings', async () => {
+    setJunkTitlePhrases('Verify your age');
+    mockRequestUrl.mockResolvedValue(
+      htmlResponse('<html><head><title>Verify your age</title></head></html>'),
+    );
+
+    const meta = await fetchLinkMetadata('https://age-gate.example/video');
+    expect(meta.title).toBe(extractUrlTitle('https://age-gate.example/video'));
+  });
+
+  it('leaves ordinary pages unmarked', async () => {
+    mockRequestUrl.mockResolvedValue(
+      htmlResponse('<html><head><title>How to log in with SSH keys</title></head></html>'),
+    );
+
+    const meta = await fetchLinkMetadata('https://not-junk.example/');
+    expect(meta.title).toBe('How to log in with SSH keys');
+    expect(meta.blocked).toBeUndefined();
+  });
+
+  it('expires blocked entries after an hour', () => {
+    const fetchedAt = Date.now() - 2 * 60 * 60 * 1000;
+    importCache([
+      [
+        'https://www.blocked-ttl.example/',
+        { title: 'B', favicon: '', author: '', fetchedAt, blocked: true },
+      ],
+      ['https://www.kept-ttl.example/', { title: 'K', favicon: '', author: '', fetchedAt }],
+    ]);
+
+    expect(getCachedMetadata('https://www.blocked-ttl.example/')).toBeUndefined();
+    expect(getCachedMetadata('https://www.kept-ttl.example/')?.title).toBe('K');
+  });
+});
+
+describe('title rules', () => {
+  afterEach(() => {
+    setTitleRules([]);
+  });
+
+  it('rewrites extracted titles and keeps the original', async () => {
+    vi.resetAllMocks();
+    clearCache();
+    setTitleRules([
+      { pattern: 'rules.example', action: 'strip-suffix', find: '', replace: '', segment: 1 },
+    ]);
+    mockRequestUrl.mockResolvedValue(
+      htmlResponse('<html><head><title>Release notes - Confluence</title></head></html>'),
+    );
+
+    const meta = await fetchLinkMetadata('https://rules.example/notes');
+    expect(meta.title).toBe('Release notes');
+    expect(meta.extractedTitle).toBe('Release notes - Confluence');
+  });
+
+  it('re-applies changed rules to cached titles and redraws them', () => {
+    importCache([
+      [
+        'https://rules-cache.example/a',
+        { title: 'Release notes - Confluence', favicon: '', author: '', fetchedAt: Date.now() },
+      ],
+    ]);
+    const changes: string[] = [];
+    const off = onMetadataChange((url, meta) => {
+      if (url === 'https://rules-cache.example/a') {
+        changes.push(meta.title);
+      }
+    });
+
+    setTitleRules([
+      { pattern: 'rules-cache.example', action: 'strip-suffix', find: '', replace: '', segment: 1 },
+    ]);
+    reapplyTitleRules();
+    expect(getCachedMetadata('https://rules-cache.example/a')?.title).toBe('Release notes');
+
+    setTitleRules([]);
+    reapplyTitleRules();
+    const restored = getCachedMetadata('https://rules-cache.example/a');
+    expect(restored?.title).toBe('Release notes - Confluence');
+    expect(restored?.extractedTitle).toBeUndefined();
+    expect(changes).toEqual(['Release notes', 'Release notes - Confluence']);
+    off();
+  });
+});
+
+describe('site providers', () => {
+  const HTML_RESPONSE = htmlResponse(
+    '<html><head><title>Generic title</title><meta name="description" content="Generic description"></head></html>',
+  );
+  const cleanups: (() => void)[] = [];
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+  });
+
+  afterEach(() => {
+    cleanups.splice(0).forEach((fn) => fn());
+  });
+
+  it('resolves from the URL alone without a request', async () => {
+    cleanups.push(
+      registerProvider({
+        id: 'from-url',
+        matches: (url) => url.hostname === 'from-url.example',
+        fromUrl: (url) => ({ title: url.pathname.slice(1), author: 'Someone' }),
+      }),
+    );
+
+    const meta = await fetchLinkMetadata('https://from-url.example/hello');
+    expect(meta.title).toBe('hello');
+    expect(meta.author).toBe('Someone');
+    expect(meta.favicon).toBe('https://from-url.example/favicon.ico');
+    expect(mockRequestUrl).not.toHaveBeenCalled();
+  });
+
+  it('resolves from an API and falls back to the page when it returns nothing', async () => {
+    mockRequestUrl.mockResolvedValue(HTML_RESPONSE);
+    cleanups.push(
+      registerProvider({
+        id: 'from-api',
+        matches: (url) => url.hostname.endsWith('from-api.example'),
+        fromApi: async (url) =>
+          url.hostname === 'ok.from-api.example' ? { title: 'API title' } : undefined,
+      }),
+    );
+
+    expect((await fetchLinkMetadata('https://ok.from-api.example/')).title).toBe('API title');
+    expect(mockRequestUrl).not.toHaveBeenCalled();
+    expect((await fetchLinkMetadata('https://none.from-api.example/')).title).toBe('Generic title');
+  });
+
+  it('overlays fromHtml fields on the generic result', async () => {
+    mockRequestUrl.mockResolvedValue(HTML_RESPONSE);
+    cleanups.push(
+      registerProvider({
+        id: 'from-html',
+        matches: (url) => url.hostname === 'from-html.example',
+        fromHtml: (doc) => ({ title: `Parsed ${doc.title}`, author: '' }),
+      }),
+    );
+
+    const meta = await fetchLinkMetadata('https://from-html.example/');
+    expect(meta.title).toBe('Parsed Generic title');
+    expect(meta.description).toBe('Generic description');
+  });
+
+  it('applies postProcess to the final result', async () => {
+    mockRequestUrl.mockResolvedValue(HTML_RESPONSE);
+    cleanups.push(
+      registerProvider({
+        id: 'post',
+        matches: (url) => url.hostname === 'post.example',
+        postProcess: (meta) => ({ ...meta, title: meta.title.toUpperCase() }),
+      }),
+    );
+
+    expect((await fetchLinkMetadata('https://post.example/')).title).toBe('GENERIC TITLE');
+  });
+
+  it('ignores providers that throw', async () => {
+    mockRequestUrl.mockResolvedValue(HTML_RESPONSE);
+    cleanups.push(
+      registerProvider({
+        id: 'broken',
+        matches: (url) => url.hostname === 'broken.example',
+        fromUrl: () => {
+          throw new Error('boom');
+        },
+        fromApi: () => Promise.reject(new Error('boom')),
+        fromHtml: () => {
+          throw new Error('boom');
+        },
+        postProcess: () => {
+          throw new Error('boom');
+        },
+      }),
+    );
+
+    expect((await fetchLinkMetadata('https://broken.example/')).title).toBe('Generic title');
+  });
+});
+
+describe('negative fetch cache', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+    clearFailedCache();
   });
 
   it('caches failures for 60 seconds and does not re-fetch within that window', async () => {
@@ -579,13 +1243,9 @@ describe('negative fetch cache', () => {
     // Simulate expiry by backdating the failedUntil entry
     getFailedUntil().set('https://www.negcache-retry.example/page', Date.now() - 1);
 
-    mockRequestUrl.mockResolvedValue({
-      text: '<html><head><title>Recovered</title></head></html>',
-      headers: { 'content-type': 'text/html' },
-      arrayBuffer: new ArrayBuffer(0),
-      json: {},
-      status: 200,
-    });
+    mockRequestUrl.mockResolvedValue(
+      htmlResponse('<html><head><title>Recovered</title></head></html>'),
+    );
 
     const meta = await fetchLinkMetadata(url);
     expect(meta.title).toBe('Recovered');
@@ -603,3 +1263,294 @@ describe('negative fetch cache', () => {
     expect(getFailedUntil().size).toBe(0);
   });
 });
+
+describe('persistent cache', () => {
+  const DEFAULT_TTL = 30 * 24 * 60 * 60 * 1000;
+
+  function entry(title: string, fetchedAt = Date.now()): LinkMetadata {
+    return { title, favicon: '', author: '', fetchedAt };
+  }
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+    setCacheLimits(DEFAULT_TTL, 2000);
+  });
+
+  it('stamps fetched metadata with fetchedAt', async () => {
+    mockRequestUrl.mockResolvedValue(
+      htmlResponse('<html><head><title>Stamped</title></head></html>'),
+    );
+
+    const before = Date.now();
+    const meta = await fetchLinkMetadata('https://www.stamped.example/');
+    expect(meta.fetchedAt).toBeGreaterThanOrEqual(before);
+  });
+
+  it('restores imported entries without fetching', async () => {
+    importCache([['https://www.imported.example/', entry('Imported')]]);
+
+    const meta = await fetchLinkMetadata('https://www.imported.example/');
+    expect(meta.title).toBe('Imported');
+    expect(mockRequestUrl).not.toHaveBeenCalled();
+  });
+
+  it('round-trips entries through exportCache', () => {
+    const meta = entry('Round trip');
+    importCache([['https://www.roundtrip.example/', meta]]);
+
+    expect(exportCache()).toContainEqual(['https://www.roundtrip.example/', meta]);
+  });
+
+  it('skips expired and malformed entries on import', () => {
+    importCache([
+      ['https://www.expired.example/', entry('Expired', Date.now() - DEFAULT_TTL - 1)],
+      ['https://www.malformed.example/', { title: 42 }],
+      'not an entry',
+    ]);
+
+    expect(getCachedMetadata('https://www.expired.example/')).toBeUndefined();
+    expect(getCachedMetadata('https://www.malformed.example/')).toBeUndefined();
+  });
+
+  it('ignores a non-array payload', () => {
+    expect(() => importCache({ corrupt: true })).not.toThrow();
+  });
+
+  it('treats entries older than the TTL as missing', () => {
+    importCache([['https://www.ttl.example/', entry('Short lived', Date.now() - 2000)]]);
+    setCacheLimits(1000, 2000);
+
+    expect(getCachedMetadata('https://www.ttl.example/')).toBeUndefined();
+  });
+
+  it('evicts the least recently used entries above the size bound', () => {
+    // A zero bound empties the cache so only the entries below remain
+    setCacheLimits(DEFAULT_TTL, 0);
+    setCacheLimits(DEFAULT_TTL, 3);
+    importCache([
+      ['https://www.lru-a.example/', entry('A')],
+      ['https://www.lru-b.example/', entry('B')],
+      ['https://www.lru-c.example/', entry('C')],
+    ]);
+    // Touch A so that B becomes the least recently used entry
+    getCachedMetadata('https://www.lru-a.example/');
+
+    setCacheLimits(DEFAULT_TTL, 2);
+
+    const urls = exportCache().map(([url]) => url);
+    expect(urls).toEqual(['https://www.lru-c.example/', 'https://www.lru-a.example/']);
+  });
+});
+
+describe('stale-while-revalidate', () => {
+  const HOUR = 60 * 60 * 1000;
+
+  function titledPage(title: string) {
+    return htmlResponse(`<html><head><title>${title}</title></head></html>`);
+  }
+
+  function stale(title: string): LinkMetadata {
+    return {
+      title,
+      favicon: 'https://www.example/favicon.ico',
+      author: '',
+      fetchedAt: Date.now() - 2 * HOUR,
+    };
+  }
+
+  /** Waits for background revalidation promises to settle. */
+  function flush(): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+    clearFailedCache();
+    setCacheLimits(30 * 24 * HOUR, 2000);
+    setRevalidateAfter(HOUR);
+  });
+
+  it('serves a stale entry immediately and refreshes it in the background', async () => {
+    const url = 'https://www.swr-refresh.example/';
+    importCache([[url, stale('Old title')]]);
+    mockRequestUrl.mockResolvedValue(titledPage('New title'));
+
+    const meta = await fetchLinkMetadata(url);
+    expect(meta.title).toBe('Old title');
+
+    await flush();
+    expect(getCachedMetadata(url)!.title).toBe('New title');
+  });
+
+  it('notifies listeners when the title changes', async () => {
+    const url = 'https://www.swr-notify.example/';
+    importCache([[url, stale('Old title')]]);
+    mockRequestUrl.mockResolvedValue(titledPage('New title'));
+    const listener = vi.fn();
+    const stop = onMetadataChange(listener);
+
+    await fetchLinkMetadata(url);
+    await flush();
+    stop();
+
+    expect(listener).toHaveBeenCalledWith(url, expect.objectContaining({ title: 'New title' }));
+  });
+
+  it('does not notify listeners when nothing visible changed', async () => {
+    const url = 'https://www.swr-same.example/';
+    importCache([[url, { ...stale('Same title'), favicon: `${url}favicon.ico` }]]);
+    mockRequestUrl.mockResolvedValue(titledPage('Same title'));
+    const listener = vi.fn();
+    const stop = onMetadataChange(listener);
+
+    await fetchLinkMetadata(url);
+    await flush();
+    stop();
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(getCachedMetadata(url)!.fetchedAt).toBeGreaterThan(Date.now() - HOUR);
+  });
+
+  it('does not revalidate fresh entries', async () => {
+    const url = 'https://www.swr-fresh.example/';
+    importCache([[url, { ...stale('Fresh'), fetchedAt: Date.now() }]]);
+
+    await fetchLinkMetadata(url);
+    await flush();
+
+    expect(mockRequestUrl).not.toHaveBeenCalled();
+  });
+
+  it('keeps the stale entry when revalidation fails', async () => {
+    const url = 'https://www.swr-fail.example/';
+    importCache([[url, stale('Still here')]]);
+    mockRequestUrl.mockRejectedValue(new Error('Network error'));
+
+    await fetchLinkMetadata(url);
+    await flush();
+
+    expect(getCachedMetadata(url)!.title).toBe('Still here');
+    expect(getFailedUntil().has(url)).toBe(true);
+  });
+
+  it('revalidates fresh entries marked stale only once they are shown', async () => {
+    const shown = 'https://www.swr-marked.example/';
+    const hidden = 'https://www.swr-marked-hidden.example/';
+    importCache([
+      [shown, { ...stale('Old title'), fetchedAt: Date.now() }],
+      [hidden, { ...stale('Untouched'), fetchedAt: Date.now() }],
+    ]);
+    mockRequestUrl.mockResolvedValue(titledPage('New title'));
+
+    markCacheStale();
+    await flush();
+    expect(mockRequestUrl).not.toHaveBeenCalled();
+
+    expect((await fetchLinkMetadata(shown)).title).toBe('Old title');
+    await flush();
+    expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+    expect(getCachedMetadata(shown)!.title).toBe('New title');
+    expect(getCachedMetadata(shown)!.stale).toBeUndefined();
+    expect(getCachedMetadata(hidden)).toMatchObject({ title: 'Untouched', stale: true });
+  });
+});
+
+describe('hasVisibleChange', () => {
+  const base: LinkMetadata = { title: 'T', favicon: 'f', author: 'a', fetchedAt: 1 };
+
+  it('ignores fetchedAt', () => {
+    expect(hasVisibleChange(base, { ...base, fetchedAt: 2 })).toBe(false);
+  });
+
+  it('detects title, author and favicon changes', () => {
+    expect(hasVisibleChange(base, { ...base, title: 'U' })).toBe(true);
+    expect(hasVisibleChange(base, { ...base, author: 'b' })).toBe(true);
+    expect(hasVisibleChange(base, { ...base, favicon: 'g' })).toBe(true);
+  });
+});
+
+describe('refreshLinkMetadata', () => {
+  function titledPage(title: string) {
+    return htmlResponse(`<html><head><title>${title}</title></head></html>`);
+  }
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+    clearFailedCache();
+  });
+
+  it('re-fetches a fresh cached entry and notifies listeners of the change', async () => {
+    const url = 'https://www.refresh-fresh.example/';
+    mockRequestUrl.mockResolvedValue(titledPage('Before'));
+    await fetchLinkMetadata(url);
+
+    mockRequestUrl.mockResolvedValue(titledPage('After'));
+    const listener = vi.fn();
+    const stop = onMetadataChange(listener);
+    const meta = await refreshLinkMetadata(url);
+    stop();
+
+    expect(meta.title).toBe('After');
+    expect(getCachedMetadata(url)!.title).toBe('After');
+    expect(listener).toHaveBeenCalledWith(url, expect.objectContaining({ title: 'After' }));
+  });
+
+  it('bypasses the negative fetch cache', async () => {
+    const url = 'https://www.refresh-failed.example/';
+    mockRequestUrl.mockRejectedValueOnce(new Error('Network error'));
+    await fetchLinkMetadata(url);
+    expect(getFailedUntil().has(url)).toBe(true);
+
+    mockRequestUrl.mockResolvedValue(titledPage('Back online'));
+    const meta = await refreshLinkMetadata(url);
+
+    expect(meta.title).toBe('Back online');
+  });
+
+  it('keeps the previous entry when the refresh fails', async () => {
+    const url = 'https://www.refresh-keep.example/';
+    mockRequestUrl.mockResolvedValue(titledPage('Kept'));
+    await fetchLinkMetadata(url);
+
+    mockRequestUrl.mockRejectedValue(new Error('Network error'));
+    const meta = await refreshLinkMetadata(url);
+
+    expect(meta.title).toBe('Kept');
+    expect(getCachedMetadata(url)!.title).toBe('Kept');
+  });
+
+  it('re-fetches only the cached entries that match', async () => {
+    mockRequestUrl.mockResolvedValue(titledPage('Before'));
+    await fetchLinkMetadata('https://tracker.refresh-where.example/browse/A-1');
+    await fetchLinkMetadata('https://other.refresh-where.example/');
+
+    mockRequestUrl.mockResolvedValue(titledPage('After'));
+    await refreshCachedWhere((url) => url.hostname === 'tracker.refresh-where.example');
+
+    expect(getCachedMetadata('https://tracker.refresh-where.example/browse/A-1')!.title).toBe(
+      'After',
+    );
+    expect(getCachedMetadata('https://other.refresh-where.example/')!.title).toBe('Before');
+  });
+});
+
+describe('clearCache', () => {
+  it('removes cached and failed entries', () => {
+    importCache([
+      [
+        'https://www.clear.example/',
+        { title: 'Gone', favicon: '', author: '', fetchedAt: Date.now() },
+      ],
+    ]);
+    getFailedUntil().set('https://www.clear-failed.example/', Date.now() + 60_000);
+
+    clearCache();
+
+    expect(getCachedMetadata('https://www.clear.example/')).toBeUndefined();
+    expect(exportCache()).toEqual([]);
+    expect(getFailedUntil().size).toBe(0);
+  });
+});
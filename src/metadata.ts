@@ -1,12 +1,59 @@
-import { requestUrl } from 'obsidian';
+import { requestUrl, RequestUrlResponse } from 'obsidian';
+import type { CslItem } from './csl';
+import { acceptLanguageHeader, pickAlternate } from './language';
 import {
   extractAuthor,
+  extractCanonicalUrl,
+  extractClientRedirectUrl,
   extractDocTitle,
   extractFaviconUrl,
-  extractGithubTitle,
+  extractHreflangAlternates,
+  extractMetaDescription,
+  extractOgDescription,
+  extractOgImage,
+  extractOgSiteName,
   extractOgTitle,
+  extractOgType,
+  extractPageLanguage,
+  extractPublishedTime,
+  extractTwitterDescription,
+  extractTwitterImage,
+  extractTwitterTitle,
 } from './parsers/html';
-import { extractRedditTitle, extractUrlTitle } from './parsers/url';
+import { decodeHtml } from './parsers/charset';
+import { extractJsonLd } from './parsers/json-ld';
+import {
+  extractRedirectTarget,
+  extractUrlTitle,
+  isShortenerUrl,
+  normalizeUrl,
+} from './parsers/url';
+import { oembedDiscoveryProvider } from './providers/oembed';
+import { findProviders } from './providers/registry';
+import { LinkProvider, ProviderResult } from './providers/types';
+import { headersFor } from './request';
+import { isErrorStatus, isJunkTitle } from './title-quality';
+import { rewriteTitle } from './title-rules';
+
+/** State of an issue, pull request or similar item, shown as an icon before the pill title. */
+export interface LinkStatus {
+  /** Machine-readable state, used as a CSS modifier (`link-mention-status-<state>`), e.g. `open` or `merged`. */
+  state: string;
+  /** Lucide icon name, e.g. `git-pull-request`. */
+  icon: string;
+  /** Human-readable state shown as a tooltip and in the hover card, e.g. "Merged". */
+  label: string;
+}
+
+/** A count shown after the pill title and in the hover card, e.g. a post's score or comments. */
+export interface LinkStat {
+  /** Lucide icon name, e.g. `message-square`. */
+  icon: string;
+  /** The count as shown on the pill, e.g. `1.2k`. */
+  value: string;
+  /** Human-readable count shown as a tooltip and in the hover card, e.g. "1234 points". */
+  label: string;
+}
 
 /** Resolved metadata for an external link, used to render mention pills. */
 export interface LinkMetadata {
@@ -14,16 +61,73 @@ export interface LinkMetadata {
   title: string;
   /** Favicon URL, or empty string if unavailable. */
   favicon: string;
-  /** Author or site name (`meta[name="author"]` or `og:site_name`), or empty string. */
+  /** Author (`meta[name="author"]`), or empty string. */
   author: string;
+  /** Where the pill's secondary text ({@link author}) links to, e.g. the page a discussion is about. */
+  authorUrl?: string;
+  /** Page summary (`og:description` → `twitter:description` → `meta[name="description"]`). */
+  description?: string;
+  /** Preview image URL (`og:image` → `twitter:image`). */
+  image?: string;
+  /** Site name (`og:site_name`). */
+  siteName?: string;
+  /** OpenGraph object type (`og:type`), e.g. `article` or `video.other`. */
+  type?: string;
+  /** Publication date as given by `article:published_time` (normally ISO 8601). */
+  publishedTime?: string;
+  /** Citation data (CSL-JSON) for papers resolved through DOI, arXiv or PubMed. */
+  csl?: CslItem;
+  /** Item state reported by a site provider, e.g. for GitHub issues and pull requests. */
+  status?: LinkStatus;
+  /** Counts reported by a site provider, e.g. score and comments of a Reddit post. */
+  stats?: LinkStat[];
+  /** Topic tags reported by a site provider, e.g. of a Stack Overflow question. */
+  tags?: string[];
+  /**
+   * Where the link actually leads, when that differs from the link
+   * itself: the destination of a shortener or redirector, or the page's
+   * canonical URL. Favicon and title come from this page.
+   */
+  finalUrl?: string;
+  /**
+   * Set when the page was a bot wall, consent or login screen, or an
+   * error page, or when a provider's API was unavailable, so the title is
+   * a fallback. Such entries expire after {@link BLOCKED_TTL} to be
+   * retried soon.
+   */
+  blocked?: boolean;
+  /** Title as extracted, when the user's title rules (see `title-rules.ts`) changed it. */
+  extractedTitle?: string;
+  /** Epoch milliseconds when the metadata was fetched. Missing for fallback results. */
+  fetchedAt?: number;
+  /**
+   * Set by {@link markCacheStale} when a setting that affects fetching
+   * changed, so the entry is revalidated the next time it is shown,
+   * whatever its age.
+   */
+  stale?: boolean;
 }
 
+/** A serialized cache entry: normalized URL and its metadata. */
+export type CacheEntry = [string, LinkMetadata];
+
+/**
+ * Successful fetch results keyed by normalized URL. Map iteration order
+ * doubles as LRU order: entries are re-inserted on every hit, so the
+ * first key is always the least recently used one.
+ */
 const cache = new Map<string, LinkMetadata>();
 const inflight = new Map<string, Promise<LinkMetadata>>();
 
 /** URLs that failed recently, mapped to the timestamp when the failure expires. */
 const failedUntil = new Map<string, number>();
 
+/** How long a failed URL is left alone before it is fetched again, in milliseconds. */
+const FAILURE_BACKOFF = 60_000;
+
+/** Pending re-fetches of URLs that may already be cached (revalidation or manual refresh). */
+const refreshing = new Map<string, Promise<LinkMetadata>>();
+
 /** Clears the negative fetch cache. Exported for testing. */
 export function clearFailedCache(): void {
   failedUntil.clear();
@@ -34,8 +138,176 @@ export function getFailedUntil(): Map<string, number> {
   return failedUntil;
 }
 
+/** How long a cached entry stays valid, in milliseconds. `0` disables expiry. */
+let cacheTtl = 30 * 24 * 60 * 60 * 1000;
+/** Maximum number of cached entries before the least recently used ones are evicted. */
+let maxCacheEntries = 2000;
+
+/** How long an entry for a blocked or failing page stays valid, in milliseconds. Applies even when expiry is disabled. */
+const BLOCKED_TTL = 60 * 60 * 1000;
+
+/** Age after which a cached entry is served but re-fetched in the background, in milliseconds. */
+let revalidateAfter = 24 * 60 * 60 * 1000;
+
+const cacheListeners = new Set<() => void>();
+
+/** Called with the normalized URL and its new metadata when a re-fetch changes how it renders. */
+export type MetadataListener = (url: string, meta: LinkMetadata) => void;
+
+const metadataListeners = new Set<MetadataListener>();
+
+/**
+ * Updates the cache TTL and size bound at runtime, evicting entries
+ * that no longer fit.
+ */
+export function setCacheLimits(ttlMs: number, maxEntries: number): void {
+  cacheTtl = ttlMs;
+  maxCacheEntries = maxEntries;
+  if (evictOverflow()) {
+    notifyCacheChange();
+  }
+}
+
+/**
+ * Registers a listener called whenever the cache contents or their
+ * recency order change, so the plugin can persist them. Returns a function that removes the listener.
+ */
+export function onCacheChange(listener: () => void): () => void {
+  cacheListeners.add(listener);
+  return () => cacheListeners.delete(listener);
+}
+
+/** Updates the age after which cached entries are revalidated in the background. */
+export function setRevalidateAfter(ms: number): void {
+  revalidateAfter = ms;
+}
+
+/**
+ * Registers a listener called when a background revalidation or manual
+ * refresh changes the title, author, favicon or status of a URL, so rendered
+ * pills can be redrawn. Returns a function that removes the listener.
+ */
+export function onMetadataChange(listener: MetadataListener): () => void {
+  metadataListeners.add(listener);
+  return () => metadataListeners.delete(listener);
+}
+
+function notifyMetadataChange(url: string, meta: LinkMetadata): void {
+  for (const listener of metadataListeners) {
+    listener(url, meta);
+  }
+}
+
+/** Returns `true` if two metadata results would render differently as pills. */
+export function hasVisibleChange(a: LinkMetadata, b: LinkMetadata): boolean {
+  return (
+    a.title !== b.title ||
+    a.author !== b.author ||
+    a.authorUrl !== b.authorUrl ||
+    a.favicon !== b.favicon ||
+    a.status?.state !== b.status?.state ||
+    a.status?.icon !== b.status?.icon ||
+    statsText(a) !== statsText(b) ||
+    a.finalUrl !== b.finalUrl
+  );
+}
+
+function statsText(meta: LinkMetadata): string {
+  return (meta.stats ?? []).map(({ icon, value }) => `${icon}:${value}`).join(' ');
+}
+
+/**
+ * Shows a link's own title from the markdown source, `[](url "Title")`,
+ * instead of the fetched one. Favicon, author and status are kept.
+ */
+export function withTitleOverride(meta: LinkMetadata, title: string | undefined): LinkMetadata {
+  return title ? { ...meta, title } : meta;
+}
+
+function notifyCacheChange(): void {
+  for (const listener of cacheListeners) {
+    listener();
+  }
+}
+
+function isExpired(meta: LinkMetadata, now = Date.now()): boolean {
+  const ttl = meta.blocked ? Math.min(cacheTtl || BLOCKED_TTL, BLOCKED_TTL) : cacheTtl;
+  return ttl > 0 && (meta.fetchedAt ?? 0) + ttl <= now;
+}
+
+/** Drops least recently used entries above the size bound. Returns `true` if any were dropped. */
+function evictOverflow(): boolean {
+  let evicted = false;
+  while (cache.size > maxCacheEntries) {
+    const oldest = cache.keys().next().value;
+    if (oldest === undefined) {
+      break;
+    }
+    cache.delete(oldest);
+    evicted = true;
+  }
+  return evicted;
+}
+
+function storeInCache(url: string, meta: LinkMetadata): void {
+  cache.delete(url);
+  cache.set(url, meta);
+  evictOverflow();
+  notifyCacheChange();
+}
+
+/**
+ * Returns the cache contents in LRU order (least recently used first),
+ * skipping expired entries. Used to persist the cache to disk.
+ */
+export function exportCache(): CacheEntry[] {
+  const now = Date.now();
+  return Array.from(cache.entries()).filter(([, meta]) => !isExpired(meta, now));
+}
+
+/**
+ * Restores entries previously returned by {@link exportCache}. Malformed
+ * and expired entries are skipped, and only the most recent entries up to
+ * the size bound are kept. Entries already in memory take precedence.
+ */
+export function importCache(entries: unknown): void {
+  if (!Array.isArray(entries)) {
+    return;
+  }
+  const now = Date.now();
+  const restored = new Map<string, LinkMetadata>();
+  for (const entry of entries) {
+    if (!Array.isArray(entry) || typeof entry[0] !== 'string') {
+      continue;
+    }
+    const meta = entry[1] as LinkMetadata | null;
+    if (
+      !meta ||
+      typeof meta.title !== 'string' ||
+      typeof meta.favicon !== 'string' ||
+      typeof meta.author !== 'string' ||
+      typeof meta.fetchedAt !== 'number' ||
+      isExpired(meta, now)
+    ) {
+      continue;
+    }
+    restored.set(entry[0], meta);
+  }
+  for (const [url, meta] of cache) {
+    restored.delete(url);
+    restored.set(url, meta);
+  }
+  cache.clear();
+  for (const [url, meta] of restored) {
+    cache.set(url, meta);
+  }
+  evictOverflow();
+}
+
 /** Maximum bytes of HTML to parse to prevent fetching the whole page. Only the `<head>` matters. */
 const MAX_HTML_BYTES = 51200;
+/** Shorteners and redirectors followed per link. Guards against redirect loops between pages. */
+const MAX_REDIRECT_HOPS = 3;
 
 /** Maximum concurrent `doFetch` calls to avoid overwhelming the network. */
 let maxConcurrent = 4;
@@ -66,20 +338,6 @@ function releaseSlot(): void {
   }
 }
 
-/**
- * Normalizes a URL for consistent caching and fetching.
- * Adds `www.` to bare two-segment domains (e.g. `example.com` → `www.example.com`).
- *
- * @internal exported for testing
- */
-export function normalizeUrl(raw: string): string {
-  try {
-    return new URL(raw).href;
-  } catch {
-    return raw;
-  }
-}
-
 /**
  * Converts an `ArrayBuffer` to a base-64 encoded string.
  * Used to inline fetched images as `data:` URIs.
@@ -103,26 +361,45 @@ export function arrayBufferToBase64(buffer: ArrayBuffer): string {
  * @internal exported for testing
  */
 export function getContentType(headers: Record<string, string>): string {
+  return getHeader(headers, 'content-type')?.split(';')[0].trim() ?? 'image/png';
+}
+
+/** Looks up a response header by its lowercase name. */
+function getHeader(headers: Record<string, string>, name: string): string | undefined {
   // Header keys may vary in casing across environments
-  for (const key of Object.keys(headers)) {
-    if (key.toLowerCase() === 'content-type') {
-      return headers[key].split(';')[0].trim();
-    }
+  const key = Object.keys(headers).find((key) => key.toLowerCase() === name);
+  return key === undefined ? undefined : headers[key];
+}
+
+/**
+ * Returns the start of a fetched page as text, decoded with the charset
+ * from its headers or markup (see {@link decodeHtml}). `response.text`
+ * is always decoded as UTF-8, so it is only used when the raw bytes are
+ * unavailable.
+ */
+function readHtml(response: RequestUrlResponse): string {
+  const buffer = response.arrayBuffer;
+  if (!buffer || buffer.byteLength === 0) {
+    return response.text.slice(0, MAX_HTML_BYTES);
   }
-  return 'image/png';
+  return decodeHtml(buffer.slice(0, MAX_HTML_BYTES), getHeader(response.headers, 'content-type'));
 }
 
 /**
- * Resolves a favicon URL from the page's `<link>` elements.
+ * Resolves a favicon URL from the page's `<link>` elements, falling back
+ * to `/favicon.ico`. Without a page URL only absolute links are used.
  * Returns empty string if no favicon is found.
  */
-function fetchFavicon(pageUrl: string, doc: Document | null): string {
+function fetchFavicon(pageUrl: string | undefined, doc: Document | null): string {
   if (doc) {
     const fromHtml = extractFaviconUrl(doc, pageUrl);
     if (fromHtml) {
       return fromHtml;
     }
   }
+  if (!pageUrl) {
+    return '';
+  }
   try {
     return new URL('/favicon.ico', pageUrl).href;
   } catch {
@@ -130,140 +407,401 @@ function fetchFavicon(pageUrl: string, doc: Document | null): string {
   }
 }
 
-/** oEmbed endpoints for sites whose HTML is too heavy or JS-rendered. */
-const OEMBED_ENDPOINTS: { pattern: RegExp; endpoint: string }[] = [
-  {
-    pattern: /^https?:\/\/(www\.)?youtube\.com\/watch/,
-    endpoint: 'https://www.youtube.com/oembed?format=json&url=',
-  },
-  {
-    pattern: /^https?:\/\/youtu\.be\//,
-    endpoint: 'https://www.youtube.com/oembed?format=json&url=',
-  },
-  {
-    pattern: /^https?:\/\/(www\.)?vimeo\.com\/\d+/,
-    endpoint: 'https://vimeo.com/api/oembed.json?url=',
-  },
-];
+/** Runs a provider hook, treating exceptions as "no result" so a faulty provider can't break fetching. */
+async function runHook<T>(hook: () => T | Promise<T>): Promise<T | undefined> {
+  try {
+    return await hook();
+  } catch {
+    return undefined;
+  }
+}
 
-/**
- * Attempts to fetch a title via oEmbed for supported sites.
- * Returns the title string or `undefined` if the URL isn't oEmbed-eligible
- * or the request fails.
- *
- * @internal exported for testing
- */
-export async function fetchOembed(
-  url: string,
-): Promise<{ title: string; author: string } | undefined> {
-  for (const { pattern, endpoint } of OEMBED_ENDPOINTS) {
-    if (pattern.test(url)) {
-      try {
-        const response = await requestUrl({
-          url: `${endpoint}${encodeURIComponent(url)}`,
-          method: 'GET',
-        });
-        const title = response.json?.title?.trim();
-        if (!title) {
-          return undefined;
-        }
-        const author = response.json?.author_name?.trim() ?? '';
-        return { title, author };
-      } catch {
-        return undefined;
-      }
+/** Overlays a provider result on {@link meta}, skipping empty fields. */
+function applyResult(meta: LinkMetadata, result: ProviderResult | undefined): LinkMetadata {
+  if (!result) {
+    return meta;
+  }
+  const fields = Object.entries(result).filter(([, value]) => value !== undefined && value !== '');
+  return { ...meta, ...Object.fromEntries(fields) };
+}
+
+/** Runs the `postProcess` hook of each provider in turn. */
+async function postProcess(
+  providers: LinkProvider[],
+  page: URL,
+  meta: LinkMetadata,
+): Promise<LinkMetadata> {
+  let result = meta;
+  for (const provider of providers) {
+    if (provider.postProcess) {
+      const current = result;
+      result = (await runHook(() => provider.postProcess?.(current, page))) ?? current;
     }
   }
-  return undefined;
+  return result;
 }
 
 /**
- * Fetches a URL's HTML, parses its title, author, and favicon, and returns
- * a {@link LinkMetadata} object. For supported sites (YouTube, Vimeo),
- * uses oEmbed for reliable title extraction. Otherwise falls back to:
- * `<title>` (split) → `og:title` → hostname.
+ * Returns the page's canonical URL if it differs from the link. Only a
+ * canonical URL on the link's own site is trusted, unless the link is a
+ * shortener whose destination is unknown anyway — otherwise any page
+ * could claim to be a different, more trustworthy one.
  */
-async function doFetch(url: string): Promise<LinkMetadata> {
-  let doc: Document | null = null;
-
-  // Try oEmbed first for supported sites (avoids downloading heavy HTML)
-  const oembed = await fetchOembed(url);
-  if (oembed) {
-    const favicon = fetchFavicon(url, null);
-    return { title: oembed.title, favicon, author: oembed.author };
+function resolveFinalUrl(page: URL, doc: Document): string | undefined {
+  const canonical = extractCanonicalUrl(doc, page.href);
+  if (!canonical || normalizeUrl(canonical) === page.href) {
+    return undefined;
   }
+  if (!isShortenerUrl(page) && !isSameSite(canonical, page)) {
+    return undefined;
+  }
+  return canonical;
+}
+
+/** Whether `url` is on the same host as `page`, ignoring a `www.` prefix. */
+function isSameSite(url: string, page: URL): boolean {
+  const site = (host: string) => host.replace(/^www\./, '');
+  return site(new URL(url).hostname) === site(page.hostname);
+}
 
+/** A fetched and parsed HTML page. */
+interface FetchedPage {
+  doc: Document;
+  status: number;
+}
+
+/**
+ * Fetches the start of an HTML page with the configured headers and
+ * parses it. Returns `null` for other content types.
+ */
+async function fetchDocument(url: string): Promise<FetchedPage | null> {
+  const acceptLanguage = acceptLanguageHeader();
   const response = await requestUrl({
     url,
     method: 'GET',
-    headers: { Range: `bytes=0-${MAX_HTML_BYTES}` },
+    headers: {
+      ...(acceptLanguage ? { 'Accept-Language': acceptLanguage } : {}),
+      ...headersFor(url),
+      Range: `bytes=0-${MAX_HTML_BYTES}`,
+    },
     throw: false,
   });
+  if (!getContentType(response.headers).startsWith('text/html')) {
+    return null;
+  }
+  const doc = new DOMParser().parseFromString(readHtml(response), 'text/html');
+  return { doc, status: response.status };
+}
 
-  const ct = getContentType(response.headers);
+/** Returns {@link title} unless it is the title of a bot wall, consent or error page. */
+function usableTitle(title: string | undefined): string | undefined {
+  return title && !isJunkTitle(title) ? title : undefined;
+}
+
+/** Fetches a redirect's destination in place of the link, recording where it went. */
+async function followRedirect(target: string, hops: number): Promise<LinkMetadata> {
+  const meta = await doFetch(normalizeUrl(target), hops + 1);
+  return { ...meta, finalUrl: meta.finalUrl ?? target };
+}
 
-  if (!ct.startsWith('text/html')) {
+/**
+ * Resolves {@link LinkMetadata} for a URL. Matching site providers (see
+ * `providers/registry.ts`) are asked first, from the URL alone or a JSON
+ * API; otherwise the page's HTML is fetched and parsed for title, author,
+ * favicon and OpenGraph / Twitter Card fields. Fields from a provider's
+ * `fromHtml` hook take precedence; the generic title falls back through
+ * JSON-LD headline → `<title>` (split) → `og:title` → `twitter:title` →
+ * hostname. Redirectors, shorteners and client-side redirects are
+ * followed up to {@link MAX_REDIRECT_HOPS} times, and the destination is
+ * recorded as `finalUrl`. Pages that advertise a translation in one of
+ * the preferred languages (`hreflang`) are read from that translation.
+ *
+ * Bot walls, consent screens and error pages (see `title-quality.ts`)
+ * are marked `blocked`: titles they show are skipped, and on error
+ * statuses only `og:title` / `twitter:title` are trusted.
+ */
+async function doFetch(url: string, hops = 0): Promise<LinkMetadata> {
+  const page = new URL(url);
+  const canFollow = hops < MAX_REDIRECT_HOPS;
+
+  const redirectTarget = canFollow ? extractRedirectTarget(page) : undefined;
+  if (redirectTarget) {
+    return followRedirect(redirectTarget, hops);
+  }
+
+  const providers = findProviders(page);
+
+  for (const provider of providers) {
+    const result =
+      (await runHook(() => provider.fromUrl?.(page))) ??
+      (await runHook(() => provider.fromApi?.(page)));
+    if (result?.title) {
+      const fallback = { title: result.title, favicon: fetchFavicon(url, null), author: '' };
+      return postProcess(providers, page, applyResult(fallback, result));
+    }
+  }
+
+  const fetched = await fetchDocument(url);
+
+  if (!fetched) {
     const title = extractUrlTitle(url);
     const favicon = fetchFavicon(url, null);
-    return { title, favicon, author: '' };
+    return postProcess(providers, page, { title, favicon, author: '' });
+  }
+  let { doc } = fetched;
+  let errorPage = isErrorStatus(fetched.status);
+
+  const clientRedirect = canFollow ? extractClientRedirectUrl(doc, url) : undefined;
+  if (clientRedirect && clientRedirect !== url) {
+    return followRedirect(clientRedirect, hops);
+  }
+  const finalUrl = resolveFinalUrl(page, doc);
+  if (finalUrl && canFollow && isShortenerUrl(page)) {
+    // The shortener's redirect was followed silently; fetch the destination
+    // itself so its site providers apply
+    return followRedirect(finalUrl, hops);
+  }
+  let base = finalUrl ?? url;
+
+  // Titles are read from a translation in a preferred language if the
+  // page advertises one on its own site; the pill still links to the original
+  const alternate = pickAlternate(
+    base,
+    extractPageLanguage(doc),
+    extractHreflangAlternates(doc, base).filter(({ href }) => isSameSite(href, new URL(base))),
+  );
+  const translated = alternate ? await fetchDocument(alternate).catch(() => null) : null;
+  if (alternate && translated && !isErrorStatus(translated.status)) {
+    doc = translated.doc;
+    base = alternate;
+    errorPage = false;
+  }
+  // When a shortener's destination names no canonical URL, its address is
+  // unknown, and relative links would resolve against the shortener
+  const linkBase = base === url && !finalUrl && isShortenerUrl(page) ? undefined : base;
+
+  // An error page describes the error, so site extractors would read the
+  // error; an advertised oEmbed endpoint still answers for the page itself
+  const htmlProviders = errorPage
+    ? providers.filter(({ id }) => id === oembedDiscoveryProvider.id)
+    : providers;
+  let specific: ProviderResult | undefined;
+  for (const provider of htmlProviders) {
+    const result = await runHook(() => provider.fromHtml?.(doc, page));
+    if (usableTitle(result?.title)) {
+      specific = result;
+      break;
+    }
   }
 
-  const html = response.text.slice(0, MAX_HTML_BYTES);
-  doc = new DOMParser().parseFromString(html, 'text/html');
+  // Structured data carries the real headline on sites whose <title> is SEO noise
+  const jsonLd = errorPage ? undefined : extractJsonLd(doc, linkBase);
+  const docTitle = errorPage ? undefined : extractDocTitle(doc);
+
+  const title =
+    usableTitle(jsonLd?.title) ??
+    usableTitle(docTitle) ??
+    usableTitle(extractOgTitle(doc)) ??
+    usableTitle(extractTwitterTitle(doc)) ??
+    extractUrlTitle(base);
+  const blocked = errorPage || isJunkTitle(docTitle ?? '') || isJunkTitle(jsonLd?.title ?? '');
+
+  const generic: LinkMetadata = {
+    title,
+    favicon: fetchFavicon(linkBase, doc),
+    author: jsonLd?.author || extractAuthor(doc) || '',
+    description:
+      extractOgDescription(doc) ??
+      extractTwitterDescription(doc) ??
+      jsonLd?.description ??
+      extractMetaDescription(doc),
+    image: extractOgImage(doc, linkBase) ?? extractTwitterImage(doc, linkBase) ?? jsonLd?.image,
+    siteName: extractOgSiteName(doc),
+    type: extractOgType(doc),
+    publishedTime: jsonLd?.publishedTime ?? extractPublishedTime(doc),
+    finalUrl,
+    blocked: blocked || undefined,
+  };
+
+  return postProcess(providers, page, applyResult(generic, specific));
+}
 
-  let title: string | undefined;
+/**
+ * Rewrites the extracted title with the user's title rules, keeping the
+ * extracted one for the settings preview and for later rule changes.
+ */
+function applyTitleRules(url: string, meta: LinkMetadata): LinkMetadata {
+  const { extractedTitle = meta.title, ...rest } = meta;
+  const title = rewriteTitle(meta.finalUrl ?? url, extractedTitle);
+  return title === extractedTitle ? { ...rest, title } : { ...rest, title, extractedTitle };
+}
 
-  try {
-    const hostname = new URL(url).hostname;
-    if (hostname === 'github.com' || hostname === 'www.github.com') {
-      title = extractGithubTitle(doc);
-    }
-    if (
-      hostname === 'reddit.com' ||
-      hostname === 'www.reddit.com' ||
-      hostname === 'old.reddit.com'
-    ) {
-      const reddit = extractRedditTitle(url);
-      if (reddit) {
-        const favicon = fetchFavicon(url, doc);
-        return { title: reddit.title, favicon, author: reddit.author };
+/**
+ * Returns previously fetched metadata from the cache, or `undefined` if
+ * the URL hasn't been fetched yet or its entry has expired.
+ * The URL is normalized before lookup, and a hit marks the entry as
+ * recently used. The new order is reported to {@link onCacheChange}
+ * listeners, so eviction after a restart still drops the least recently
+ * used links.
+ */
+export function getCachedMetadata(url: string): LinkMetadata | undefined {
+  const normalized = normalizeUrl(url);
+  const meta = cache.get(normalized);
+  if (!meta) {
+    return undefined;
+  }
+  if (isExpired(meta)) {
+    cache.delete(normalized);
+    notifyCacheChange();
+    return undefined;
+  }
+  cache.delete(normalized);
+  cache.set(normalized, meta);
+  notifyCacheChange();
+  return meta;
+}
+
+/**
+ * Fetches a URL regardless of its cache state, stores the result and
+ * notifies {@link onMetadataChange} listeners if it renders differently
+ * from the previous entry (or there was none). Concurrent calls for the
+ * same URL share one request. Rejects if the fetch fails.
+ */
+function refetch(normalized: string): Promise<LinkMetadata> {
+  let pending = refreshing.get(normalized);
+  if (pending) {
+    return pending;
+  }
+
+  const previous = cache.get(normalized);
+  pending = acquireSlot()
+    .then(() => doFetch(normalized))
+    .finally(releaseSlot)
+    .then((result) => {
+      const meta: LinkMetadata = { ...applyTitleRules(normalized, result), fetchedAt: Date.now() };
+      storeInCache(normalized, meta);
+      if (!previous || hasVisibleChange(previous, meta)) {
+        notifyMetadataChange(normalized, meta);
       }
-    }
-  } catch {
-    /* ignore parse errors, fall through to generic */
+      return meta;
+    })
+    .catch((err) => {
+      failedUntil.set(normalized, Date.now() + FAILURE_BACKOFF);
+      throw err;
+    })
+    .finally(() => refreshing.delete(normalized));
+  refreshing.set(normalized, pending);
+  return pending;
+}
+
+/**
+ * Re-fetches a cached URL in the background if its entry is older than
+ * the revalidation age or was marked stale. The cached entry keeps being served meanwhile;
+ * listeners registered with {@link onMetadataChange} are notified only
+ * if the new result renders differently. Failures keep the stale entry.
+ */
+export function revalidateIfStale(url: string): void {
+  const normalized = normalizeUrl(url);
+  const cached = cache.get(normalized);
+  if (!cached || (!cached.stale && Date.now() - (cached.fetchedAt ?? 0) < revalidateAfter)) {
+    return;
+  }
+  if (inflight.has(normalized) || refreshing.has(normalized)) {
+    return;
+  }
+  const failUntil = failedUntil.get(normalized);
+  if (failUntil && Date.now() < failUntil) {
+    return;
   }
 
-  title ??= extractDocTitle(doc) ?? extractOgTitle(doc);
+  refetch(normalized).catch(() => undefined);
+}
 
-  if (!title) {
-    title = extractUrlTitle(url);
+/**
+ * Forces a re-fetch of a URL, ignoring both the cache and the negative
+ * fetch cache. Rendered pills are redrawn through {@link onMetadataChange}.
+ * On failure the previous entry is kept and returned, or a URL-derived
+ * fallback if there was none.
+ */
+export async function refreshLinkMetadata(url: string): Promise<LinkMetadata> {
+  const normalized = normalizeUrl(url);
+  failedUntil.delete(normalized);
+  try {
+    return await refetch(normalized);
+  } catch {
+    const title = extractUrlTitle(normalized);
+    return cache.get(normalized) ?? { title, favicon: '', author: '' };
   }
+}
 
-  const author = extractAuthor(doc);
-  const favicon = fetchFavicon(url, doc);
+/**
+ * Re-fetches every cached URL that {@link matches}, e.g. the links of a
+ * provider whose settings changed. Rendered pills are redrawn through
+ * {@link onMetadataChange}; failures keep the previous entries.
+ */
+export async function refreshCachedWhere(matches: (url: URL) => boolean): Promise<void> {
+  const urls = Array.from(cache.keys()).filter((url) => {
+    try {
+      return matches(new URL(url));
+    } catch {
+      return false;
+    }
+  });
+  await Promise.all(urls.map((url) => refreshLinkMetadata(url)));
+}
 
-  return { title, favicon, author: author ?? '' };
+/**
+ * Marks every cached entry stale after a setting that affects all pages
+ * changed, e.g. the preferred languages. Entries keep being served and
+ * are re-fetched one by one as their links are shown, rather than all at
+ * once.
+ */
+export function markCacheStale(): void {
+  for (const [url, meta] of cache) {
+    cache.set(url, { ...meta, stale: true });
+  }
+  notifyCacheChange();
 }
 
 /**
- * Returns previously fetched metadata from the in-memory cache,
- * or `undefined` if the URL hasn't been fetched yet.
- * The URL is normalized before lookup.
+ * Re-applies the title rules to every cached entry after they changed,
+ * starting from the extracted titles. Rendered pills whose title changes
+ * are redrawn through {@link onMetadataChange}.
  */
-export function getCachedMetadata(url: string): LinkMetadata | undefined {
-  return cache.get(normalizeUrl(url));
+export function reapplyTitleRules(): void {
+  let changed = false;
+  for (const [url, meta] of cache) {
+    const updated = applyTitleRules(url, meta);
+    if (updated.title !== meta.title) {
+      cache.set(url, updated);
+      notifyMetadataChange(url, updated);
+      changed = true;
+    }
+  }
+  if (changed) {
+    notifyCacheChange();
+  }
+}
+
+/** Removes every cached and failed entry. Rendered pills keep their content until redrawn. */
+export function clearCache(): void {
+  cache.clear();
+  failedUntil.clear();
+  notifyCacheChange();
 }
 
 /**
  * Fetches and caches metadata (title + favicon) for an external URL.
  * Normalizes the URL, deduplicates concurrent requests to the same
- * URL, and caches the result for subsequent calls.
+ * URL, and caches the result for subsequent calls. Stale cached
+ * entries are returned immediately and revalidated in the background.
  */
 export async function fetchLinkMetadata(url: string): Promise<LinkMetadata> {
   const normalized = normalizeUrl(url);
 
-  const cached = cache.get(normalized);
+  const cached = getCachedMetadata(normalized);
   if (cached) {
+    revalidateIfStale(normalized);
     return cached;
   }
 
@@ -278,17 +816,26 @@ export async function fetchLinkMetadata(url: string): Promise<LinkMetadata> {
     return pending;
   }
 
+  const refreshingPending = refreshing.get(normalized);
+  if (refreshingPending) {
+    return refreshingPending.catch(() => {
+      const title = extractUrlTitle(normalized);
+      return { title, favicon: '', author: '' };
+    });
+  }
+
   pending = acquireSlot()
     .then(() => doFetch(normalized))
     .finally(releaseSlot)
-    .then((meta) => {
-      cache.set(normalized, meta);
+    .then((result) => {
+      const meta: LinkMetadata = { ...applyTitleRules(normalized, result), fetchedAt: Date.now() };
+      storeInCache(normalized, meta);
       inflight.delete(normalized);
       return meta;
     })
     .catch(() => {
       inflight.delete(normalized);
-      failedUntil.set(normalized, Date.now() + 60_000);
+      failedUntil.set(normalized, Date.now() + FAILURE_BACKOFF);
       const title = extractUrlTitle(normalized);
       return { title, favicon: '', author: '' } as LinkMetadata;
     });
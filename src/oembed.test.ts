@@ -0,0 +1,56 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { buildOembedRequestUrl, findOembedRequestUrl, setOembedProviders } from './oembed';
+
+describe('buildOembedRequestUrl', () => {
+  it('appends the encoded URL', () => {
+    expect(buildOembedRequestUrl('https://ex.com/oembed?url=', 'https://a.b/c?d=1')).toBe(
+      'https://ex.com/oembed?url=https%3A%2F%2Fa.b%2Fc%3Fd%3D1',
+    );
+  });
+
+  it('substitutes a {url} placeholder', () => {
+    expect(
+      buildOembedRequestUrl('https://ex.com/oembed?url={url}&format=json', 'https://a.b/'),
+    ).toBe('https://ex.com/oembed?url=https%3A%2F%2Fa.b%2F&format=json');
+  });
+});
+
+describe('findOembedRequestUrl', () => {
+  afterEach(() => {
+    setOembedProviders([]);
+  });
+
+  it('matches built-in YouTube and Vimeo providers', () => {
+    expect(findOembedRequestUrl('https://www.youtube.com/watch?v=abc')).toContain(
+      'youtube.com/oembed',
+    );
+    expect(findOembedRequestUrl('https://vimeo.com/123')).toContain('vimeo.com/api/oembed');
+  });
+
+  it('returns undefined for URLs without a provider', () => {
+    expect(findOembedRequestUrl('https://soundcloud.com/artist/track')).toBeUndefined();
+  });
+
+  it('matches user providers by glob', () => {
+    setOembedProviders([
+      { pattern: 'soundcloud.com/*', endpoint: 'https://soundcloud.com/oembed?format=json&url=' },
+    ]);
+    expect(findOembedRequestUrl('https://soundcloud.com/artist/track')).toBe(
+      'https://soundcloud.com/oembed?format=json&url=https%3A%2F%2Fsoundcloud.com%2Fartist%2Ftrack',
+    );
+  });
+
+  it('checks user providers before built-ins', () => {
+    setOembedProviders([
+      { pattern: '*youtube.com/*', endpoint: 'https://proxy.example/oembed?url=' },
+    ]);
+    expect(findOembedRequestUrl('https://www.youtube.com/watch?v=abc')).toMatch(
+      /^https:\/\/proxy\.example\//,
+    );
+  });
+
+  it('ignores incomplete user providers', () => {
+    setOembedProviders([{ pattern: 'soundcloud.com/*', endpoint: ' ' }]);
+    expect(findOembedRequestUrl('https://soundcloud.com/artist/track')).toBeUndefined();
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * oEmbed provider registry shared by the plugin and `scripts/test-titles.ts`.
+ * Kept free of Obsidian imports so the script can run under Node.
+ */
+import { matchesUrlGlob } from './parsers/url';
+
+/** A user-configured oEmbed provider, as stored in the plugin settings. */
+export interface OembedProviderConfig {
+  /** URL glob, e.g. `soundcloud.com/*` (see {@link matchesUrlGlob}). */
+  pattern: string;
+  /** Endpoint URL. `{url}` is replaced with the encoded link URL; otherwise it is appended. */
+  endpoint: string;
+}
+
+/** A provider ready for matching: built-ins use regexes, user providers use globs. */
+interface OembedProvider {
+  matches: (url: string) => boolean;
+  endpoint: string;
+}
+
+/** Built-in providers for sites whose HTML is too heavy or JS-rendered. */
+const BUILTIN_PROVIDERS: OembedProvider[] = [
+  {
+    matches: (url) => /^https?:\/\/(www\.)?youtube\.com\/watch/.test(url),
+    endpoint: 'https://www.youtube.com/oembed?format=json&url=',
+  },
+  {
+    matches: (url) => /^https?:\/\/youtu\.be\//.test(url),
+    endpoint: 'https://www.youtube.com/oembed?format=json&url=',
+  },
+  {
+    matches: (url) => /^https?:\/\/(www\.)?vimeo\.com\/\d+/.test(url),
+    endpoint: 'https://vimeo.com/api/oembed.json?url=',
+  },
+];
+
+let userProviders: OembedProvider[] = [];
+
+/**
+ * Replaces the user-configured providers. They are checked before the
+ * built-ins, so users can override a built-in endpoint. Entries with an
+ * empty pattern or endpoint are ignored.
+ */
+export function setOembedProviders(configs: OembedProviderConfig[]): void {
+  userProviders = configs
+    .filter(({ pattern, endpoint }) => pattern.trim() && endpoint.trim())
+    .map(({ pattern, endpoint }) => ({
+      matches: (url: string) => matchesUrlGlob(url, pattern),
+      endpoint: endpoint.trim(),
+    }));
+}
+
+/**
+ * Builds the oEmbed request URL for {@link url} from an endpoint, either
+ * by substituting `{url}` or by appending the encoded URL.
+ */
+export function buildOembedRequestUrl(endpoint: string, url: string): string {
+  const encoded = encodeURIComponent(url);
+  return endpoint.includes('{url}') ? endpoint.replace('{url}', encoded) : `${endpoint}${encoded}`;
+}
+
+/**
+ * Returns the oEmbed request URL for {@link url} from the first matching
+ * provider (user-configured first, then built-in), or `undefined` if no
+ * provider handles it.
+ */
+export function findOembedRequestUrl(url: string): string | undefined {
+  const provider = [...userProviders, ...BUILTIN_PROVIDERS].find((p) => p.matches(url));
+  return provider ? buildOembedRequestUrl(provider.endpoint, url) : undefined;
+}
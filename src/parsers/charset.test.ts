@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { charsetFromContentType, decodeHtml, sniffMetaCharset } from './charset';
+
+/** Encodes ASCII markup around a run of already-encoded bytes. */
+function page(before: string, encoded: number[], after = ''): ArrayBuffer {
+  const ascii = (text: string) => Array.from(text, (ch) => ch.charCodeAt(0));
+  return new Uint8Array([...ascii(before), ...encoded, ...ascii(after)]).buffer;
+}
+
+/** Titles in legacy encodings, as the raw bytes a server would send. */
+const FIXTURES: { charset: string; bytes: number[]; text: string }[] = [
+  {
+    charset: 'Shift_JIS',
+    bytes: [0x93, 0xfa, 0x96, 0x7b, 0x8c, 0xea, 0x82, 0xcc, 0x83, 0x79, 0x81, 0x5b, 0x83, 0x57],
+    text: '日本語のページ',
+  },
+  { charset: 'GBK', bytes: [0xd6, 0xd0, 0xce, 0xc4, 0xcd, 0xf8, 0xd2, 0xb3], text: '中文网页' },
+  {
+    charset: 'EUC-KR',
+    bytes: [0xc7, 0xd1, 0xb1, 0xb9, 0xbe, 0xee, 0x20, 0xc6, 0xe4, 0xc0, 0xcc, 0xc1, 0xf6],
+    text: '한국어 페이지',
+  },
+  {
+    charset: 'windows-1251',
+    bytes: [0xcf, 0xf0, 0xe8, 0xe2, 0xe5, 0xf2, 0x2c, 0x20, 0xec, 0xe8, 0xf0],
+    text: 'Привет, мир',
+  },
+  {
+    charset: 'ISO-8859-1',
+    bytes: [0x43, 0x61, 0x66, 0xe9, 0x20, 0x63, 0x72, 0xe8, 0x6d, 0x65],
+    text: 'Café crème',
+  },
+];
+
+describe('charsetFromContentType', () => {
+  it('reads the charset parameter', () => {
+    expect(charsetFromContentType('text/html; charset=Shift_JIS')).toBe('Shift_JIS');
+    expect(charsetFromContentType('text/html;charset="windows-1251"')).toBe('windows-1251');
+    expect(charsetFromContentType('text/html')).toBeUndefined();
+    expect(charsetFromContentType(undefined)).toBeUndefined();
+  });
+});
+
+describe('sniffMetaCharset', () => {
+  const bytes = (html: string) => new Uint8Array(page(html, []));
+
+  it('reads <meta charset> and http-equiv declarations', () => {
+    expect(sniffMetaCharset(bytes('<head><meta charset="euc-kr">'))).toBe('euc-kr');
+    expect(
+      sniffMetaCharset(
+        bytes('<meta http-equiv="Content-Type" content="text/html; charset=gb2312">'),
+      ),
+    ).toBe('gb2312');
+  });
+
+  it('treats a declared UTF-16 as UTF-8', () => {
+    expect(sniffMetaCharset(bytes('<meta charset="utf-16">'))).toBe('utf-8');
+  });
+
+  it('returns undefined without a declaration', () => {
+    expect(sniffMetaCharset(bytes('<head><title>x</title>'))).toBeUndefined();
+  });
+});
+
+describe('decodeHtml', () => {
+  it.each(FIXTURES)('decodes $charset from the Content-Type header', ({ charset, bytes, text }) => {
+    const html = decodeHtml(page('<title>', bytes, '</title>'), `text/html; charset=${charset}`);
+    expect(html).toBe(`<title>${text}</title>`);
+  });
+
+  it.each(FIXTURES)('decodes $charset from a <meta> declaration', ({ charset, bytes, text }) => {
+    const html = decodeHtml(page(`<meta charset="${charset}"><title>`, bytes, '</title>'));
+    expect(html).toContain(`<title>${text}</title>`);
+  });
+
+  it('prefers a byte order mark over declared charsets', () => {
+    const utf8 = Array.from(new TextEncoder().encode('日本語'));
+    const html = decodeHtml(
+      page('', [0xef, 0xbb, 0xbf, ...utf8], '<meta charset="shift_jis">'),
+      'text/html; charset=windows-1251',
+    );
+    expect(html).toBe('日本語<meta charset="shift_jis">');
+  });
+
+  it('prefers the header over a <meta> declaration', () => {
+    const [fixture] = FIXTURES;
+    const html = decodeHtml(
+      page('<meta charset="windows-1251">', fixture.bytes),
+      'text/html; charset=shift_jis',
+    );
+    expect(html).toContain(fixture.text);
+  });
+
+  it('falls back to UTF-8 for missing and unknown charsets', () => {
+    const utf8 = Array.from(new TextEncoder().encode('Ünïcode'));
+    expect(decodeHtml(page('', utf8))).toBe('Ünïcode');
+    expect(decodeHtml(page('', utf8), 'text/html; charset=no-such-charset')).toBe('Ünïcode');
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Bytes scanned for a `<meta charset>` declaration. The HTML spec's
+ * prescan stops at 1024, but plenty of pages declare it after long
+ * inline scripts or comments.
+ */
+const PRESCAN_BYTES = 4096;
+
+/** Byte order marks, which take precedence over every declared charset. */
+const BOMS: [number[], string][] = [
+  [[0xef, 0xbb, 0xbf], 'utf-8'],
+  [[0xfe, 0xff], 'utf-16be'],
+  [[0xff, 0xfe], 'utf-16le'],
+];
+
+/** Returns a decoder for a charset label, or `undefined` if the label is unknown. */
+function decoderFor(label: string): TextDecoder | undefined {
+  try {
+    return new TextDecoder(label.trim().toLowerCase());
+  } catch {
+    return undefined;
+  }
+}
+
+function bomCharset(bytes: Uint8Array): string | undefined {
+  return BOMS.find(([bom]) => bom.every((byte, i) => bytes[i] === byte))?.[1];
+}
+
+/**
+ * Reads the `charset` parameter of a Content-Type header value.
+ *
+ * @internal exported for testing
+ */
+export function charsetFromContentType(value: string | undefined): string | undefined {
+  return /;\s*charset\s*=\s*["']?([^"';\s]+)/i.exec(value ?? '')?.[1];
+}
+
+/**
+ * Finds a `<meta charset>` or `<meta http-equiv="Content-Type">`
+ * declaration near the start of the page. The bytes are read as Latin-1,
+ * which leaves the ASCII markup intact whatever the real encoding is.
+ *
+ * @internal exported for testing
+ */
+export function sniffMetaCharset(bytes: Uint8Array): string | undefined {
+  const head = String.fromCharCode(...Array.from(bytes.subarray(0, PRESCAN_BYTES)));
+  const charset = /<meta\b[^>]*?\bcharset\s*=\s*["']?\s*([\w.:-]+)/i.exec(head)?.[1];
+  // The page was read as ASCII to find this, so it can't really be UTF-16
+  return charset && /^utf-16/i.test(charset) ? 'utf-8' : charset;
+}
+
+/**
+ * Decodes a fetched HTML page using, in order, its byte order mark, the
+ * charset in the Content-Type header, a `<meta>` declaration, and UTF-8.
+ * Unknown charset labels are skipped.
+ */
+export function decodeHtml(buffer: ArrayBuffer, contentType?: string): string {
+  const bytes = new Uint8Array(buffer);
+  const bom = bomCharset(bytes);
+  const decoder =
+    (bom && decoderFor(bom)) ||
+    decoderFor(charsetFromContentType(contentType) ?? '') ||
+    decoderFor(sniffMetaCharset(bytes) ?? '') ||
+    new TextDecoder('utf-8');
+  return decoder.decode(bytes);
+}
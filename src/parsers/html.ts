@@ -2,11 +2,12 @@
  * Extracts the favicon URL from a parsed HTML document by checking
  * `<link rel="icon">`, `<link rel="shortcut icon">`, and
  * `<link rel="apple-touch-icon">` in order. Resolves relative hrefs
- * against {@link pageUrl}. Returns `null` if no favicon link is found.
+ * against {@link pageUrl}; without one, only absolute hrefs are used.
+ * Returns `null` if no favicon link is found.
  *
  * @internal exported for testing
  */
-export function extractFaviconUrl(doc: Document, pageUrl: string): string | null {
+export function extractFaviconUrl(doc: Document, pageUrl?: string): string | null {
   // Try <link rel="icon"> and <link rel="shortcut icon"> in order
   const selectors = [
     'link[rel="icon"]',
@@ -29,6 +30,26 @@ export function extractFaviconUrl(doc: Document, pageUrl: string): string | null
   return null;
 }
 
+/**
+ * Returns the trimmed `content` of the first meta tag matching
+ * {@link selector}, or `undefined` if it is missing or empty.
+ */
+function metaContent(doc: Document, selector: string): string | undefined {
+  return doc.querySelector(selector)?.getAttribute('content')?.trim() || undefined;
+}
+
+/** Resolves a possibly relative URL against the page URL, or `undefined` if unparseable. */
+function resolveUrl(href: string | undefined, pageUrl?: string): string | undefined {
+  if (!href) {
+    return undefined;
+  }
+  try {
+    return new URL(href, pageUrl).href;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Extracts the `og:title` meta tag content from a parsed document.
  * Returns `undefined` if the tag is missing or empty.
@@ -36,18 +57,208 @@ export function extractFaviconUrl(doc: Document, pageUrl: string): string | null
  * @internal exported for testing
  */
 export function extractOgTitle(doc: Document): string | undefined {
+  return metaContent(doc, 'meta[property="og:title"]');
+}
+
+/**
+ * Extracts the `og:description` meta tag content from a parsed document.
+ * Returns `undefined` if the tag is missing or empty.
+ *
+ * @internal exported for testing
+ */
+export function extractOgDescription(doc: Document): string | undefined {
+  return metaContent(doc, 'meta[property="og:description"]');
+}
+
+/**
+ * Extracts the `og:site_name` meta tag content from a parsed document.
+ * Returns `undefined` if the tag is missing or empty.
+ *
+ * @internal exported for testing
+ */
+export function extractOgSiteName(doc: Document): string | undefined {
+  return metaContent(doc, 'meta[property="og:site_name"]');
+}
+
+/**
+ * Extracts the `og:image` URL from a parsed document, resolving relative
+ * URLs against {@link pageUrl}. Returns `undefined` if the tag is missing,
+ * empty or unparseable.
+ *
+ * @internal exported for testing
+ */
+export function extractOgImage(doc: Document, pageUrl?: string): string | undefined {
+  return resolveUrl(
+    metaContent(doc, 'meta[property="og:image"], meta[property="og:image:url"]'),
+    pageUrl,
+  );
+}
+
+/**
+ * Extracts the `og:type` meta tag content (e.g. `article`, `video.other`).
+ *
+ * @internal exported for testing
+ */
+export function extractOgType(doc: Document): string | undefined {
+  return metaContent(doc, 'meta[property="og:type"]');
+}
+
+/**
+ * Extracts the `article:published_time` meta tag content, as published
+ * (normally an ISO 8601 date).
+ *
+ * @internal exported for testing
+ */
+export function extractPublishedTime(doc: Document): string | undefined {
+  return metaContent(doc, 'meta[property="article:published_time"]');
+}
+
+/**
+ * Extracts the `twitter:title` meta tag content. Sites set it with either
+ * `name` or `property`, so both are accepted.
+ *
+ * @internal exported for testing
+ */
+export function extractTwitterTitle(doc: Document): string | undefined {
+  return metaContent(doc, 'meta[name="twitter:title"], meta[property="twitter:title"]');
+}
+
+/**
+ * Extracts the `twitter:description` meta tag content.
+ *
+ * @internal exported for testing
+ */
+export function extractTwitterDescription(doc: Document): string | undefined {
+  return metaContent(doc, 'meta[name="twitter:description"], meta[property="twitter:description"]');
+}
+
+/**
+ * Extracts the `twitter:image` URL, resolving relative URLs against
+ * {@link pageUrl}.
+ *
+ * @internal exported for testing
+ */
+export function extractTwitterImage(doc: Document, pageUrl?: string): string | undefined {
+  return resolveUrl(
+    metaContent(
+      doc,
+      'meta[name="twitter:image"], meta[property="twitter:image"], meta[name="twitter:image:src"]',
+    ),
+    pageUrl,
+  );
+}
+
+/**
+ * Extracts the plain `meta[name="description"]` content.
+ *
+ * @internal exported for testing
+ */
+export function extractMetaDescription(doc: Document): string | undefined {
+  return metaContent(doc, 'meta[name="description"]');
+}
+
+/**
+ * Extracts the JSON oEmbed discovery URL
+ * (`<link rel="alternate" type="application/json+oembed">`), resolved
+ * against {@link pageUrl}. Returns `undefined` if the page doesn't
+ * advertise one.
+ *
+ * @internal exported for testing
+ */
+export function extractOembedDiscoveryUrl(doc: Document, pageUrl: string): string | undefined {
+  const href = doc
+    .querySelector('link[rel="alternate"][type="application/json+oembed"]')
+    ?.getAttribute('href')
+    ?.trim();
+  return resolveUrl(href, pageUrl);
+}
+
+/** Longest `<meta http-equiv="refresh">` delay treated as a redirect. Longer ones usually reload the same page. */
+const MAX_REFRESH_DELAY = 5;
+
+/** Returns `url` if it is an absolute http(s) URL, otherwise `undefined`. */
+function httpUrl(url: string | undefined): string | undefined {
+  return url && /^https?:\/\//i.test(url) ? url : undefined;
+}
+
+/**
+ * Extracts the page's canonical URL from `<link rel="canonical">`, then
+ * `og:url`, resolved against {@link pageUrl}. Returns `undefined` if
+ * neither is present or the URL isn't http(s).
+ *
+ * @internal exported for testing
+ */
+export function extractCanonicalUrl(doc: Document, pageUrl: string): string | undefined {
+  const canonical = doc.querySelector('link[rel="canonical"]')?.getAttribute('href')?.trim();
   return (
-    doc.querySelector('meta[property="og:title"]')?.getAttribute('content')?.trim() || undefined
+    httpUrl(resolveUrl(canonical, pageUrl)) ??
+    httpUrl(resolveUrl(metaContent(doc, 'meta[property="og:url"]'), pageUrl))
   );
 }
 
+/**
+ * Extracts the destination of a client-side redirect: an immediate
+ * `<meta http-equiv="refresh">` (as served by `t.co`) or the outbound
+ * link on LinkedIn's `lnkd.in` interstitial. Returns `undefined` if the
+ * page doesn't redirect.
+ *
+ * @internal exported for testing
+ */
+export function extractClientRedirectUrl(doc: Document, pageUrl: string): string | undefined {
+  for (const meta of Array.from(doc.querySelectorAll('meta[http-equiv]'))) {
+    if (meta.getAttribute('http-equiv')?.toLowerCase() !== 'refresh') {
+      continue;
+    }
+    const match = /^\s*(\d+)?\s*[;,]?\s*url\s*=\s*['"]?([^'"]+)['"]?\s*$/i.exec(
+      meta.getAttribute('content') ?? '',
+    );
+    if (match && Number(match[1] ?? 0) <= MAX_REFRESH_DELAY) {
+      return httpUrl(resolveUrl(match[2].trim(), pageUrl));
+    }
+  }
+  const outbound = doc
+    .querySelector('a[data-tracking-control-name="external_url_click"]')
+    ?.getAttribute('href')
+    ?.trim();
+  return httpUrl(resolveUrl(outbound, pageUrl));
+}
+
+/**
+ * Extracts the translations a page advertises with
+ * `<link rel="alternate" hreflang="…">`, resolved against
+ * {@link pageUrl}.
+ *
+ * @internal exported for testing
+ */
+export function extractHreflangAlternates(
+  doc: Document,
+  pageUrl: string,
+): { lang: string; href: string }[] {
+  return Array.from(doc.querySelectorAll('link[rel="alternate"][hreflang]')).flatMap((link) => {
+    const lang = link.getAttribute('hreflang')?.trim();
+    const href = httpUrl(resolveUrl(link.getAttribute('href')?.trim(), pageUrl));
+    return lang && href ? [{ lang, href }] : [];
+  });
+}
+
+/**
+ * Extracts the page's language from `<html lang>`, then `og:locale`
+ * (`en_GB` becomes `en-GB`).
+ *
+ * @internal exported for testing
+ */
+export function extractPageLanguage(doc: Document): string | undefined {
+  const lang = doc.documentElement.getAttribute('lang')?.trim();
+  return lang || metaContent(doc, 'meta[property="og:locale"]')?.replace(/_/g, '-');
+}
+
 /**
  * Extracts the `meta[name="author"]` content from a parsed document.
  *
  * @internal exported for testing
  */
 export function extractAuthor(doc: Document): string | undefined {
-  return doc.querySelector('meta[name="author"]')?.getAttribute('content')?.trim() || undefined;
+  return metaContent(doc, 'meta[name="author"]');
 }
 
 /**
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { extractJsonLd } from './json-ld';
+
+function makeDoc(...blocks: string[]): Document {
+  const scripts = blocks
+    .map((json) => `<script type="application/ld+json">${json}</script>`)
+    .join('');
+  return new DOMParser().parseFromString(`<html><head>${scripts}</head></html>`, 'text/html');
+}
+
+const PAGE = 'https://news.example/2024/story';
+
+describe('extractJsonLd', () => {
+  it('reads a NewsArticle with an inline Person author', () => {
+    const doc = makeDoc(
+      JSON.stringify({
+        '@context': 'https://schema.org',
+        '@type': 'NewsArticle',
+        headline: 'Real headline',
+        author: { '@type': 'Person', name: 'Jane Doe' },
+        datePublished: '2024-03-02T10:00:00Z',
+        description: 'What happened',
+        image: ['/lead.jpg'],
+      }),
+    );
+
+    expect(extractJsonLd(doc, PAGE)).toEqual({
+      title: 'Real headline',
+      author: 'Jane Doe',
+      publishedTime: '2024-03-02T10:00:00Z',
+      description: 'What happened',
+      image: 'https://news.example/lead.jpg',
+      type: 'NewsArticle',
+    });
+  });
+
+  it('joins multiple authors and Organization authors', () => {
+    const doc = makeDoc(
+      JSON.stringify({
+        '@type': 'BlogPosting',
+        headline: 'Team post',
+        author: [
+          { '@type': 'Person', name: 'Ann' },
+          { '@type': 'Organization', name: 'Acme' },
+        ],
+      }),
+    );
+    expect(extractJsonLd(doc, PAGE)?.author).toBe('Ann, Acme');
+  });
+
+  it('finds the article inside an @graph and resolves author @id references', () => {
+    const doc = makeDoc(
+      JSON.stringify({
+        '@context': 'https://schema.org',
+        '@graph': [
+          { '@type': 'WebSite', '@id': '#site', name: 'News Site' },
+          { '@type': 'Person', '@id': '#jane', name: 'Jane Doe' },
+          { '@type': ['Article'], headline: 'Graph headline', author: { '@id': '#jane' } },
+        ],
+      }),
+    );
+
+    const data = extractJsonLd(doc, PAGE);
+    expect(data?.title).toBe('Graph headline');
+    expect(data?.author).toBe('Jane Doe');
+  });
+
+  it('reads products with their brand as author', () => {
+    const doc = makeDoc(
+      JSON.stringify({
+        '@type': 'Product',
+        name: 'Widget 3000',
+        brand: { '@type': 'Brand', name: 'Acme' },
+        image: { '@type': 'ImageObject', url: 'https://cdn.example/w.png' },
+      }),
+    );
+
+    const data = extractJsonLd(doc, PAGE);
+    expect(data?.title).toBe('Widget 3000');
+    expect(data?.author).toBe('Acme');
+    expect(data?.image).toBe('https://cdn.example/w.png');
+  });
+
+  it('reads recipes, videos and source code', () => {
+    const recipe = makeDoc(JSON.stringify({ '@type': 'Recipe', name: 'Pancakes', author: 'Chef' }));
+    expect(extractJsonLd(recipe, PAGE)).toMatchObject({ title: 'Pancakes', author: 'Chef' });
+
+    const video = makeDoc(
+      JSON.stringify({
+        '@type': 'VideoObject',
+        name: 'Demo',
+        uploadDate: '2024-01-01',
+        thumbnailUrl: '/thumb.jpg',
+      }),
+    );
+    expect(extractJsonLd(video, PAGE)).toMatchObject({
+      title: 'Demo',
+      publishedTime: '2024-01-01',
+      image: 'https://news.example/thumb.jpg',
+    });
+
+    const code = makeDoc(
+      JSON.stringify({ '@type': 'SoftwareSourceCode', name: 'lib', creator: { name: 'Dev' } }),
+    );
+    expect(extractJsonLd(code, PAGE)).toMatchObject({ title: 'lib', author: 'Dev' });
+  });
+
+  it('accepts prefixed and IRI types', () => {
+    const doc = makeDoc(JSON.stringify({ '@type': 'http://schema.org/Article', headline: 'IRI' }));
+    expect(extractJsonLd(doc, PAGE)?.title).toBe('IRI');
+  });
+
+  it('ignores site-level types like WebSite and Organization', () => {
+    const doc = makeDoc(
+      JSON.stringify([
+        { '@type': 'WebSite', name: 'News Site' },
+        { '@type': 'Organization', name: 'News Corp' },
+      ]),
+    );
+    expect(extractJsonLd(doc, PAGE)).toBeUndefined();
+  });
+
+  it('skips malformed blocks and keeps reading the rest', () => {
+    const doc = makeDoc('{ not json', JSON.stringify({ '@type': 'Article', headline: 'Valid' }));
+    expect(extractJsonLd(doc, PAGE)?.title).toBe('Valid');
+  });
+
+  it('returns undefined when the page has no JSON-LD', () => {
+    expect(extractJsonLd(makeDoc(), PAGE)).toBeUndefined();
+  });
+});
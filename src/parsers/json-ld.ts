@@ -0,0 +1,162 @@
+/** Fields read from a page's schema.org JSON-LD. */
+export interface JsonLdData {
+  /** `headline`, or `name` for types without one. */
+  title?: string;
+  /** Author, creator or brand names, comma-separated. */
+  author?: string;
+  /** `datePublished` (or `uploadDate` for videos), as published. */
+  publishedTime?: string;
+  description?: string;
+  /** Absolute image URL. */
+  image?: string;
+  /** The schema.org type the data was read from, e.g. `NewsArticle`. */
+  type?: string;
+}
+
+type JsonLdNode = Record<string, unknown>;
+
+/**
+ * schema.org types whose title and author describe the linked page itself.
+ * Types like `WebSite` or `Organization` are skipped — on most sites they
+ * only describe the site as a whole.
+ */
+const CONTENT_TYPES = [
+  'Article',
+  'NewsArticle',
+  'BlogPosting',
+  'TechArticle',
+  'ScholarlyArticle',
+  'Report',
+  'Product',
+  'Recipe',
+  'VideoObject',
+  'SoftwareSourceCode',
+];
+
+function isNode(value: unknown): value is JsonLdNode {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value.trim() || undefined : undefined;
+}
+
+function toArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : value === undefined ? [] : [value];
+}
+
+/**
+ * Returns the first of the node's `@type`s that is a supported content
+ * type. Prefixed forms like `schema:Article` or full schema.org IRIs are
+ * accepted too.
+ */
+function contentType(node: JsonLdNode): string | undefined {
+  return toArray(node['@type'])
+    .map((type) => asString(type)?.replace(/^.*[/:]/, ''))
+    .find((type): type is string => !!type && CONTENT_TYPES.includes(type));
+}
+
+/** Flattens top-level arrays and `@graph` containers into a list of nodes. */
+function collectNodes(value: unknown, nodes: JsonLdNode[]): void {
+  for (const item of toArray(value)) {
+    if (!isNode(item)) {
+      continue;
+    }
+    nodes.push(item);
+    if (item['@graph'] !== undefined) {
+      collectNodes(item['@graph'], nodes);
+    }
+  }
+}
+
+/**
+ * Resolves a Person/Organization reference (inline node, `@id` reference
+ * into the graph, or plain string) to a display name.
+ */
+function personName(value: unknown, byId: Map<string, JsonLdNode>): string | undefined {
+  if (typeof value === 'string') {
+    return asString(value);
+  }
+  if (!isNode(value)) {
+    return undefined;
+  }
+  const id = asString(value['@id']);
+  const node = (id && byId.get(id)) || value;
+  return asString(node.name);
+}
+
+function names(value: unknown, byId: Map<string, JsonLdNode>): string | undefined {
+  const list = toArray(value)
+    .map((item) => personName(item, byId))
+    .filter((name): name is string => !!name);
+  return list.length > 0 ? Array.from(new Set(list)).join(', ') : undefined;
+}
+
+/** Reads an image given as a URL string, an `ImageObject`, or a list of either. */
+function imageUrl(value: unknown, pageUrl?: string): string | undefined {
+  for (const item of toArray(value)) {
+    const raw = typeof item === 'string' ? item : isNode(item) ? asString(item.url) : undefined;
+    if (!raw) {
+      continue;
+    }
+    try {
+      return new URL(raw, pageUrl).href;
+    } catch {
+      continue;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Extracts headline, author, publish date, description and image from the
+ * page's `<script type="application/ld+json">` blocks. Understands
+ * top-level arrays and `@graph` containers, and resolves author `@id`
+ * references within the graph. Only content types (articles, products,
+ * recipes, videos, source code) are used; returns `undefined` if the page
+ * has none or its JSON-LD is malformed. Relative image URLs are resolved
+ * against {@link pageUrl}, and dropped without one.
+ *
+ * @internal exported for testing
+ */
+export function extractJsonLd(doc: Document, pageUrl?: string): JsonLdData | undefined {
+  const nodes: JsonLdNode[] = [];
+  for (const script of Array.from(doc.querySelectorAll('script[type="application/ld+json"]'))) {
+    try {
+      collectNodes(JSON.parse(script.textContent ?? ''), nodes);
+    } catch {
+      continue;
+    }
+  }
+
+  const byId = new Map<string, JsonLdNode>();
+  for (const node of nodes) {
+    const id = asString(node['@id']);
+    if (id) {
+      byId.set(id, node);
+    }
+  }
+
+  for (const node of nodes) {
+    const type = contentType(node);
+    if (!type) {
+      continue;
+    }
+    const title = asString(node.headline) ?? asString(node.name);
+    if (!title) {
+      continue;
+    }
+    return {
+      title,
+      author:
+        names(node.author, byId) ??
+        names(node.creator, byId) ??
+        (type === 'Product' ? names(node.brand, byId) : undefined),
+      publishedTime: asString(node.datePublished) ?? asString(node.uploadDate),
+      description: asString(node.description),
+      image: imageUrl(node.image, pageUrl) ?? imageUrl(node.thumbnailUrl, pageUrl),
+      type,
+    };
+  }
+  return undefined;
+}
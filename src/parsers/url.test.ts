@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'vitest';
-import { extractRedditTitle, extractUrlTitle } from './url';
+import {
+  extractRedditTitle,
+  extractRedirectTarget,
+  extractUrlTitle,
+  isShortenerUrl,
+  matchesUrlGlob,
+  normalizeUrl,
+} from './url';
 
 describe('extractUrlTitle', () => {
   it('extracts title from Amazon product URL', () => {
@@ -101,6 +108,15 @@ describe('extractRedditTitle', () => {
     });
   });
 
+  it('marks comment permalinks as comments', () => {
+    expect(
+      extractRedditTitle('https://www.reddit.com/r/vim/comments/abc123/a_nice_vim_trick/def456/'),
+    ).toEqual({ title: 'Comment on "A Nice Vim Trick"', author: 'r/vim' });
+    expect(
+      extractRedditTitle('https://www.reddit.com/r/vim/comments/abc123/comment/def456/'),
+    ).toEqual({ title: 'Comment in r/vim', author: 'r/vim' });
+  });
+
   it('returns undefined for Reddit homepage', () => {
     expect(extractRedditTitle('https://www.reddit.com/')).toBeUndefined();
   });
@@ -116,3 +132,92 @@ describe('extractRedditTitle', () => {
     expect(extractRedditTitle('https://example.com/r/test/comments/123/slug/')).toBeUndefined();
   });
 });
+
+describe('matchesUrlGlob', () => {
+  it('matches a host prefix with a trailing wildcard', () => {
+    expect(matchesUrlGlob('https://soundcloud.com/artist/track', 'soundcloud.com/*')).toBe(true);
+  });
+
+  it('ignores the scheme on both sides', () => {
+    expect(matchesUrlGlob('http://soundcloud.com/a', 'https://soundcloud.com/*')).toBe(true);
+  });
+
+  it('matches subdomains with a leading wildcard', () => {
+    expect(matchesUrlGlob('https://wiki.corp.example/page/1', '*.corp.example/*')).toBe(true);
+  });
+
+  it('is anchored at both ends', () => {
+    expect(matchesUrlGlob('https://evil.example/soundcloud.com/x', 'soundcloud.com/*')).toBe(false);
+    expect(matchesUrlGlob('https://soundcloud.com/a', 'soundcloud.com')).toBe(false);
+  });
+
+  it('treats regex characters literally', () => {
+    expect(matchesUrlGlob('https://a.example/x?y=1', 'a.example/x?y=1')).toBe(true);
+    expect(matchesUrlGlob('https://aXexample/x', 'a.example/*')).toBe(false);
+  });
+
+  it('never matches an empty glob', () => {
+    expect(matchesUrlGlob('https://a.example/', '  ')).toBe(false);
+  });
+});
+
+describe('isShortenerUrl', () => {
+  it('recognizes shortener hosts', () => {
+    expect(isShortenerUrl(new URL('https://bit.ly/3abc'))).toBe(true);
+    expect(isShortenerUrl(new URL('https://www.tinyurl.com/xyz'))).toBe(true);
+    expect(isShortenerUrl(new URL('https://bitly.com/pages'))).toBe(false);
+  });
+});
+
+describe('extractRedirectTarget', () => {
+  const target = (url: string) => extractRedirectTarget(new URL(url));
+
+  it('reads the destination of query-parameter redirectors', () => {
+    expect(target('https://www.google.com/url?sa=t&q=https%3A%2F%2Fex.com%2Fpost&ved=x')).toBe(
+      'https://ex.com/post',
+    );
+    expect(target('https://www.google.co.uk/url?url=https://ex.com/a')).toBe('https://ex.com/a');
+    expect(target('https://l.facebook.com/l.php?u=https%3A%2F%2Fex.com%2F&h=x')).toBe(
+      'https://ex.com/',
+    );
+    expect(
+      target(
+        'https://eur01.safelinks.protection.outlook.com/?url=https%3A%2F%2Fex.com%2Fdoc&data=x',
+      ),
+    ).toBe('https://ex.com/doc');
+  });
+
+  it('ignores other pages and non-http destinations', () => {
+    expect(target('https://www.google.com/search?q=https://ex.com')).toBeUndefined();
+    expect(target('https://www.google.com/url?q=javascript:alert(1)')).toBeUndefined();
+    expect(target('https://ex.com/url?q=https://other.example')).toBeUndefined();
+  });
+});
+
+describe('normalizeUrl', () => {
+  it('adds trailing slash to bare domain', () => {
+    expect(normalizeUrl('https://example.com')).toBe('https://example.com/');
+  });
+
+  it('preserves subdomains', () => {
+    expect(normalizeUrl('https://docs.google.com')).toBe('https://docs.google.com/');
+  });
+
+  it('preserves www. when already present', () => {
+    expect(normalizeUrl('https://www.google.com')).toBe('https://www.google.com/');
+  });
+
+  it('preserves http:// protocol', () => {
+    expect(normalizeUrl('http://example.com')).toBe('http://example.com/');
+  });
+
+  it('preserves path, query, and fragment', () => {
+    expect(normalizeUrl('https://example.com/path?q=1#frag')).toBe(
+      'https://example.com/path?q=1#frag',
+    );
+  });
+
+  it('returns the input as-is for unparseable strings', () => {
+    expect(normalizeUrl('not a url')).toBe('not a url');
+  });
+});
@@ -1,9 +1,10 @@
-/** Reddit post URL pattern: /r/{subreddit}/comments/{id}/{slug} */
-const REDDIT_POST_RE = /^\/r\/([^/]+)\/comments\/[^/]+\/([^/]+)/;
+/** Reddit post URL pattern: /r/{subreddit}/comments/{id}/{slug}, optionally followed by a comment id */
+const REDDIT_POST_RE = /^\/r\/([^/]+)\/comments\/[^/]+\/([^/]+)(?:\/([^/?#]+))?/;
 
 /**
- * Extracts title and subreddit from a Reddit post URL.
- * Returns `undefined` for non-post Reddit URLs (homepage, subreddit listing).
+ * Extracts title and subreddit from a Reddit post URL. Comment permalinks
+ * get a `Comment on "…"` title. Returns `undefined` for non-post Reddit
+ * URLs (homepage, subreddit listing).
  *
  * @internal exported for testing
  */
@@ -35,6 +36,11 @@ export function extractRedditTitle(url: string): { title: string; author: string
 
   const subreddit = match[1];
   const slug = decodeURIComponent(match[2]);
+  const isComment = match[3] !== undefined;
+  // Share links for comments have no slug: /r/{subreddit}/comments/{id}/comment/{commentId}
+  if (isComment && slug === 'comment') {
+    return { title: `Comment in r/${subreddit}`, author: `r/${subreddit}` };
+  }
 
   const title = slug
     .split(/[-_\s]+/)
@@ -42,7 +48,10 @@ export function extractRedditTitle(url: string): { title: string; author: string
     .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
     .join(' ');
 
-  return title ? { title, author: `r/${subreddit}` } : undefined;
+  if (!title) {
+    return undefined;
+  }
+  return { title: isComment ? `Comment on "${title}"` : title, author: `r/${subreddit}` };
 }
 
 /**
@@ -93,3 +102,100 @@ export function extractUrlTitle(url: string): string {
     .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
     .join(' ');
 }
+
+/**
+ * Returns `true` if {@link url} matches a user-written glob such as
+ * `soundcloud.com/*` or `*.example.org/wiki/*`. The glob is matched
+ * against the whole URL without its `http(s)://` scheme, and `*` matches
+ * any run of characters. Matching is case-insensitive.
+ */
+export function matchesUrlGlob(url: string, glob: string): boolean {
+  const pattern = glob
+    .trim()
+    .replace(/^https?:\/\//i, '')
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  if (!pattern) {
+    return false;
+  }
+  return new RegExp(`^${pattern}$`, 'i').test(url.replace(/^https?:\/\//i, ''));
+}
+
+/** Link shorteners whose own pages say nothing about the destination. */
+const SHORTENER_HOSTS = new Set([
+  'bit.ly',
+  'buff.ly',
+  'dlvr.it',
+  'goo.gl',
+  'is.gd',
+  'lnkd.in',
+  'ow.ly',
+  'rebrand.ly',
+  't.co',
+  't.ly',
+  'tinyurl.com',
+  'trib.al',
+]);
+
+/**
+ * Returns `true` for links on a known URL shortener.
+ *
+ * @internal exported for testing
+ */
+export function isShortenerUrl(url: URL): boolean {
+  return SHORTENER_HOSTS.has(url.hostname.replace(/^www\./, ''));
+}
+
+/** Redirectors that carry the destination in a query parameter. */
+const QUERY_REDIRECTORS: { host: RegExp; path: RegExp; params: string[] }[] = [
+  // google.com/url?q=… and its country domains
+  { host: /^(?:www\.)?google\.[a-z.]+$/, path: /^\/url$/, params: ['q', 'url'] },
+  { host: /^(?:www\.)?youtube\.com$/, path: /^\/redirect$/, params: ['q'] },
+  { host: /^lm?\.facebook\.com$/, path: /^\/l\.php$/, params: ['u'] },
+  { host: /^l\.instagram\.com$/, path: /^\/$/, params: ['u'] },
+  { host: /^out\.reddit\.com$/, path: /^\//, params: ['url'] },
+  { host: /^slack-redir\.net$/, path: /^\/link$/, params: ['url'] },
+  { host: /\.safelinks\.protection\.outlook\.com$/, path: /^\//, params: ['url'] },
+];
+
+/**
+ * Reads the destination of redirector links such as
+ * `google.com/url?q=…`, Outlook Safe Links or Facebook's `l.php`, which
+ * carry it in a query parameter. Returns `undefined` for other links and
+ * for destinations that aren't http(s).
+ *
+ * @internal exported for testing
+ */
+export function extractRedirectTarget(url: URL): string | undefined {
+  const redirector = QUERY_REDIRECTORS.find(
+    ({ host, path }) => host.test(url.hostname) && path.test(url.pathname),
+  );
+  if (!redirector) {
+    return undefined;
+  }
+  for (const param of redirector.params) {
+    const value = url.searchParams.get(param);
+    if (value && /^https?:\/\//i.test(value)) {
+      try {
+        return new URL(value).href;
+      } catch {
+        continue;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Normalizes a URL for consistent caching and comparison, e.g.
+ * `https://example.com` → `https://example.com/`. Unparseable input is
+ * returned unchanged.
+ */
+export function normalizeUrl(raw: string): string {
+  try {
+    return new URL(raw).href;
+  } catch {
+    return raw;
+  }
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { LinkMetadata } from './metadata';
+import { createPill } from './pill';
+
+function meta(fields: Partial<LinkMetadata>): LinkMetadata {
+  return { title: 'Title', favicon: '', author: '', ...fields };
+}
+
+describe('createPill', () => {
+  it('creates an anchor with correct class, href, and target', () => {
+    const pill = createPill('https://example.com', meta({ title: 'Example' }));
+    expect(pill.tagName).toBe('A');
+    expect(pill.className).toBe('link-mention external-link');
+    expect((pill as HTMLAnchorElement).href).toBe('https://example.com/');
+    expect(pill.getAttribute('target')).toBe('_blank');
+    expect(pill.getAttribute('rel')).toBe('noopener noreferrer');
+    expect(pill.getAttribute('title')).toBe('https://example.com');
+  });
+
+  it('includes a favicon img when favicon is provided', () => {
+    const pill = createPill(
+      'https://ex.com',
+      meta({ title: 'Ex', favicon: 'data:image/png;base64,abc' }),
+    );
+    const img = pill.querySelector('img.link-mention-favicon') as HTMLImageElement;
+    expect(img).not.toBeNull();
+    expect(img.src).toBe('data:image/png;base64,abc');
+    expect(img.alt).toBe('');
+  });
+
+  it('omits favicon img when favicon is empty', () => {
+    const pill = createPill('https://ex.com', meta({ title: 'Ex' }));
+    const img = pill.querySelector('img');
+    expect(img).toBeNull();
+  });
+
+  it('includes a title span with correct text', () => {
+    const pill = createPill('https://ex.com', meta({ title: 'My Title' }));
+    const span = pill.querySelector('span.link-mention-title');
+    expect(span).not.toBeNull();
+    expect(span!.textContent).toBe('My Title');
+  });
+
+  it('includes an author span when author is provided', () => {
+    const pill = createPill('https://ex.com', meta({ title: 'Title', author: 'GitHub' }));
+    const author = pill.querySelector('span.link-mention-author');
+    expect(author).not.toBeNull();
+    expect(author!.textContent).toBe('GitHub');
+  });
+
+  it('omits author span when author is empty', () => {
+    const pill = createPill('https://ex.com', meta({ title: 'Title' }));
+    const author = pill.querySelector('span.link-mention-author');
+    expect(author).toBeNull();
+  });
+
+  it('renders author before title', () => {
+    const pill = createPill(
+      'https://ex.com',
+      meta({ title: 'Title', favicon: 'fav.ico', author: 'Author' }),
+    );
+    const spans = pill.querySelectorAll('span');
+    expect(spans[0].className).toBe('link-mention-author');
+    expect(spans[1].className).toBe('link-mention-title');
+  });
+
+  it('adds a status icon before the title when a status is given', () => {
+    const pill = createPill(
+      'https://ex.com',
+      meta({
+        title: 'acme/widgets#12 Fix crash',
+        status: { state: 'merged', icon: 'git-merge', label: 'Merged' },
+      }),
+    );
+    const status = pill.querySelector('.link-mention-status');
+    expect(status?.classList.contains('link-mention-status-merged')).toBe(true);
+    expect(status?.getAttribute('aria-label')).toBe('Merged');
+    expect(status?.nextElementSibling?.className).toBe('link-mention-title');
+  });
+
+  it('omits the status icon by default', () => {
+    expect(
+      createPill('https://ex.com', meta({ title: 'Ex' })).querySelector('.link-mention-status'),
+    ).toBeNull();
+  });
+
+  it('names the redirect destination in the tooltip', () => {
+    const pill = createPill('https://bit.ly/abc', meta({ finalUrl: 'https://ex.com/post' }));
+    expect(pill.getAttribute('title')).toBe('https://bit.ly/abc\n→ https://ex.com/post');
+  });
+
+  it('adds counts after the title', () => {
+    const pill = createPill(
+      'https://ex.com',
+      meta({ stats: [{ icon: 'arrow-big-up', value: '1.2k', label: '1234 points' }] }),
+    );
+    const stat = pill.querySelector('.link-mention-stat');
+    expect(stat?.textContent).toBe('1.2k');
+    expect(stat?.getAttribute('aria-label')).toBe('1234 points');
+    expect(stat?.previousElementSibling?.className).toBe('link-mention-title');
+  });
+
+  it('links the secondary text to its own URL', () => {
+    const open = vi.spyOn(window, 'open').mockReturnValue(null);
+    const pill = createPill(
+      'https://news.ycombinator.com/item?id=1',
+      meta({ title: 'Story', author: 'example.com', authorUrl: 'https://example.com/post' }),
+    );
+    const onPillClick = vi.fn();
+    pill.addEventListener('click', onPillClick);
+
+    pill.querySelector<HTMLElement>('.link-mention-author')!.click();
+
+    expect(open).toHaveBeenCalledWith('https://example.com/post', '_blank');
+    expect(onPillClick).not.toHaveBeenCalled();
+    open.mockRestore();
+  });
+
+  it('renders an author URL with another scheme as plain text', () => {
+    const pill = createPill(
+      'https://ex.com',
+      meta({ author: 'someone', authorUrl: 'javascript:alert(1)' }),
+    );
+    const author = pill.querySelector('.link-mention-author')!;
+    expect(author.classList.contains('link-mention-author-link')).toBe(false);
+    expect(author.hasAttribute('role')).toBe(false);
+  });
+});
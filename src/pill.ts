@@ -0,0 +1,105 @@
+import { setIcon } from 'obsidian';
+import type { LinkMetadata } from './metadata';
+
+/**
+ * Returns {@link raw} if it parses as an http(s) URL. Author URLs come
+ * from third-party API data, so other schemes such as `javascript:` are
+ * never opened.
+ */
+function webUrl(raw: string | undefined): string | undefined {
+  if (!raw) {
+    return undefined;
+  }
+  try {
+    const { protocol } = new URL(raw);
+    return protocol === 'http:' || protocol === 'https:' ? raw : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Creates a styled `<a>` pill element for {@link href} displaying the
+ * favicon and title from {@link meta}, plus a state icon when it has a
+ * status and counts such as score and comments after the title. With an
+ * http(s) author URL, the secondary text opens that URL instead of the
+ * link itself. When the link redirects, the native tooltip names the
+ * destination so unexpected redirects stand out.
+ * Shared by the reading-view post-processor and the live-preview widget
+ * so pills look the same in both modes.
+ */
+export function createPill(href: string, meta: LinkMetadata): HTMLElement {
+  const { title, favicon, author, status, finalUrl, stats = [] } = meta;
+  const authorUrl = webUrl(meta.authorUrl);
+  const pill = document.createElement('a');
+  pill.className = 'link-mention external-link';
+  pill.href = href;
+  pill.title = finalUrl ? `${href}\n→ ${finalUrl}` : href;
+  pill.setAttribute('target', '_blank');
+  pill.setAttribute('rel', 'noopener noreferrer');
+
+  if (favicon) {
+    const img = document.createElement('img');
+    img.className = 'link-mention-favicon';
+    img.src = favicon;
+    img.alt = '';
+    img.setAttribute('width', '19');
+    img.setAttribute('height', '19');
+    img.addEventListener('error', () => {
+      const iconEl = document.createElement('span');
+      iconEl.className = 'link-mention-favicon link-mention-default-icon';
+      setIcon(iconEl, 'link');
+      img.replaceWith(iconEl);
+    });
+    pill.appendChild(img);
+  } else {
+    const iconEl = document.createElement('span');
+    iconEl.className = 'link-mention-favicon link-mention-default-icon';
+    setIcon(iconEl, 'link');
+    pill.appendChild(iconEl);
+  }
+
+  if (author) {
+    const authorSpan = document.createElement('span');
+    authorSpan.className = 'link-mention-author';
+    authorSpan.textContent = author;
+    if (authorUrl) {
+      // Pills are anchors themselves, so the secondary link can't be a nested <a>
+      authorSpan.classList.add('link-mention-author-link');
+      authorSpan.setAttribute('role', 'link');
+      authorSpan.setAttribute('aria-label', authorUrl);
+      authorSpan.addEventListener('click', (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        window.open(authorUrl, '_blank');
+      });
+    }
+    pill.appendChild(authorSpan);
+  }
+
+  if (status) {
+    const statusEl = document.createElement('span');
+    statusEl.className = `link-mention-status link-mention-status-${status.state}`;
+    statusEl.setAttribute('aria-label', status.label);
+    setIcon(statusEl, status.icon);
+    pill.appendChild(statusEl);
+  }
+
+  const span = document.createElement('span');
+  span.className = 'link-mention-title';
+  span.textContent = title;
+
+  pill.appendChild(span);
+
+  for (const stat of stats) {
+    const statEl = document.createElement('span');
+    statEl.className = 'link-mention-stat';
+    statEl.setAttribute('aria-label', stat.label);
+    const iconEl = document.createElement('span');
+    iconEl.className = 'link-mention-stat-icon';
+    setIcon(iconEl, stat.icon);
+    statEl.append(iconEl, stat.value);
+    pill.appendChild(statEl);
+  }
+  return pill;
+}
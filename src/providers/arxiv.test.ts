@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseArxivFeed, parseArxivId } from './arxiv';
+import { clearCache, fetchLinkMetadata } from '../metadata';
+import { textResponse } from '../__mocks__/responses';
+
+import { requestUrl } from 'obsidian';
+const mockRequestUrl = vi.mocked(requestUrl);
+
+const FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:arxiv="http://arxiv.org/schemas/atom">
+  <entry>
+    <id>http://arxiv.org/abs/1706.03762v7</id>
+    <published>2017-06-12T17:57:34Z</published>
+    <title>Attention Is All
+      You Need</title>
+    <summary>  The dominant sequence transduction models...  </summary>
+    <author><name>Ashish Vaswani</name></author>
+    <author><name>Noam Shazeer</name></author>
+    <arxiv:doi>10.48550/arXiv.1706.03762</arxiv:doi>
+  </entry>
+</feed>`;
+
+const ERROR_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <entry>
+    <id>http://arxiv.org/api/errors#incorrect_id_format_for_1234</id>
+    <title>Error</title>
+  </entry>
+</feed>`;
+
+describe('parseArxivId', () => {
+  const parse = (url: string) => parseArxivId(new URL(url));
+
+  it('reads new- and old-style identifiers from abstract and PDF links', () => {
+    expect(parse('https://arxiv.org/abs/1706.03762')).toBe('1706.03762');
+    expect(parse('https://arxiv.org/pdf/1706.03762v7.pdf')).toBe('1706.03762v7');
+    expect(parse('https://arxiv.org/abs/hep-th/9901001')).toBe('hep-th/9901001');
+    expect(parse('https://arxiv.org/abs/math.GT/0309136v2')).toBe('math.GT/0309136v2');
+  });
+
+  it('rejects listing pages and other hosts', () => {
+    expect(parse('https://arxiv.org/list/cs.CL/recent')).toBeUndefined();
+    expect(parse('https://example.com/abs/1706.03762')).toBeUndefined();
+  });
+});
+
+describe('parseArxivFeed', () => {
+  it('converts the entry to CSL-JSON', () => {
+    expect(parseArxivFeed(FEED, '1706.03762')).toEqual({
+      type: 'article',
+      id: 'arXiv:1706.03762',
+      title: 'Attention Is All You Need',
+      author: [
+        { given: 'Ashish', family: 'Vaswani' },
+        { given: 'Noam', family: 'Shazeer' },
+      ],
+      issued: { 'date-parts': [[2017, 6, 12]] },
+      'container-title': 'arXiv',
+      number: '1706.03762',
+      DOI: '10.48550/arXiv.1706.03762',
+      URL: 'https://arxiv.org/abs/1706.03762',
+      abstract: 'The dominant sequence transduction models...',
+    });
+  });
+
+  it('returns undefined for API errors', () => {
+    expect(parseArxivFeed(ERROR_FEED, '1234')).toBeUndefined();
+  });
+});
+
+describe('arXiv provider', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+  });
+
+  it('shows the citation title from the Atom API', async () => {
+    mockRequestUrl.mockResolvedValue(textResponse(FEED));
+
+    const meta = await fetchLinkMetadata('https://arxiv.org/abs/1706.03762');
+    expect(meta.title).toBe('Vaswani et al. (2017) Attention Is All You Need');
+    expect(meta.siteName).toBe('arXiv');
+    expect(meta.csl?.DOI).toBe('10.48550/arXiv.1706.03762');
+    expect(mockRequestUrl).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: 'https://export.arxiv.org/api/query?id_list=1706.03762',
+      }),
+    );
+  });
+});
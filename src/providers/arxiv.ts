@@ -0,0 +1,85 @@
+import { citationResult, CslItem, CslName } from '../csl';
+import { requestText } from '../request';
+import { LinkProvider } from './types';
+
+const ARXIV_HOSTS = ['arxiv.org', 'www.arxiv.org', 'export.arxiv.org'];
+
+/** New-style (`2301.12345v2`) and old-style (`hep-th/9901001`) arXiv identifiers. */
+const ARXIV_ID_RE = /^(\d{4}\.\d{4,5}(?:v\d+)?|[a-z-]+(?:\.[A-Z]{2})?\/\d{7}(?:v\d+)?)(?:\.pdf)?$/;
+
+/**
+ * Returns the arXiv identifier of an abstract, PDF or HTML link.
+ *
+ * @internal exported for testing
+ */
+export function parseArxivId(url: URL): string | undefined {
+  if (!ARXIV_HOSTS.includes(url.hostname)) {
+    return undefined;
+  }
+  const match = /^\/(?:abs|pdf|html)\/(.+?)\/?$/.exec(url.pathname);
+  return match ? ARXIV_ID_RE.exec(match[1])?.[1] : undefined;
+}
+
+function text(parent: Element, tag: string): string | undefined {
+  return parent.getElementsByTagName(tag)[0]?.textContent?.replace(/\s+/g, ' ').trim() || undefined;
+}
+
+/** Splits "Ashish Vaswani" into given and family name at the last space. */
+function splitName(name: string): CslName {
+  const space = name.lastIndexOf(' ');
+  return space > 0
+    ? { given: name.slice(0, space), family: name.slice(space + 1) }
+    : { literal: name };
+}
+
+/**
+ * Converts the first entry of an arXiv API Atom feed to CSL-JSON.
+ * Returns `undefined` for empty feeds and API error entries.
+ *
+ * @internal exported for testing
+ */
+export function parseArxivFeed(xml: string, id: string): CslItem | undefined {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const entry = doc.getElementsByTagName('entry')[0];
+  const title = entry && text(entry, 'title');
+  if (!entry || !title || text(entry, 'id')?.includes('/api/errors')) {
+    return undefined;
+  }
+
+  const authors = Array.from(entry.getElementsByTagName('author'))
+    .map((author) => text(author, 'name'))
+    .filter((name): name is string => !!name)
+    .map(splitName);
+  const published = text(entry, 'published');
+  const parts = published ? published.slice(0, 10).split('-').map(Number) : undefined;
+
+  return {
+    type: 'article',
+    id: `arXiv:${id}`,
+    title,
+    author: authors,
+    issued: parts ? { 'date-parts': [parts] } : undefined,
+    'container-title': 'arXiv',
+    number: id,
+    DOI: text(entry, 'arxiv:doi'),
+    URL: `https://arxiv.org/abs/${id}`,
+    abstract: text(entry, 'summary'),
+  };
+}
+
+/** arXiv links, resolved through the arXiv Atom API instead of the abstract page. */
+export const arxivProvider: LinkProvider = {
+  id: 'arxiv',
+  matches: (url) => parseArxivId(url) !== undefined,
+  fromApi: async (url) => {
+    const id = parseArxivId(url);
+    if (!id) {
+      return undefined;
+    }
+    const xml = await requestText(
+      `https://export.arxiv.org/api/query?id_list=${encodeURIComponent(id)}`,
+    );
+    const item = xml ? parseArxivFeed(xml, id) : undefined;
+    return item ? citationResult(item, 'arXiv') : undefined;
+  },
+};
@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseBlueskyUrl } from './bluesky';
+import { clearCache, fetchLinkMetadata } from '../metadata';
+import { jsonResponse } from '../__mocks__/responses';
+
+import { requestUrl } from 'obsidian';
+const mockRequestUrl = vi.mocked(requestUrl);
+
+describe('parseBlueskyUrl', () => {
+  it('reads the handle or DID and record key', () => {
+    expect(parseBlueskyUrl(new URL('https://bsky.app/profile/jay.bsky.team/post/3k44dfx'))).toEqual(
+      {
+        actor: 'jay.bsky.team',
+        rkey: '3k44dfx',
+      },
+    );
+    expect(
+      parseBlueskyUrl(new URL('https://bsky.app/profile/did:plc:abc123/post/3k44dfx'))?.actor,
+    ).toBe('did:plc:abc123');
+    expect(parseBlueskyUrl(new URL('https://bsky.app/profile/jay.bsky.team'))).toBeUndefined();
+  });
+});
+
+describe('Bluesky provider', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+  });
+
+  it('resolves the handle and shows the post from the AppView', async () => {
+    mockRequestUrl.mockImplementation(async ({ url }) =>
+      url.includes('resolveHandle')
+        ? jsonResponse({ did: 'did:plc:abc123' })
+        : jsonResponse({
+            posts: [
+              {
+                author: { handle: 'jay.bsky.team', avatar: 'https://cdn.bsky.app/avatar.jpg' },
+                record: { text: 'Hello Bluesky', createdAt: '2024-02-06T12:00:00.000Z' },
+              },
+            ],
+          }),
+    );
+
+    const meta = await fetchLinkMetadata('https://bsky.app/profile/jay.bsky.team/post/3k44dfx');
+    expect(meta.title).toBe('@jay.bsky.team: Hello Bluesky');
+    expect(meta.favicon).toBe('https://cdn.bsky.app/avatar.jpg');
+    expect(mockRequestUrl).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        url: `https://public.api.bsky.app/xrpc/app.bsky.feed.getPosts?uris=${encodeURIComponent('at://did:plc:abc123/app.bsky.feed.post/3k44dfx')}`,
+      }),
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import { requestJson } from '../request';
+import { formatPostTitle } from './social';
+import { LinkProvider } from './types';
+
+/** Bluesky's public AppView, readable without authentication. */
+const APPVIEW = 'https://public.api.bsky.app/xrpc';
+
+/**
+ * A `bsky.app/profile/<handle or DID>/post/<rkey>` link.
+ *
+ * @internal exported for testing
+ */
+export interface BlueskyPostRef {
+  actor: string;
+  rkey: string;
+}
+
+/**
+ * Parses a Bluesky post link.
+ *
+ * @internal exported for testing
+ */
+export function parseBlueskyUrl(url: URL): BlueskyPostRef | undefined {
+  if (url.hostname !== 'bsky.app') {
+    return undefined;
+  }
+  const match = /^\/profile\/([^/]+)\/post\/([a-z0-9]+)\/?$/i.exec(url.pathname);
+  return match ? { actor: decodeURIComponent(match[1]), rkey: match[2] } : undefined;
+}
+
+/** Resolves a handle to its DID; DIDs are returned unchanged. */
+async function resolveDid(actor: string): Promise<string | undefined> {
+  if (actor.startsWith('did:')) {
+    return actor;
+  }
+  const json = (await requestJson(
+    `${APPVIEW}/com.atproto.identity.resolveHandle?handle=${encodeURIComponent(actor)}`,
+  )) as { did?: string } | undefined;
+  return json?.did;
+}
+
+/** The subset of `app.bsky.feed.defs#postView` used here. */
+interface BlueskyPost {
+  author?: { handle?: string; avatar?: string };
+  record?: { text?: string; createdAt?: string };
+}
+
+/** Bluesky posts: text and author from the public AppView. */
+export const blueskyProvider: LinkProvider = {
+  id: 'bluesky',
+  matches: (url) => parseBlueskyUrl(url) !== undefined,
+  fromApi: async (url) => {
+    const ref = parseBlueskyUrl(url);
+    const did = ref ? await resolveDid(ref.actor) : undefined;
+    if (!ref || !did) {
+      return undefined;
+    }
+    const uri = `at://${did}/app.bsky.feed.post/${ref.rkey}`;
+    const json = (await requestJson(
+      `${APPVIEW}/app.bsky.feed.getPosts?uris=${encodeURIComponent(uri)}`,
+    )) as { posts?: BlueskyPost[] } | undefined;
+    const post = json?.posts?.[0];
+    const handle = post?.author?.handle;
+    if (!handle) {
+      return undefined;
+    }
+    const text = post.record?.text?.trim() ?? '';
+    return {
+      title: formatPostTitle(handle, text),
+      favicon: post.author?.avatar,
+      description: text || undefined,
+      siteName: 'Bluesky',
+      type: 'post',
+      publishedTime: post.record?.createdAt,
+    };
+  },
+};
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseCratesUrl } from './crates';
+import { clearCache, fetchLinkMetadata } from '../metadata';
+import { jsonResponse } from '../__mocks__/responses';
+
+import { requestUrl } from 'obsidian';
+const mockRequestUrl = vi.mocked(requestUrl);
+
+describe('parseCratesUrl', () => {
+  const parse = (url: string) => parseCratesUrl(new URL(url));
+
+  it('parses crate and version-pinned links', () => {
+    expect(parse('https://crates.io/crates/serde')).toEqual({ name: 'serde', version: undefined });
+    expect(parse('https://crates.io/crates/serde/1.0.0')).toEqual({
+      name: 'serde',
+      version: '1.0.0',
+    });
+  });
+
+  it('ignores crate page tabs', () => {
+    expect(parse('https://crates.io/crates/serde/versions')).toEqual({
+      name: 'serde',
+      version: undefined,
+    });
+  });
+});
+
+describe('crates.io provider', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+    mockRequestUrl.mockResolvedValue(
+      jsonResponse({
+        crate: {
+          name: 'serde',
+          description: 'A generic serialization/deserialization framework',
+          max_stable_version: '1.0.203',
+          newest_version: '2.0.0-alpha.1',
+        },
+      }),
+    );
+  });
+
+  it('shows the latest stable version and description', async () => {
+    const meta = await fetchLinkMetadata('https://crates.io/crates/serde');
+    expect(meta.title).toBe('serde 1.0.203');
+    expect(meta.description).toBe('A generic serialization/deserialization framework');
+    expect(meta.siteName).toBe('crates.io');
+  });
+
+  it('shows the pinned version', async () => {
+    const meta = await fetchLinkMetadata('https://crates.io/crates/serde/1.0.0');
+    expect(meta.title).toBe('serde 1.0.0');
+  });
+});
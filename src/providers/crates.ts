@@ -0,0 +1,52 @@
+import { requestJson } from '../request';
+import { PackageRef } from './npm';
+import { LinkProvider } from './types';
+
+/**
+ * Parses `/crates/<name>` and `/crates/<name>/<version>` links.
+ *
+ * @internal exported for testing
+ */
+export function parseCratesUrl(url: URL): PackageRef | undefined {
+  if (url.hostname !== 'crates.io') {
+    return undefined;
+  }
+  const match = /^\/crates\/([^/]+)(?:\/([^/]+))?\/?$/.exec(url.pathname);
+  // `/crates/<name>/versions`, `/dependencies` etc. are tabs, not versions
+  const version = match?.[2] && /^\d/.test(match[2]) ? match[2] : undefined;
+  return match ? { name: match[1], version } : undefined;
+}
+
+/** crates.io crate pages: name, version and description from the crates.io API. */
+export const cratesProvider: LinkProvider = {
+  id: 'crates',
+  matches: (url) => parseCratesUrl(url) !== undefined,
+  fromApi: async (url) => {
+    const ref = parseCratesUrl(url);
+    if (!ref) {
+      return undefined;
+    }
+    const json = (await requestJson(`https://crates.io/api/v1/crates/${ref.name}`)) as
+      | {
+          crate?: {
+            name?: string;
+            description?: string;
+            max_stable_version?: string | null;
+            newest_version?: string;
+          };
+        }
+      | undefined;
+    const crate = json?.crate;
+    const version = ref.version ?? crate?.max_stable_version ?? crate?.newest_version;
+    if (!crate || !version) {
+      return undefined;
+    }
+    return {
+      title: `${crate.name ?? ref.name} ${version}`,
+      favicon: 'https://crates.io/favicon.ico',
+      description: crate.description?.trim() || undefined,
+      siteName: 'crates.io',
+      type: 'package',
+    };
+  },
+};
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseDoi } from './doi';
+import { clearCache, fetchLinkMetadata } from '../metadata';
+import { jsonResponse } from '../__mocks__/responses';
+
+import { requestUrl } from 'obsidian';
+const mockRequestUrl = vi.mocked(requestUrl);
+
+describe('parseDoi', () => {
+  it('reads DOIs from doi.org links', () => {
+    expect(parseDoi(new URL('https://doi.org/10.1038/nphys1170'))).toBe('10.1038/nphys1170');
+    expect(parseDoi(new URL('https://dx.doi.org/10.1002/(SICI)1097-4571%3C3::AID%3E'))).toBe(
+      '10.1002/(SICI)1097-4571<3::AID>',
+    );
+  });
+
+  it('rejects other paths and hosts', () => {
+    expect(parseDoi(new URL('https://doi.org/'))).toBeUndefined();
+    expect(parseDoi(new URL('https://doi.org/faq'))).toBeUndefined();
+    expect(parseDoi(new URL('https://example.com/10.1038/nphys1170'))).toBeUndefined();
+  });
+});
+
+describe('DOI provider', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+  });
+
+  it('resolves citation data through content negotiation', async () => {
+    const item = {
+      type: 'article-journal',
+      title: 'Measured measurement',
+      author: [
+        { family: 'Brukner', given: 'Časlav' },
+        { family: 'Zeilinger', given: 'Anton' },
+      ],
+      issued: { 'date-parts': [[2009, 4]] },
+      'container-title': 'Nature Physics',
+      DOI: '10.1038/nphys1170',
+    };
+    mockRequestUrl.mockResolvedValue(jsonResponse(item));
+
+    const meta = await fetchLinkMetadata('https://doi.org/10.1038/nphys1170');
+    expect(meta.title).toBe('Brukner et al. (2009) Measured measurement');
+    expect(meta.siteName).toBe('Nature Physics');
+    expect(meta.publishedTime).toBe('2009-04');
+    expect(meta.csl).toEqual(item);
+    expect(mockRequestUrl).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: 'https://doi.org/10.1038/nphys1170',
+        headers: { Accept: 'application/vnd.citationstyles.csl+json' },
+      }),
+    );
+  });
+});
@@ -0,0 +1,43 @@
+import { citationResult, CslItem } from '../csl';
+import { requestJson } from '../request';
+import { LinkProvider } from './types';
+
+const DOI_HOSTS = ['doi.org', 'dx.doi.org', 'www.doi.org'];
+
+/**
+ * Returns the DOI of a `doi.org` link, e.g. `10.1038/nphys1170`.
+ *
+ * @internal exported for testing
+ */
+export function parseDoi(url: URL): string | undefined {
+  if (!DOI_HOSTS.includes(url.hostname)) {
+    return undefined;
+  }
+  let doi: string;
+  try {
+    doi = decodeURIComponent(url.pathname.slice(1));
+  } catch {
+    return undefined;
+  }
+  return /^10\.\d{4,}\/\S+$/.test(doi) ? doi : undefined;
+}
+
+/**
+ * DOI links, resolved to citation data through DOI content negotiation
+ * (Crossref, DataCite and other registration agencies answer with
+ * CSL-JSON) instead of the publisher's landing page.
+ */
+export const doiProvider: LinkProvider = {
+  id: 'doi',
+  matches: (url) => parseDoi(url) !== undefined,
+  fromApi: async (url) => {
+    const doi = parseDoi(url);
+    if (!doi) {
+      return undefined;
+    }
+    const item = (await requestJson(`https://doi.org/${encodeURI(doi)}`, {
+      Accept: 'application/vnd.citationstyles.csl+json',
+    })) as CslItem | undefined;
+    return item ? citationResult({ ...item, DOI: item.DOI ?? doi }, 'DOI') : undefined;
+  },
+};
@@ -0,0 +1,16 @@
+import type { LinkStat } from '../metadata';
+
+/** Formats a count with a naively pluralized word, e.g. `1 point`, `12 comments`. */
+export function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? '' : 's'}`;
+}
+
+/** Formats a count the way Reddit and Hacker News do, e.g. `1.2k`. */
+export function compactCount(n: number): string {
+  return n >= 1000 ? `${(n / 1000).toFixed(1).replace(/\.0$/, '')}k` : String(n);
+}
+
+/** A pill count with its icon, e.g. `1.2k` with the tooltip "1234 points". */
+export function countStat(n: number, word: string, icon: string): LinkStat {
+  return { icon, value: compactCount(n), label: plural(n, word) };
+}
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { issueStatus, parseGithubUrl, setGithubToken } from './github';
+import { clearCache, fetchLinkMetadata } from '../metadata';
+import { htmlResponse, jsonResponse } from '../__mocks__/responses';
+
+import { requestUrl } from 'obsidian';
+const mockRequestUrl = vi.mocked(requestUrl);
+
+describe('parseGithubUrl', () => {
+  const parse = (url: string) => parseGithubUrl(new URL(url));
+
+  it('parses issues and pull requests', () => {
+    expect(parse('https://github.com/acme/widgets/issues/12')).toEqual({
+      kind: 'issue',
+      owner: 'acme',
+      repo: 'widgets',
+      number: '12',
+    });
+    expect(parse('https://github.com/acme/widgets/pull/34/files')).toMatchObject({
+      kind: 'issue',
+      number: '34',
+    });
+  });
+
+  it('parses commits, including commits inside a pull request', () => {
+    expect(parse('https://github.com/acme/widgets/commit/0123456789abcdef')).toMatchObject({
+      kind: 'commit',
+      sha: '0123456789abcdef',
+    });
+    expect(parse('https://github.com/acme/widgets/pull/34/commits/abcdef1')).toMatchObject({
+      kind: 'commit',
+      sha: 'abcdef1',
+    });
+  });
+
+  it('parses file links with a line range', () => {
+    expect(parse('https://github.com/acme/widgets/blob/main/src/my%20file.ts#L10-L20')).toEqual({
+      kind: 'blob',
+      owner: 'acme',
+      repo: 'widgets',
+      path: 'src/my file.ts',
+      lines: '10-20',
+    });
+    expect(parse('https://github.com/acme/widgets/blob/main/README.md#L3')).toMatchObject({
+      lines: '3',
+    });
+    expect(parse('https://github.com/acme/widgets/blob/main/README.md')).toMatchObject({
+      lines: undefined,
+    });
+  });
+
+  it('returns undefined for repositories and other pages', () => {
+    expect(parse('https://github.com/acme/widgets')).toBeUndefined();
+    expect(parse('https://github.com/acme/widgets/issues')).toBeUndefined();
+    expect(parse('https://github.com/acme/widgets/commit/not-a-sha')).toBeUndefined();
+    expect(parse('https://github.com/acme')).toBeUndefined();
+  });
+});
+
+describe('issueStatus', () => {
+  it('distinguishes open, completed and not planned issues', () => {
+    expect(issueStatus({ state: 'open' }).state).toBe('open');
+    expect(issueStatus({ state: 'closed', state_reason: 'completed' }).state).toBe('completed');
+    expect(issueStatus({ state: 'closed', state_reason: 'not_planned' }).state).toBe('not-planned');
+  });
+
+  it('distinguishes open, draft, merged and closed pull requests', () => {
+    const pr = { pull_request: { merged_at: null } };
+    expect(issueStatus({ ...pr, state: 'open' }).icon).toBe('git-pull-request');
+    expect(issueStatus({ ...pr, state: 'open', draft: true }).state).toBe('draft');
+    expect(issueStatus({ ...pr, state: 'closed' }).state).toBe('closed');
+    expect(
+      issueStatus({ state: 'closed', pull_request: { merged_at: '2024-01-01T00:00:00Z' } }).state,
+    ).toBe('merged');
+  });
+});
+
+describe('GitHub provider', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+  });
+
+  afterEach(() => {
+    setGithubToken('');
+  });
+
+  it('shows the issue reference, title, author and state', async () => {
+    mockRequestUrl.mockResolvedValue(
+      jsonResponse({
+        title: 'Crash on empty input',
+        state: 'open',
+        user: { login: 'octocat' },
+        created_at: '2024-05-01T12:00:00Z',
+      }),
+    );
+
+    const meta = await fetchLinkMetadata('https://github.com/acme/widgets/issues/12');
+    expect(meta.title).toBe('acme/widgets#12 Crash on empty input');
+    expect(meta.author).toBe('octocat');
+    expect(meta.status).toEqual({ state: 'open', icon: 'circle-dot', label: 'Open' });
+    expect(meta.favicon).toBe('https://github.com/favicon.ico');
+    expect(mockRequestUrl).toHaveBeenCalledWith(
+      expect.objectContaining({ url: 'https://api.github.com/repos/acme/widgets/issues/12' }),
+    );
+  });
+
+  it('shows merged pull requests', async () => {
+    mockRequestUrl.mockResolvedValue(
+      jsonResponse({
+        title: 'Add widgets',
+        state: 'closed',
+        user: { login: 'octocat' },
+        pull_request: { merged_at: '2024-05-02T12:00:00Z' },
+      }),
+    );
+
+    const meta = await fetchLinkMetadata('https://github.com/acme/widgets/pull/34');
+    expect(meta.title).toBe('acme/widgets#34 Add widgets');
+    expect(meta.status?.state).toBe('merged');
+    expect(meta.type).toBe('pull-request');
+  });
+
+  it('shows the short SHA and summary line of commits', async () => {
+    mockRequestUrl.mockResolvedValue(
+      jsonResponse({
+        author: null,
+        commit: {
+          message: 'Fix crash\n\nLonger explanation',
+          author: { name: 'Jane Doe', date: '2024-05-03T12:00:00Z' },
+        },
+      }),
+    );
+
+    const meta = await fetchLinkMetadata(
+      'https://github.com/acme/widgets/commit/0123456789abcdef0123456789abcdef01234567',
+    );
+    expect(meta.title).toBe('acme/widgets@0123456 Fix crash');
+    expect(meta.author).toBe('Jane Doe');
+    expect(meta.status).toBeUndefined();
+  });
+
+  it('shows the file path and line range of file links without a request', async () => {
+    const meta = await fetchLinkMetadata(
+      'https://github.com/acme/widgets/blob/main/src/index.ts#L5-L9',
+    );
+    expect(meta.title).toBe('src/index.ts:5-9');
+    expect(meta.siteName).toBe('acme/widgets');
+    expect(mockRequestUrl).not.toHaveBeenCalled();
+  });
+
+  it('sends the personal access token when set', async () => {
+    setGithubToken(' secret ');
+    mockRequestUrl.mockResolvedValue(jsonResponse({ title: 'Private issue', state: 'open' }));
+
+    await fetchLinkMetadata('https://github.com/acme/private/issues/1');
+    expect(mockRequestUrl).toHaveBeenCalledWith(
+      expect.objectContaining({
+        headers: expect.objectContaining({ Authorization: 'Bearer secret' }),
+      }),
+    );
+  });
+
+  it('falls back to the page title when the API is rate limited', async () => {
+    mockRequestUrl.mockImplementation(async ({ url }) =>
+      url.startsWith('https://api.github.com/')
+        ? jsonResponse({ message: 'API rate limit exceeded' }, 403)
+        : htmlResponse(
+            '<html><head><title>Crash on empty input · Issue #56 · acme/widgets · GitHub</title></head></html>',
+          ),
+    );
+
+    const meta = await fetchLinkMetadata('https://github.com/acme/widgets/issues/56');
+    expect(meta.title).toBe('acme/widgets#56 Crash on empty input');
+    expect(meta.status).toBeUndefined();
+  });
+});
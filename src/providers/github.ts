@@ -0,0 +1,200 @@
+import type { LinkStatus } from '../metadata';
+import { extractDocTitle, extractGithubTitle } from '../parsers/html';
+import { requestJson } from '../request';
+import { LinkProvider, ProviderResult } from './types';
+
+const API_BASE = 'https://api.github.com';
+
+/** Personal access token sent with API requests. Raises the rate limit and gives access to private repos. */
+let token = '';
+
+/** Updates the GitHub personal access token at runtime. Empty means unauthenticated requests. */
+export function setGithubToken(value: string): void {
+  token = value.trim();
+}
+
+/**
+ * A GitHub URL that points to something more specific than a repository.
+ *
+ * @internal exported for testing
+ */
+export type GithubRef =
+  | { kind: 'issue'; owner: string; repo: string; number: string }
+  | { kind: 'commit'; owner: string; repo: string; sha: string }
+  | { kind: 'blob'; owner: string; repo: string; path: string; lines?: string };
+
+/**
+ * Parses issue, pull request, commit and file (`blob`) URLs. Returns
+ * `undefined` for repository pages and anything else.
+ *
+ * @internal exported for testing
+ */
+export function parseGithubUrl(url: URL): GithubRef | undefined {
+  const [owner, repo, kind, ...rest] = url.pathname.split('/').filter(Boolean);
+  if (!owner || !repo) {
+    return undefined;
+  }
+
+  if ((kind === 'issues' || kind === 'pull') && /^\d+$/.test(rest[0] ?? '')) {
+    // Commits viewed inside a pull request: /pull/12/commits/<sha>
+    if (kind === 'pull' && rest[1] === 'commits' && /^[0-9a-f]{7,40}$/i.test(rest[2] ?? '')) {
+      return { kind: 'commit', owner, repo, sha: rest[2] };
+    }
+    return { kind: 'issue', owner, repo, number: rest[0] };
+  }
+  if (kind === 'commit' && /^[0-9a-f]{7,40}$/i.test(rest[0] ?? '')) {
+    return { kind: 'commit', owner, repo, sha: rest[0] };
+  }
+  if (kind === 'blob' && rest.length >= 2) {
+    const path = rest.slice(1).map(decodeURIComponent).join('/');
+    const match = /^#L(\d+)(?:-L(\d+))?$/.exec(url.hash);
+    const lines = match ? (match[2] ? `${match[1]}-${match[2]}` : match[1]) : undefined;
+    return { kind: 'blob', owner, repo, path, lines };
+  }
+  return undefined;
+}
+
+/** Pill title prefix identifying an issue (`owner/repo#12`) or commit (`owner/repo@abc1234`). */
+function refLabel(ref: GithubRef): string {
+  if (ref.kind === 'issue') {
+    return `${ref.owner}/${ref.repo}#${ref.number}`;
+  }
+  if (ref.kind === 'commit') {
+    return `${ref.owner}/${ref.repo}@${ref.sha.slice(0, 7)}`;
+  }
+  return `${ref.owner}/${ref.repo}`;
+}
+
+function apiHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {
+    Accept: 'application/vnd.github+json',
+    'X-GitHub-Api-Version': '2022-11-28',
+  };
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+  return headers;
+}
+
+/** The subset of the REST issue object used here. Pull requests are returned as issues too. */
+interface GithubIssue {
+  title?: string;
+  state?: string;
+  state_reason?: string | null;
+  draft?: boolean;
+  user?: { login?: string };
+  created_at?: string;
+  pull_request?: { merged_at?: string | null };
+}
+
+interface GithubCommit {
+  author?: { login?: string } | null;
+  commit?: { message?: string; author?: { name?: string; date?: string } };
+}
+
+/**
+ * Maps an issue or pull request to the state icons GitHub itself uses.
+ *
+ * @internal exported for testing
+ */
+export function issueStatus(issue: GithubIssue): LinkStatus {
+  const closed = issue.state === 'closed';
+  if (issue.pull_request) {
+    if (issue.pull_request.merged_at) {
+      return { state: 'merged', icon: 'git-merge', label: 'Merged' };
+    }
+    if (closed) {
+      return { state: 'closed', icon: 'git-pull-request-closed', label: 'Closed' };
+    }
+    if (issue.draft) {
+      return { state: 'draft', icon: 'git-pull-request-draft', label: 'Draft' };
+    }
+    return { state: 'open', icon: 'git-pull-request', label: 'Open' };
+  }
+  if (closed && issue.state_reason === 'not_planned') {
+    return { state: 'not-planned', icon: 'circle-slash', label: 'Closed as not planned' };
+  }
+  if (closed) {
+    return { state: 'completed', icon: 'circle-check', label: 'Closed' };
+  }
+  return { state: 'open', icon: 'circle-dot', label: 'Open' };
+}
+
+async function fetchIssue(
+  ref: Extract<GithubRef, { kind: 'issue' }>,
+): Promise<ProviderResult | undefined> {
+  const issue = (await requestJson(
+    `${API_BASE}/repos/${ref.owner}/${ref.repo}/issues/${ref.number}`,
+    apiHeaders(),
+  )) as GithubIssue | undefined;
+  if (!issue?.title) {
+    return undefined;
+  }
+  return {
+    title: `${refLabel(ref)} ${issue.title}`,
+    author: issue.user?.login ?? '',
+    siteName: 'GitHub',
+    type: issue.pull_request ? 'pull-request' : 'issue',
+    publishedTime: issue.created_at,
+    status: issueStatus(issue),
+  };
+}
+
+async function fetchCommit(
+  ref: Extract<GithubRef, { kind: 'commit' }>,
+): Promise<ProviderResult | undefined> {
+  const commit = (await requestJson(
+    `${API_BASE}/repos/${ref.owner}/${ref.repo}/commits/${ref.sha}`,
+    apiHeaders(),
+  )) as GithubCommit | undefined;
+  const summary = commit?.commit?.message?.split('\n')[0].trim();
+  if (!summary) {
+    return undefined;
+  }
+  return {
+    title: `${refLabel(ref)} ${summary}`,
+    author: commit?.author?.login ?? commit?.commit?.author?.name ?? '',
+    siteName: 'GitHub',
+    type: 'commit',
+    publishedTime: commit?.commit?.author?.date,
+  };
+}
+
+/**
+ * GitHub links: issues and pull requests with their state, commits with
+ * their short SHA and summary (both from the REST API), files with their
+ * path and line range, and repositories shortened to the repo name.
+ */
+export const githubProvider: LinkProvider = {
+  id: 'github',
+  matches: (url) => url.hostname === 'github.com' || url.hostname === 'www.github.com',
+  fromUrl: (url) => {
+    const ref = parseGithubUrl(url);
+    if (ref?.kind !== 'blob') {
+      return undefined;
+    }
+    const title = ref.lines ? `${ref.path}:${ref.lines}` : ref.path;
+    return { title, siteName: refLabel(ref) };
+  },
+  fromApi: async (url) => {
+    const ref = parseGithubUrl(url);
+    if (ref?.kind === 'issue') {
+      return fetchIssue(ref);
+    }
+    if (ref?.kind === 'commit') {
+      return fetchCommit(ref);
+    }
+    return undefined;
+  },
+  fromHtml: (doc, url) => {
+    // Reached for issues and commits only when the API failed, e.g. when rate limited
+    const ref = parseGithubUrl(url);
+    if (ref) {
+      // Page titles look like "Fix crash · Issue #12 · owner/repo · GitHub"
+      const summary = extractDocTitle(doc);
+      return summary ? { title: `${refLabel(ref)} ${summary}` } : undefined;
+    }
+    const title = extractGithubTitle(doc);
+    return title ? { title } : undefined;
+  },
+};
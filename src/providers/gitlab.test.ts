@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { gitlabStatus, parseGitlabUrl, setGitlabConfig } from './gitlab';
+import { clearCache, fetchLinkMetadata } from '../metadata';
+import { jsonResponse } from '../__mocks__/responses';
+
+import { requestUrl } from 'obsidian';
+const mockRequestUrl = vi.mocked(requestUrl);
+
+describe('parseGitlabUrl', () => {
+  const parse = (url: string) => parseGitlabUrl(new URL(url));
+
+  it('parses issues and merge requests in nested groups on gitlab.com', () => {
+    expect(parse('https://gitlab.com/acme/platform/api/-/issues/12')).toEqual({
+      baseUrl: 'https://gitlab.com',
+      kind: 'issue',
+      project: 'acme/platform/api',
+      iid: '12',
+    });
+    expect(parse('https://gitlab.com/acme/api/-/merge_requests/34/diffs')).toEqual({
+      baseUrl: 'https://gitlab.com',
+      kind: 'merge-request',
+      project: 'acme/api',
+      iid: '34',
+    });
+    expect(parse('https://gitlab.com/acme/api/-/work_items/5')).toMatchObject({ kind: 'issue' });
+  });
+
+  it('matches the configured instance as well as gitlab.com', () => {
+    setGitlabConfig({ baseUrl: 'https://git.example.com/', token: '' });
+    expect(parse('https://git.example.com/acme/api/-/issues/1')).toMatchObject({
+      baseUrl: 'https://git.example.com',
+      iid: '1',
+    });
+    expect(parse('https://gitlab.com/acme/api/-/issues/1')).toMatchObject({
+      baseUrl: 'https://gitlab.com',
+      iid: '1',
+    });
+    expect(parse('https://other.example.com/acme/api/-/issues/1')).toBeUndefined();
+    setGitlabConfig({ baseUrl: '', token: '' });
+  });
+
+  it('returns undefined for projects and lists', () => {
+    expect(parse('https://gitlab.com/acme/api')).toBeUndefined();
+    expect(parse('https://gitlab.com/acme/api/-/issues')).toBeUndefined();
+  });
+});
+
+describe('gitlabStatus', () => {
+  it('maps issue and merge request states', () => {
+    expect(gitlabStatus('issue', { state: 'opened' }).state).toBe('open');
+    expect(gitlabStatus('issue', { state: 'closed' }).state).toBe('completed');
+    expect(gitlabStatus('merge-request', { state: 'opened', draft: true }).state).toBe('draft');
+    expect(gitlabStatus('merge-request', { state: 'locked' }).state).toBe('open');
+    expect(gitlabStatus('merge-request', { state: 'closed' }).state).toBe('closed');
+  });
+});
+
+describe('GitLab provider', () => {
+  const ITEMS: Record<string, unknown> = {
+    '/api/v4/projects/acme%2Fplatform%2Fapi/issues/12': {
+      title: 'Rate limit webhook retries',
+      state: 'opened',
+      author: { name: 'Grace Hopper', username: 'grace' },
+      created_at: '2024-05-02T10:00:00.000Z',
+      references: { full: 'acme/platform/api#12' },
+    },
+    '/api/v4/projects/acme%2Fplatform%2Fapi/merge_requests/34': {
+      title: 'Add retry backoff',
+      state: 'merged',
+      draft: false,
+      author: { name: 'Grace Hopper', username: 'grace' },
+      created_at: '2024-05-03T10:00:00.000Z',
+      references: { full: 'acme/platform/api!34' },
+    },
+  };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+    mockRequestUrl.mockImplementation(async ({ url }) => {
+      const item = ITEMS[new URL(url).pathname];
+      return item ? jsonResponse(item) : jsonResponse({ message: '404 Not found' }, 404);
+    });
+    setGitlabConfig({ baseUrl: 'https://git.example.com', token: 'secret' });
+  });
+
+  afterEach(() => {
+    setGitlabConfig({ baseUrl: '', token: '' });
+  });
+
+  it('shows the reference, title and state of issues', async () => {
+    const meta = await fetchLinkMetadata('https://git.example.com/acme/platform/api/-/issues/12');
+    expect(meta.title).toBe('acme/platform/api#12 · Rate limit webhook retries');
+    expect(meta.author).toBe('Grace Hopper');
+    expect(meta.status).toEqual({ state: 'open', icon: 'circle-dot', label: 'Open' });
+    expect(mockRequestUrl).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: 'https://git.example.com/api/v4/projects/acme%2Fplatform%2Fapi/issues/12',
+        headers: expect.objectContaining({ 'PRIVATE-TOKEN': 'secret' }),
+      }),
+    );
+  });
+
+  it('shows merged merge requests', async () => {
+    const meta = await fetchLinkMetadata(
+      'https://git.example.com/acme/platform/api/-/merge_requests/34',
+    );
+    expect(meta.title).toBe('acme/platform/api!34 · Add retry backoff');
+    expect(meta.status?.state).toBe('merged');
+    expect(meta.type).toBe('merge-request');
+  });
+
+  it("resolves gitlab.com links without the instance's token", async () => {
+    const meta = await fetchLinkMetadata('https://gitlab.com/acme/platform/api/-/issues/12');
+    expect(meta.title).toBe('acme/platform/api#12 · Rate limit webhook retries');
+    const [[request]] = mockRequestUrl.mock.calls;
+    expect(request).toMatchObject({
+      url: 'https://gitlab.com/api/v4/projects/acme%2Fplatform%2Fapi/issues/12',
+    });
+    expect(request.headers).not.toHaveProperty('PRIVATE-TOKEN');
+  });
+
+  it('falls back to the reference instead of the login page', async () => {
+    const meta = await fetchLinkMetadata('https://git.example.com/acme/platform/api/-/issues/99');
+    expect(meta.title).toBe('acme/platform/api#99');
+    expect(meta.blocked).toBe(true);
+    expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+  });
+});
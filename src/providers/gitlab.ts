@@ -0,0 +1,141 @@
+import type { LinkStatus } from '../metadata';
+import { requestJson } from '../request';
+import { issueTitle, normalizeBaseUrl, pathUnderBase } from './tracker';
+import { LinkProvider, ProviderResult } from './types';
+
+/** A GitLab instance, as stored in the plugin settings. */
+export interface GitlabConfig {
+  /** Instance URL, e.g. `https://gitlab.com` or `https://gitlab.example.com`. */
+  baseUrl: string;
+  /** Personal access token with `read_api` scope. Empty means unauthenticated requests. */
+  token: string;
+}
+
+const DEFAULT_BASE_URL = 'https://gitlab.com';
+
+let config: GitlabConfig = { baseUrl: DEFAULT_BASE_URL, token: '' };
+
+/**
+ * Updates the GitLab instance at runtime. An empty base URL means
+ * gitlab.com, whose links are resolved whichever instance is set.
+ */
+export function setGitlabConfig(value: GitlabConfig): void {
+  config = {
+    baseUrl: normalizeBaseUrl(value.baseUrl) || DEFAULT_BASE_URL,
+    token: value.token.trim(),
+  };
+}
+
+/**
+ * An issue or merge request link. `project` is the full project path,
+ * including subgroups.
+ *
+ * @internal exported for testing
+ */
+export interface GitlabRef {
+  /** Instance the link belongs to: the configured one or gitlab.com. */
+  baseUrl: string;
+  kind: 'issue' | 'merge-request';
+  project: string;
+  iid: string;
+}
+
+/**
+ * Parses `/<group>/<project>/-/issues/<iid>` (and `work_items`) and
+ * `/-/merge_requests/<iid>` links on the configured instance and on
+ * gitlab.com.
+ *
+ * @internal exported for testing
+ */
+export function parseGitlabUrl(url: URL): GitlabRef | undefined {
+  for (const baseUrl of new Set([config.baseUrl, DEFAULT_BASE_URL])) {
+    const path = pathUnderBase(url, baseUrl);
+    const match = path
+      ? /^\/(.+?)\/-\/(issues|work_items|merge_requests)\/(\d+)(?:\/|$)/.exec(path)
+      : null;
+    if (match) {
+      const [, project, kind, iid] = match;
+      return { baseUrl, kind: kind === 'merge_requests' ? 'merge-request' : 'issue', project, iid };
+    }
+  }
+  return undefined;
+}
+
+/** Reference as GitLab writes it: `group/project#12` for issues, `group/project!34` for merge requests. */
+function refLabel(ref: GitlabRef): string {
+  return `${ref.project}${ref.kind === 'merge-request' ? '!' : '#'}${ref.iid}`;
+}
+
+/** The subset of the REST issue and merge request objects used here. */
+interface GitlabItem {
+  title?: string;
+  state?: string;
+  draft?: boolean;
+  author?: { name?: string; username?: string };
+  created_at?: string;
+  references?: { full?: string };
+}
+
+/**
+ * Maps an issue or merge request to the same state icons as GitHub
+ * links. Merge requests can also be `locked`, which GitLab shows as open.
+ *
+ * @internal exported for testing
+ */
+export function gitlabStatus(kind: GitlabRef['kind'], item: GitlabItem): LinkStatus {
+  if (kind === 'issue') {
+    return item.state === 'closed'
+      ? { state: 'completed', icon: 'circle-check', label: 'Closed' }
+      : { state: 'open', icon: 'circle-dot', label: 'Open' };
+  }
+  if (item.state === 'merged') {
+    return { state: 'merged', icon: 'git-merge', label: 'Merged' };
+  }
+  if (item.state === 'closed') {
+    return { state: 'closed', icon: 'git-pull-request-closed', label: 'Closed' };
+  }
+  if (item.draft) {
+    return { state: 'draft', icon: 'git-pull-request-draft', label: 'Draft' };
+  }
+  return { state: 'open', icon: 'git-pull-request', label: 'Open' };
+}
+
+async function fetchItem(ref: GitlabRef): Promise<ProviderResult | undefined> {
+  const endpoint = ref.kind === 'merge-request' ? 'merge_requests' : 'issues';
+  // The token belongs to the configured instance and is never sent to another one
+  const token = ref.baseUrl === config.baseUrl ? config.token : '';
+  const item = (await requestJson(
+    `${ref.baseUrl}/api/v4/projects/${encodeURIComponent(ref.project)}/${endpoint}/${ref.iid}`,
+    token ? { 'PRIVATE-TOKEN': token } : undefined,
+  )) as GitlabItem | undefined;
+  if (!item?.title) {
+    return undefined;
+  }
+  return {
+    title: issueTitle(item.references?.full ?? refLabel(ref), item.title),
+    author: item.author?.name ?? item.author?.username ?? '',
+    siteName: 'GitLab',
+    type: ref.kind,
+    publishedTime: item.created_at,
+    status: gitlabStatus(ref.kind, item),
+  };
+}
+
+/**
+ * GitLab issues and merge requests on gitlab.com and the instance
+ * configured in the settings: reference, title, author and state from
+ * the REST API. Falls back to the reference when the API is unavailable,
+ * since private projects otherwise show a login page. The fallback is
+ * marked `blocked` so it is retried soon.
+ */
+export const gitlabProvider: LinkProvider = {
+  id: 'gitlab',
+  matches: (url) => parseGitlabUrl(url) !== undefined,
+  fromApi: async (url) => {
+    const ref = parseGitlabUrl(url);
+    if (!ref) {
+      return undefined;
+    }
+    return (await fetchItem(ref)) ?? { title: refLabel(ref), siteName: 'GitLab', blocked: true };
+  },
+};
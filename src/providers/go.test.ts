@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseGoUrl } from './go';
+import { clearCache, fetchLinkMetadata } from '../metadata';
+import { htmlResponse, jsonResponse } from '../__mocks__/responses';
+
+import { requestUrl } from 'obsidian';
+const mockRequestUrl = vi.mocked(requestUrl);
+
+const PAGE = htmlResponse(
+  '<html><head><title>html package - golang.org/x/net/html - Go Packages</title><meta name="description" content="Package html implements an HTML5-compliant tokenizer and parser."></head></html>',
+);
+
+describe('parseGoUrl', () => {
+  const parse = (url: string) => parseGoUrl(new URL(url));
+
+  it('parses import paths, with and without a pinned version', () => {
+    expect(parse('https://pkg.go.dev/github.com/BurntSushi/toml')).toEqual({
+      path: 'github.com/BurntSushi/toml',
+      module: 'github.com/BurntSushi/toml',
+      version: undefined,
+    });
+    expect(parse('https://pkg.go.dev/golang.org/x/net@v0.24.0/html')).toEqual({
+      path: 'golang.org/x/net/html',
+      module: 'golang.org/x/net',
+      version: 'v0.24.0',
+    });
+    expect(parse('https://pkg.go.dev/net/http')?.path).toBe('net/http');
+  });
+
+  it("rejects pkg.go.dev's own pages", () => {
+    expect(parse('https://pkg.go.dev/search?q=toml')).toBeUndefined();
+    expect(parse('https://pkg.go.dev/')).toBeUndefined();
+  });
+});
+
+describe('Go provider', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+  });
+
+  it('shows the latest version from the module proxy and the synopsis', async () => {
+    mockRequestUrl.mockImplementation(async ({ url }) =>
+      url.startsWith('https://proxy.golang.org/') ? jsonResponse({ Version: 'v1.4.0' }) : PAGE,
+    );
+
+    const meta = await fetchLinkMetadata('https://pkg.go.dev/github.com/BurntSushi/toml');
+    expect(meta.title).toBe('github.com/BurntSushi/toml v1.4.0');
+    expect(meta.description).toBe(
+      'Package html implements an HTML5-compliant tokenizer and parser.',
+    );
+    expect(meta.favicon).toBe('https://pkg.go.dev/favicon.ico');
+    expect(mockRequestUrl).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: 'https://proxy.golang.org/github.com/!burnt!sushi/toml/@latest',
+      }),
+    );
+  });
+
+  it('shows the pinned version without asking the proxy', async () => {
+    mockRequestUrl.mockResolvedValue(PAGE);
+
+    const meta = await fetchLinkMetadata('https://pkg.go.dev/golang.org/x/net@v0.24.0/html');
+    expect(meta.title).toBe('golang.org/x/net/html v0.24.0');
+    expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+  });
+});
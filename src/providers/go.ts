@@ -0,0 +1,73 @@
+import { extractMetaDescription } from '../parsers/html';
+import { requestJson } from '../request';
+import { LinkProvider } from './types';
+
+/**
+ * A pkg.go.dev link: `path` is the package import path, `module` the
+ * module it belongs to when the URL pins a version (`module@version/pkg`).
+ *
+ * @internal exported for testing
+ */
+export interface GoPackageRef {
+  path: string;
+  module: string;
+  version?: string;
+}
+
+/**
+ * Parses `pkg.go.dev/<import path>` and `pkg.go.dev/<module>@<version>/<subpackage>` links.
+ * Without a pinned version the module is assumed to be the import path.
+ *
+ * @internal exported for testing
+ */
+export function parseGoUrl(url: URL): GoPackageRef | undefined {
+  if (url.hostname !== 'pkg.go.dev') {
+    return undefined;
+  }
+  const match = /^\/([^@]+?)(?:@([^/]+)(\/.*?)?)?\/?$/.exec(decodeURIComponent(url.pathname));
+  // pkg.go.dev's own pages
+  if (!match || /^(search|about|license-policy|badge)$/.test(match[1])) {
+    return undefined;
+  }
+  const module = match[1];
+  const sub = match[3]?.replace(/\/$/, '') ?? '';
+  return { path: module + sub, module, version: match[2] };
+}
+
+/**
+ * Escapes a module path for the module proxy: upper-case letters become
+ * `!` followed by the lower-case letter.
+ */
+function escapeModulePath(path: string): string {
+  return path.replace(/[A-Z]/g, (c) => `!${c.toLowerCase()}`);
+}
+
+/**
+ * pkg.go.dev pages: import path and version, with the package synopsis
+ * from the page. pkg.go.dev has no JSON API, so the latest version comes
+ * from the Go module proxy.
+ */
+export const goProvider: LinkProvider = {
+  id: 'go',
+  matches: (url) => parseGoUrl(url) !== undefined,
+  fromHtml: async (doc, url) => {
+    const ref = parseGoUrl(url);
+    if (!ref) {
+      return undefined;
+    }
+    let version = ref.version;
+    if (!version && ref.module.includes('.')) {
+      const latest = (await requestJson(
+        `https://proxy.golang.org/${escapeModulePath(ref.module)}/@latest`,
+      )) as { Version?: string } | undefined;
+      version = latest?.Version;
+    }
+    return {
+      title: version ? `${ref.path} ${version}` : ref.path,
+      favicon: 'https://pkg.go.dev/favicon.ico',
+      description: extractMetaDescription(doc),
+      siteName: 'Go Packages',
+      type: 'package',
+    };
+  },
+};
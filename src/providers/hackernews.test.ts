@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseHnItemId, submittedDomain } from './hackernews';
+import { clearCache, fetchLinkMetadata } from '../metadata';
+import { jsonResponse } from '../__mocks__/responses';
+
+import { requestUrl } from 'obsidian';
+const mockRequestUrl = vi.mocked(requestUrl);
+
+const ITEMS: Record<string, unknown> = {
+  '8863': {
+    type: 'story',
+    title: 'My YC app: Dropbox - Throw away your USB drive',
+    url: 'http://www.getdropbox.com/u/2/screencast.html',
+    by: 'dhouston',
+    score: 104,
+    descendants: 71,
+    time: 1175714200,
+  },
+  '9224': { type: 'comment', by: 'BrandonM', parent: 9001, time: 1175816820 },
+  '9001': { type: 'comment', by: 'someone', parent: 8863 },
+};
+
+describe('parseHnItemId', () => {
+  it('reads item IDs', () => {
+    expect(parseHnItemId(new URL('https://news.ycombinator.com/item?id=8863'))).toBe('8863');
+    expect(parseHnItemId(new URL('https://news.ycombinator.com/news'))).toBeUndefined();
+    expect(parseHnItemId(new URL('https://news.ycombinator.com/item?id=abc'))).toBeUndefined();
+  });
+});
+
+describe('submittedDomain', () => {
+  it('strips www. and handles missing URLs', () => {
+    expect(submittedDomain('https://www.example.com/a')).toBe('example.com');
+    expect(submittedDomain(undefined)).toBe('');
+  });
+});
+
+describe('Hacker News provider', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+    mockRequestUrl.mockImplementation(async ({ url }) => {
+      const id = /\/item\/(\d+)\.json$/.exec(url)?.[1] ?? '';
+      return jsonResponse(ITEMS[id] ?? null);
+    });
+  });
+
+  it('shows the story title, submitted domain, points and comments', async () => {
+    const meta = await fetchLinkMetadata('https://news.ycombinator.com/item?id=8863');
+    expect(meta.title).toBe('My YC app: Dropbox - Throw away your USB drive');
+    expect(meta.author).toBe('getdropbox.com');
+    expect(meta.authorUrl).toBe('http://www.getdropbox.com/u/2/screencast.html');
+    expect(meta.stats).toEqual([
+      { icon: 'arrow-big-up', value: '104', label: '104 points' },
+      { icon: 'message-square', value: '71', label: '71 comments' },
+    ]);
+    expect(mockRequestUrl).toHaveBeenCalledWith(
+      expect.objectContaining({ url: 'https://hacker-news.firebaseio.com/v0/item/8863.json' }),
+    );
+  });
+
+  it('shows the story a comment belongs to', async () => {
+    const meta = await fetchLinkMetadata('https://news.ycombinator.com/item?id=9224');
+    expect(meta.title).toBe('Comment on "My YC app: Dropbox - Throw away your USB drive"');
+    expect(meta.type).toBe('comment');
+  });
+});
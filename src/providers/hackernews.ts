@@ -0,0 +1,117 @@
+import { requestJson } from '../request';
+import { countStat } from './format';
+import { LinkProvider, ProviderResult } from './types';
+
+const API_BASE = 'https://hacker-news.firebaseio.com/v0';
+
+/** How many parents to follow from a comment to find its story. Deep threads get a generic title. */
+const MAX_PARENT_HOPS = 5;
+
+/**
+ * Returns the item ID of a `news.ycombinator.com/item?id=` link.
+ *
+ * @internal exported for testing
+ */
+export function parseHnItemId(url: URL): string | undefined {
+  if (url.hostname !== 'news.ycombinator.com' || url.pathname !== '/item') {
+    return undefined;
+  }
+  const id = url.searchParams.get('id');
+  return id && /^\d+$/.test(id) ? id : undefined;
+}
+
+/** The subset of a Firebase API item used here. */
+interface HnItem {
+  type?: string;
+  title?: string;
+  url?: string;
+  by?: string;
+  score?: number;
+  descendants?: number;
+  time?: number;
+  parent?: number;
+  dead?: boolean;
+  deleted?: boolean;
+}
+
+function fetchItem(id: string | number): Promise<HnItem | undefined> {
+  return requestJson(`${API_BASE}/item/${id}.json`) as Promise<HnItem | undefined>;
+}
+
+/**
+ * Returns the domain of a submitted URL without `www.`, shown as the
+ * pill's secondary text like HN's own "(example.com)".
+ *
+ * @internal exported for testing
+ */
+export function submittedDomain(url: string | undefined): string {
+  if (!url) {
+    return '';
+  }
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+async function findStory(comment: HnItem): Promise<HnItem | undefined> {
+  let item: HnItem | undefined = comment;
+  for (let hop = 0; hop < MAX_PARENT_HOPS && item?.parent; hop++) {
+    item = await fetchItem(item.parent);
+    if (item?.title) {
+      return item;
+    }
+  }
+  return undefined;
+}
+
+async function resolveItem(id: string): Promise<ProviderResult | undefined> {
+  const item = await fetchItem(id);
+  if (!item || item.deleted) {
+    return undefined;
+  }
+  const published = item.time ? new Date(item.time * 1000).toISOString() : undefined;
+
+  if (item.type === 'comment') {
+    const story = await findStory(item);
+    return {
+      title: story?.title ? `Comment on "${story.title}"` : `Comment by ${item.by ?? 'unknown'}`,
+      author: submittedDomain(story?.url),
+      authorUrl: story?.url,
+      siteName: 'Hacker News',
+      type: 'comment',
+      publishedTime: published,
+    };
+  }
+
+  if (!item.title) {
+    return undefined;
+  }
+  return {
+    title: item.title,
+    author: submittedDomain(item.url),
+    authorUrl: item.url,
+    stats: [
+      countStat(item.score ?? 0, 'point', 'arrow-big-up'),
+      countStat(item.descendants ?? 0, 'comment', 'message-square'),
+    ],
+    siteName: 'Hacker News',
+    type: 'story',
+    publishedTime: published,
+  };
+}
+
+/**
+ * Hacker News items from the Firebase API: story title with points and
+ * comment count, and the submitted domain as secondary text linking to
+ * the submitted page. Comment links show the story they belong to.
+ */
+export const hackerNewsProvider: LinkProvider = {
+  id: 'hackernews',
+  matches: (url) => parseHnItemId(url) !== undefined,
+  fromApi: async (url) => {
+    const id = parseHnItemId(url);
+    return id ? resolveItem(id) : undefined;
+  },
+};
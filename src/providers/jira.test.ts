@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { parseJiraKey, setJiraConfig } from './jira';
+import { clearCache, fetchLinkMetadata } from '../metadata';
+import { jsonResponse } from '../__mocks__/responses';
+
+import { requestUrl } from 'obsidian';
+const mockRequestUrl = vi.mocked(requestUrl);
+
+describe('parseJiraKey', () => {
+  beforeAll(() => {
+    setJiraConfig({ baseUrl: 'https://jira.example.com/jira/', email: '', token: '' });
+  });
+
+  afterAll(() => {
+    setJiraConfig({ baseUrl: '', email: '', token: '' });
+  });
+
+  const parse = (url: string) => parseJiraKey(new URL(url));
+
+  it('reads the key from browse links under the configured base URL', () => {
+    expect(parse('https://jira.example.com/jira/browse/PROJ-123')).toBe('PROJ-123');
+    expect(parse('https://jira.example.com/jira/browse/AB_2-9/')).toBe('AB_2-9');
+  });
+
+  it('reads the key of the issue opened on a board', () => {
+    expect(
+      parse(
+        'https://jira.example.com/jira/secure/RapidBoard.jspa?rapidView=4&selectedIssue=PROJ-5',
+      ),
+    ).toBe('PROJ-5');
+  });
+
+  it('ignores other sites, paths and malformed keys', () => {
+    expect(parse('https://other.example.com/jira/browse/PROJ-123')).toBeUndefined();
+    expect(parse('https://jira.example.com/browse/PROJ-123')).toBeUndefined();
+    expect(parse('https://jira.example.com/jira/browse/proj-123')).toBeUndefined();
+    expect(parse('https://jira.example.com/jira/projects/PROJ')).toBeUndefined();
+  });
+
+  it('matches nothing without a base URL', () => {
+    setJiraConfig({ baseUrl: '', email: '', token: '' });
+    expect(parse('https://jira.example.com/jira/browse/PROJ-123')).toBeUndefined();
+    setJiraConfig({ baseUrl: 'https://jira.example.com/jira/', email: '', token: '' });
+  });
+});
+
+describe('Jira provider', () => {
+  const ISSUE = {
+    key: 'PROJ-123',
+    fields: {
+      summary: 'Checkout fails for saved cards',
+      status: { name: 'In Review', statusCategory: { key: 'indeterminate' } },
+      reporter: { displayName: 'Ada Lovelace' },
+      project: { name: 'Payments' },
+      created: '2024-05-01T09:30:00.000+0000',
+    },
+  };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+    mockRequestUrl.mockResolvedValue(jsonResponse(ISSUE));
+  });
+
+  afterEach(() => {
+    setJiraConfig({ baseUrl: '', email: '', token: '' });
+  });
+
+  it('shows the key, summary, reporter and status', async () => {
+    setJiraConfig({ baseUrl: 'https://jira.example.com', email: '', token: 'secret' });
+
+    const meta = await fetchLinkMetadata('https://jira.example.com/browse/PROJ-123');
+    expect(meta.title).toBe('PROJ-123 · Checkout fails for saved cards');
+    expect(meta.author).toBe('Ada Lovelace');
+    expect(meta.siteName).toBe('Payments');
+    expect(meta.description).toBeUndefined();
+    expect(meta.status).toEqual({
+      state: 'in-progress',
+      icon: 'circle-ellipsis',
+      label: 'In Review',
+    });
+    expect(mockRequestUrl).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: expect.stringMatching(
+          /^https:\/\/jira\.example\.com\/rest\/api\/2\/issue\/PROJ-123\?/,
+        ),
+        headers: expect.objectContaining({ Authorization: 'Bearer secret' }),
+      }),
+    );
+  });
+
+  it('sends Jira Cloud credentials as basic auth', async () => {
+    setJiraConfig({
+      baseUrl: 'https://jira.example.com',
+      email: 'ada@example.com',
+      token: 'secret',
+    });
+
+    await fetchLinkMetadata('https://jira.example.com/browse/PROJ-123');
+    expect(mockRequestUrl).toHaveBeenCalledWith(
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          Authorization: `Basic ${btoa('ada@example.com:secret')}`,
+        }),
+      }),
+    );
+  });
+
+  it('encodes non-Latin-1 credentials as UTF-8', async () => {
+    setJiraConfig({
+      baseUrl: 'https://jira.example.com',
+      email: 'zoë@example.com',
+      token: 'sécret€',
+    });
+
+    await fetchLinkMetadata('https://jira.example.com/browse/PROJ-123');
+    const [[request]] = mockRequestUrl.mock.calls;
+    const encoded = (request.headers?.Authorization ?? '').replace(/^Basic /, '');
+    const bytes = Uint8Array.from(atob(encoded), (c) => c.charCodeAt(0));
+    expect(new TextDecoder().decode(bytes)).toBe('zoë@example.com:sécret€');
+  });
+
+  it('falls back to the issue key instead of the login page', async () => {
+    setJiraConfig({ baseUrl: 'https://jira.example.com', email: '', token: 'wrong' });
+    mockRequestUrl.mockResolvedValue(jsonResponse({ message: 'Unauthorized' }, 401));
+
+    const meta = await fetchLinkMetadata('https://jira.example.com/browse/PROJ-404');
+    expect(meta.title).toBe('PROJ-404');
+    expect(meta.status).toBeUndefined();
+    expect(meta.blocked).toBe(true);
+    expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+  });
+});
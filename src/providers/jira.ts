@@ -0,0 +1,122 @@
+import { requestJson } from '../request';
+import {
+  issueTitle,
+  normalizeBaseUrl,
+  pathUnderBase,
+  WorkflowStage,
+  workflowStatus,
+} from './tracker';
+import { LinkProvider, ProviderResult } from './types';
+
+/** A Jira instance, as stored in the plugin settings. */
+export interface JiraConfig {
+  /** Instance URL, e.g. `https://acme.atlassian.net` or `https://jira.example.com`. */
+  baseUrl: string;
+  /** Account email for Jira Cloud API tokens. Empty sends the token as a Data Center personal access token. */
+  email: string;
+  token: string;
+}
+
+let config: JiraConfig = { baseUrl: '', email: '', token: '' };
+
+/** Updates the Jira instance at runtime. An empty base URL disables the provider. */
+export function setJiraConfig(value: JiraConfig): void {
+  config = {
+    baseUrl: normalizeBaseUrl(value.baseUrl),
+    email: value.email.trim(),
+    token: value.token.trim(),
+  };
+}
+
+const KEY_RE = /^[A-Z][A-Z0-9_]*-\d+$/;
+
+/**
+ * Reads the issue key from `/browse/KEY-123` links on the configured
+ * instance, and from board links that open an issue with
+ * `?selectedIssue=KEY-123`.
+ *
+ * @internal exported for testing
+ */
+export function parseJiraKey(url: URL): string | undefined {
+  const path = pathUnderBase(url, config.baseUrl);
+  if (path === undefined) {
+    return undefined;
+  }
+  const browse = /^\/browse\/([^/]+)\/?$/.exec(path)?.[1];
+  const key = browse ?? url.searchParams.get('selectedIssue') ?? '';
+  return KEY_RE.test(key) ? key : undefined;
+}
+
+/** Base64 of the UTF-8 bytes, as `btoa` alone throws on characters outside Latin-1. */
+function base64(text: string): string {
+  return btoa(String.fromCharCode(...new TextEncoder().encode(text)));
+}
+
+function apiHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { Accept: 'application/json' };
+  if (config.token) {
+    headers.Authorization = config.email
+      ? `Basic ${base64(`${config.email}:${config.token}`)}`
+      : `Bearer ${config.token}`;
+  }
+  return headers;
+}
+
+/** The subset of the REST issue object used here. */
+interface JiraIssue {
+  key?: string;
+  fields?: {
+    summary?: string;
+    status?: { name?: string; statusCategory?: { key?: string } };
+    reporter?: { displayName?: string } | null;
+    project?: { name?: string };
+    created?: string;
+  };
+}
+
+/** Jira's status categories: `new` (To Do), `indeterminate` (In Progress) and `done`. */
+const CATEGORY_STAGES: Record<string, WorkflowStage> = {
+  new: 'todo',
+  indeterminate: 'in-progress',
+  done: 'done',
+};
+
+async function fetchIssue(key: string): Promise<ProviderResult | undefined> {
+  const issue = (await requestJson(
+    `${config.baseUrl}/rest/api/2/issue/${encodeURIComponent(key)}?fields=summary,status,reporter,project,created`,
+    apiHeaders(),
+  )) as JiraIssue | undefined;
+  const fields = issue?.fields;
+  if (!fields?.summary) {
+    return undefined;
+  }
+  const status = fields.status?.name;
+  const stage = CATEGORY_STAGES[fields.status?.statusCategory?.key ?? ''] ?? 'todo';
+  return {
+    title: issueTitle(issue?.key ?? key, fields.summary),
+    author: fields.reporter?.displayName ?? '',
+    siteName: fields.project?.name ?? 'Jira',
+    type: 'issue',
+    publishedTime: fields.created,
+    status: status ? workflowStatus(stage, status) : undefined,
+  };
+}
+
+/**
+ * Jira issues on the instance configured in the settings: key, summary,
+ * reporter and workflow status from the REST API. Falls back to the
+ * issue key when the API is unavailable, since unauthenticated requests
+ * usually get a login page. The fallback is marked `blocked` so it is
+ * retried soon, e.g. once an expired token is replaced.
+ */
+export const jiraProvider: LinkProvider = {
+  id: 'jira',
+  matches: (url) => parseJiraKey(url) !== undefined,
+  fromApi: async (url) => {
+    const key = parseJiraKey(url);
+    if (!key) {
+      return undefined;
+    }
+    return (await fetchIssue(key)) ?? { title: key, siteName: 'Jira', blocked: true };
+  },
+};
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { linearFallbackTitle, parseLinearUrl, setLinearConfig } from './linear';
+import { clearCache, fetchLinkMetadata } from '../metadata';
+import { jsonResponse } from '../__mocks__/responses';
+
+import { requestUrl } from 'obsidian';
+const mockRequestUrl = vi.mocked(requestUrl);
+
+describe('parseLinearUrl', () => {
+  const parse = (url: string) => parseLinearUrl(new URL(url));
+
+  it('parses issue links with and without a slug', () => {
+    expect(parse('https://linear.app/acme/issue/ENG-42/flaky-login-test')).toEqual({
+      key: 'ENG-42',
+      slug: 'flaky-login-test',
+    });
+    expect(parse('https://linear.app/acme/issue/eng-42')).toEqual({ key: 'ENG-42' });
+  });
+
+  it('returns undefined for other pages', () => {
+    expect(parse('https://linear.app/acme/team/ENG/active')).toBeUndefined();
+    expect(parse('https://example.com/acme/issue/ENG-42')).toBeUndefined();
+  });
+});
+
+describe('linearFallbackTitle', () => {
+  it('turns the slug into a summary', () => {
+    expect(linearFallbackTitle({ key: 'ENG-42', slug: 'flaky-login-test' })).toBe(
+      'ENG-42 · Flaky login test',
+    );
+    expect(linearFallbackTitle({ key: 'ENG-42' })).toBe('ENG-42');
+  });
+});
+
+describe('Linear provider', () => {
+  const ISSUE = {
+    identifier: 'ENG-42',
+    title: 'Flaky login test on CI',
+    createdAt: '2024-05-04T08:00:00.000Z',
+    state: { name: 'Todo', type: 'unstarted' },
+    creator: { name: 'Alan Turing' },
+    team: { name: 'Engineering' },
+  };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+    mockRequestUrl.mockImplementation(async ({ body }) => {
+      const { variables } = JSON.parse(body as string) as { variables: { id: string } };
+      return jsonResponse(
+        variables.id === 'ENG-42'
+          ? { data: { issue: ISSUE } }
+          : { data: null, errors: [{ message: 'Entity not found' }] },
+      );
+    });
+    setLinearConfig({ apiUrl: '', token: 'lin_api_secret' });
+  });
+
+  afterEach(() => {
+    setLinearConfig({ apiUrl: '', token: '' });
+  });
+
+  it('queries the issue by key', async () => {
+    const meta = await fetchLinkMetadata('https://linear.app/acme/issue/ENG-42/flaky-login-test');
+    expect(meta.title).toBe('ENG-42 · Flaky login test on CI');
+    expect(meta.author).toBe('Alan Turing');
+    expect(meta.siteName).toBe('Engineering');
+    expect(meta.status).toEqual({ state: 'todo', icon: 'circle', label: 'Todo' });
+    expect(mockRequestUrl).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: 'https://api.linear.app/graphql',
+        method: 'POST',
+        headers: expect.objectContaining({ Authorization: 'lin_api_secret' }),
+      }),
+    );
+  });
+
+  it('falls back to the URL for unknown issues', async () => {
+    const meta = await fetchLinkMetadata('https://linear.app/acme/issue/ENG-404/missing-issue');
+    expect(meta.title).toBe('ENG-404 · Missing issue');
+    expect(meta.blocked).toBe(true);
+  });
+
+  it('does not call the API without a key', async () => {
+    setLinearConfig({ apiUrl: '', token: '' });
+
+    const meta = await fetchLinkMetadata('https://linear.app/acme/issue/ENG-43/another-issue');
+    expect(meta.title).toBe('ENG-43 · Another issue');
+    expect(mockRequestUrl).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,141 @@
+import { postJson } from '../request';
+import { issueTitle, normalizeBaseUrl, WorkflowStage, workflowStatus } from './tracker';
+import { LinkProvider, ProviderResult } from './types';
+
+/** Linear API access, as stored in the plugin settings. */
+export interface LinearConfig {
+  /** GraphQL endpoint. Only changed for testing against a stand-in server. */
+  apiUrl: string;
+  /** Personal API key. Linear has no unauthenticated API, so without a key links fall back to the URL. */
+  token: string;
+}
+
+const DEFAULT_API_URL = 'https://api.linear.app/graphql';
+
+let config: LinearConfig = { apiUrl: DEFAULT_API_URL, token: '' };
+
+/** Updates the Linear API access at runtime. An empty API URL means Linear's own. */
+export function setLinearConfig(value: LinearConfig): void {
+  config = {
+    apiUrl: normalizeBaseUrl(value.apiUrl) || DEFAULT_API_URL,
+    token: value.token.trim(),
+  };
+}
+
+/**
+ * An issue key and the title slug that follows it in links.
+ *
+ * @internal exported for testing
+ */
+export interface LinearRef {
+  key: string;
+  slug?: string;
+}
+
+/**
+ * Parses `linear.app/<workspace>/issue/<KEY-123>/<slug>` links.
+ *
+ * @internal exported for testing
+ */
+export function parseLinearUrl(url: URL): LinearRef | undefined {
+  if (url.hostname !== 'linear.app') {
+    return undefined;
+  }
+  const match = /^\/[^/]+\/issue\/([A-Z][A-Z0-9]*-\d+)(?:\/([^/]+))?/i.exec(url.pathname);
+  return match ? { key: match[1].toUpperCase(), slug: match[2] } : undefined;
+}
+
+/**
+ * Title derived from the URL alone: the key plus the slug Linear appends
+ * to issue links, `ENG-123 · Fix login crash`.
+ *
+ * @internal exported for testing
+ */
+export function linearFallbackTitle(ref: LinearRef): string {
+  if (!ref.slug) {
+    return ref.key;
+  }
+  const words = ref.slug.replace(/-/g, ' ').trim();
+  return issueTitle(ref.key, words.charAt(0).toUpperCase() + words.slice(1));
+}
+
+const ISSUE_QUERY = `query Issue($id: String!) {
+  issue(id: $id) {
+    identifier
+    title
+    createdAt
+    state { name type }
+    creator { name }
+    team { name }
+  }
+}`;
+
+/** The subset of the GraphQL issue object used here. */
+interface LinearIssue {
+  identifier?: string;
+  title?: string;
+  createdAt?: string;
+  state?: { name?: string; type?: string };
+  creator?: { name?: string } | null;
+  team?: { name?: string };
+}
+
+/** Linear's workflow state types. */
+const STATE_STAGES: Record<string, WorkflowStage> = {
+  triage: 'todo',
+  backlog: 'backlog',
+  unstarted: 'todo',
+  started: 'in-progress',
+  completed: 'done',
+  canceled: 'canceled',
+};
+
+async function fetchIssue(key: string): Promise<ProviderResult | undefined> {
+  if (!config.token) {
+    return undefined;
+  }
+  const json = (await postJson(
+    config.apiUrl,
+    { query: ISSUE_QUERY, variables: { id: key } },
+    { Authorization: config.token },
+  )) as { data?: { issue?: LinearIssue | null } } | undefined;
+  const issue = json?.data?.issue;
+  if (!issue?.title) {
+    return undefined;
+  }
+  const state = issue.state?.name;
+  return {
+    title: issueTitle(issue.identifier ?? key, issue.title),
+    author: issue.creator?.name ?? '',
+    siteName: issue.team?.name ?? 'Linear',
+    type: 'issue',
+    publishedTime: issue.createdAt,
+    status: state
+      ? workflowStatus(STATE_STAGES[issue.state?.type ?? ''] ?? 'todo', state)
+      : undefined,
+  };
+}
+
+/**
+ * Linear issues: identifier, title, creator and workflow state from the
+ * GraphQL API, using the API key from the settings. Falls back to the
+ * key and URL slug without a key or when the API is unavailable, marked
+ * `blocked` so it is retried soon.
+ */
+export const linearProvider: LinkProvider = {
+  id: 'linear',
+  matches: (url) => parseLinearUrl(url) !== undefined,
+  fromApi: async (url) => {
+    const ref = parseLinearUrl(url);
+    if (!ref) {
+      return undefined;
+    }
+    return (
+      (await fetchIssue(ref.key)) ?? {
+        title: linearFallbackTitle(ref),
+        siteName: 'Linear',
+        blocked: true,
+      }
+    );
+  },
+};
@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseLobstersId } from './lobsters';
+import { clearCache, fetchLinkMetadata } from '../metadata';
+import { jsonResponse } from '../__mocks__/responses';
+
+import { requestUrl } from 'obsidian';
+const mockRequestUrl = vi.mocked(requestUrl);
+
+describe('parseLobstersId', () => {
+  it('reads story short IDs', () => {
+    expect(parseLobstersId(new URL('https://lobste.rs/s/abc123/a_story'))).toBe('abc123');
+    expect(parseLobstersId(new URL('https://lobste.rs/s/abc123'))).toBe('abc123');
+    expect(parseLobstersId(new URL('https://lobste.rs/t/rust'))).toBeUndefined();
+  });
+});
+
+describe('Lobsters provider', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+  });
+
+  it('shows the story title, submitted domain, points, comments and tags', async () => {
+    mockRequestUrl.mockResolvedValue(
+      jsonResponse({
+        title: 'Writing a compiler in Rust',
+        url: 'https://blog.example.org/compiler',
+        score: 42,
+        comment_count: 1,
+        submitter_user: { username: 'alice' },
+        tags: ['rust', 'compilers'],
+        created_at: '2024-03-01T10:00:00.000-06:00',
+      }),
+    );
+
+    const meta = await fetchLinkMetadata('https://lobste.rs/s/xyz789/writing_compiler_rust');
+    expect(meta.title).toBe('Writing a compiler in Rust');
+    expect(meta.author).toBe('blog.example.org');
+    expect(meta.authorUrl).toBe('https://blog.example.org/compiler');
+    expect(meta.stats?.map(({ label }) => label)).toEqual(['42 points', '1 comment']);
+    expect(meta.tags).toEqual(['rust', 'compilers']);
+    expect(meta.description).toBeUndefined();
+    expect(mockRequestUrl).toHaveBeenCalledWith(
+      expect.objectContaining({ url: 'https://lobste.rs/s/xyz789.json' }),
+    );
+  });
+});
@@ -0,0 +1,61 @@
+import { requestJson } from '../request';
+import { countStat } from './format';
+import { submittedDomain } from './hackernews';
+import { LinkProvider } from './types';
+
+/**
+ * Returns the short ID of a `lobste.rs/s/<id>/<slug>` story link.
+ *
+ * @internal exported for testing
+ */
+export function parseLobstersId(url: URL): string | undefined {
+  if (url.hostname !== 'lobste.rs') {
+    return undefined;
+  }
+  return /^\/s\/([a-z0-9]+)(?:\/|$)/.exec(url.pathname)?.[1];
+}
+
+/** The subset of a Lobsters story used here. */
+interface LobstersStory {
+  title?: string;
+  url?: string;
+  score?: number;
+  comment_count?: number;
+  tags?: string[];
+  created_at?: string;
+}
+
+/**
+ * Lobsters stories from the `.json` endpoint: title with points and
+ * comment count, the submitted domain as secondary text linking to the
+ * submitted page, and tags in the hover card.
+ */
+export const lobstersProvider: LinkProvider = {
+  id: 'lobsters',
+  matches: (url) => parseLobstersId(url) !== undefined,
+  fromApi: async (url) => {
+    const id = parseLobstersId(url);
+    if (!id) {
+      return undefined;
+    }
+    const story = (await requestJson(`https://lobste.rs/s/${id}.json`)) as
+      | LobstersStory
+      | undefined;
+    if (!story?.title) {
+      return undefined;
+    }
+    return {
+      title: story.title,
+      author: submittedDomain(story.url),
+      authorUrl: story.url,
+      stats: [
+        countStat(story.score ?? 0, 'point', 'arrow-big-up'),
+        countStat(story.comment_count ?? 0, 'comment', 'message-square'),
+      ],
+      tags: story.tags,
+      siteName: 'Lobsters',
+      type: 'story',
+      publishedTime: story.created_at,
+    };
+  },
+};
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseMastodonStatusId } from './mastodon';
+import { clearCache, fetchLinkMetadata } from '../metadata';
+import { jsonResponse } from '../__mocks__/responses';
+
+import { requestUrl } from 'obsidian';
+const mockRequestUrl = vi.mocked(requestUrl);
+
+describe('parseMastodonStatusId', () => {
+  const parse = (url: string) => parseMastodonStatusId(new URL(url));
+
+  it('reads status IDs on any server', () => {
+    expect(parse('https://mastodon.social/@Gargron/109323405329350012')).toBe('109323405329350012');
+    expect(parse('https://fosstodon.org/@bob@hachyderm.io/111222333444555')).toBe(
+      '111222333444555',
+    );
+    expect(parse('https://mastodon.social/users/Gargron/statuses/109323405329350012')).toBe(
+      '109323405329350012',
+    );
+  });
+
+  it('rejects profiles and article slugs', () => {
+    expect(parse('https://mastodon.social/@Gargron')).toBeUndefined();
+    expect(parse('https://medium.com/@someone/my-post-4f2a9c1b2d3e')).toBeUndefined();
+  });
+});
+
+describe('Mastodon provider', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+  });
+
+  it('shows the handle, first words and avatar from the instance API', async () => {
+    mockRequestUrl.mockResolvedValue(
+      jsonResponse({
+        content: '<p>Mastodon 4.0 is out! Edit posts, follow hashtags and much more.</p>',
+        spoiler_text: '',
+        created_at: '2022-11-14T12:00:00.000Z',
+        account: { acct: 'Gargron', avatar_static: 'https://files.example/avatar.png' },
+      }),
+    );
+
+    const meta = await fetchLinkMetadata('https://mastodon.social/@Gargron/109323405329350012');
+    expect(meta.title).toBe('@Gargron: Mastodon 4.0 is out! Edit posts, follow hashtags…');
+    expect(meta.favicon).toBe('https://files.example/avatar.png');
+    expect(meta.description).toBe(
+      'Mastodon 4.0 is out! Edit posts, follow hashtags and much more.',
+    );
+    expect(mockRequestUrl).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: 'https://mastodon.social/api/v1/statuses/109323405329350012',
+      }),
+    );
+  });
+
+  it('shows the content warning instead of the text', async () => {
+    mockRequestUrl.mockResolvedValue(
+      jsonResponse({
+        content: '<p>Spoilers for the finale</p>',
+        spoiler_text: 'TV spoilers',
+        account: { acct: 'bob@hachyderm.io' },
+      }),
+    );
+
+    const meta = await fetchLinkMetadata('https://fosstodon.org/@bob@hachyderm.io/111222333444556');
+    expect(meta.title).toBe('@bob@hachyderm.io: CW: TV spoilers');
+    expect(meta.description).toBeUndefined();
+  });
+});
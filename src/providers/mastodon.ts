@@ -0,0 +1,58 @@
+import { requestJson } from '../request';
+import { formatPostTitle, htmlToText } from './social';
+import { LinkProvider } from './types';
+
+/** `/@user/<id>`, `/@user@remote.host/<id>` and `/users/user/statuses/<id>`. */
+const STATUS_PATH_RE = /^\/(?:@[^/]+|users\/[^/]+\/statuses)\/(\d{6,})\/?$/;
+
+/**
+ * Returns the status ID of a Mastodon-style status URL. The host isn't
+ * checked, since any server can run Mastodon; servers without the API
+ * fall back to the generic HTML path.
+ *
+ * @internal exported for testing
+ */
+export function parseMastodonStatusId(url: URL): string | undefined {
+  return STATUS_PATH_RE.exec(url.pathname)?.[1];
+}
+
+/** The subset of the Mastodon status entity used here. */
+interface MastodonStatus {
+  content?: string;
+  spoiler_text?: string;
+  created_at?: string;
+  account?: { acct?: string; avatar_static?: string; avatar?: string };
+}
+
+/**
+ * Mastodon and compatible servers (Pleroma, Akkoma, GoToSocial…):
+ * status text and author from the instance's public statuses API.
+ * Posts with a content warning show the warning instead of the text.
+ */
+export const mastodonProvider: LinkProvider = {
+  id: 'mastodon',
+  matches: (url) => parseMastodonStatusId(url) !== undefined,
+  fromApi: async (url) => {
+    const id = parseMastodonStatusId(url);
+    if (!id) {
+      return undefined;
+    }
+    const status = (await requestJson(`${url.origin}/api/v1/statuses/${id}`)) as
+      | MastodonStatus
+      | undefined;
+    const handle = status?.account?.acct;
+    if (!handle) {
+      return undefined;
+    }
+    const text = htmlToText(status.content ?? '');
+    const warning = status.spoiler_text?.trim();
+    return {
+      title: formatPostTitle(handle, warning ? `CW: ${warning}` : text),
+      favicon: status.account?.avatar_static || status.account?.avatar || undefined,
+      description: warning ? undefined : text || undefined,
+      siteName: url.hostname,
+      type: 'post',
+      publishedTime: status.created_at,
+    };
+  },
+};
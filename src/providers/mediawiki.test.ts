@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { parseWikiLink, setMediawikiSites } from './mediawiki';
+import { clearCache, fetchLinkMetadata } from '../metadata';
+import { htmlResponse, jsonResponse } from '../__mocks__/responses';
+
+import { requestUrl } from 'obsidian';
+const mockRequestUrl = vi.mocked(requestUrl);
+
+const ARCH_WIKI = {
+  articleUrl: 'https://wiki.archlinux.org/title/',
+  apiUrl: 'https://wiki.archlinux.org/api.php',
+};
+
+describe('parseWikiLink', () => {
+  const parse = (url: string) => parseWikiLink(new URL(url));
+
+  afterEach(() => {
+    setMediawikiSites([]);
+  });
+
+  it('parses Wikipedia articles on the language subdomain', () => {
+    expect(parse('https://de.wikipedia.org/wiki/Stra%C3%9Fenbahn')).toEqual({
+      title: 'Straßenbahn',
+      section: undefined,
+      summaryUrl: 'https://de.wikipedia.org/api/rest_v1/page/summary/Stra%C3%9Fenbahn',
+      siteName: 'Wikipedia',
+    });
+  });
+
+  it('keeps parentheses and maps mobile hosts to the desktop API', () => {
+    expect(parse('https://en.m.wikipedia.org/wiki/Mercury_(planet)')?.summaryUrl).toBe(
+      'https://en.wikipedia.org/api/rest_v1/page/summary/Mercury_(planet)',
+    );
+  });
+
+  it('reads section anchors and index.php links', () => {
+    expect(parse('https://en.wikipedia.org/wiki/Tram#Early_history')).toMatchObject({
+      title: 'Tram',
+      section: 'Early history',
+    });
+    expect(parse('https://en.wikipedia.org/w/index.php?title=Tram&oldid=1')?.title).toBe('Tram');
+  });
+
+  it('covers other Wikimedia projects', () => {
+    expect(parse('https://en.wiktionary.org/wiki/tram')?.siteName).toBe('Wiktionary');
+  });
+
+  it('parses articles on configured self-hosted wikis', () => {
+    setMediawikiSites([ARCH_WIKI, { articleUrl: ' ', apiUrl: '' }]);
+    expect(parse('https://wiki.archlinux.org/title/Systemd/Timers#Examples')).toEqual({
+      title: 'Systemd/Timers',
+      section: 'Examples',
+      apiUrl: 'https://wiki.archlinux.org/api.php',
+      siteName: 'wiki.archlinux.org',
+    });
+  });
+
+  it('returns undefined for other pages', () => {
+    expect(parse('https://en.wikipedia.org/')).toBeUndefined();
+    expect(parse('https://wiki.archlinux.org/title/Systemd')).toBeUndefined();
+    expect(parse('https://example.com/wiki/Tram')).toBeUndefined();
+  });
+});
+
+describe('MediaWiki provider', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+  });
+
+  afterEach(() => {
+    setMediawikiSites([]);
+  });
+
+  it('uses the Wikipedia page summary', async () => {
+    mockRequestUrl.mockResolvedValue(
+      jsonResponse({
+        type: 'standard',
+        title: 'Mercury (planet)',
+        titles: { normalized: 'Mercury (planet)' },
+        description: 'Smallest and closest planet to the Sun',
+        extract: 'Mercury is the first planet from the Sun…',
+        thumbnail: { source: 'https://upload.wikimedia.org/mercury.png' },
+      }),
+    );
+
+    const meta = await fetchLinkMetadata('https://en.wikipedia.org/wiki/Mercury_(planet)');
+    expect(meta.title).toBe('Mercury (planet)');
+    expect(meta.description).toBe('Smallest and closest planet to the Sun');
+    expect(meta.image).toBe('https://upload.wikimedia.org/mercury.png');
+    expect(meta.siteName).toBe('Wikipedia');
+    expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows the section after the article title', async () => {
+    mockRequestUrl.mockResolvedValue(jsonResponse({ title: 'Tram' }));
+
+    const meta = await fetchLinkMetadata('https://fr.wikipedia.org/wiki/Tram#Histoire');
+    expect(meta.title).toBe('Tram › Histoire');
+    expect(mockRequestUrl).toHaveBeenCalledWith(
+      expect.objectContaining({ url: 'https://fr.wikipedia.org/api/rest_v1/page/summary/Tram' }),
+    );
+  });
+
+  it('queries the Action API of self-hosted wikis', async () => {
+    setMediawikiSites([ARCH_WIKI]);
+    mockRequestUrl.mockResolvedValue(
+      jsonResponse({
+        query: { pages: [{ title: 'Systemd/Timers', extract: 'Timers are systemd unit files.' }] },
+      }),
+    );
+
+    const meta = await fetchLinkMetadata('https://wiki.archlinux.org/title/systemd/Timers');
+    expect(meta.title).toBe('Systemd/Timers');
+    expect(meta.description).toBe('Timers are systemd unit files.');
+    const url = new URL(mockRequestUrl.mock.calls[0][0].url);
+    expect(url.origin + url.pathname).toBe('https://wiki.archlinux.org/api.php');
+    expect(url.searchParams.get('titles')).toBe('systemd/Timers');
+  });
+
+  it('falls back to the page when the API fails', async () => {
+    mockRequestUrl.mockImplementation(async ({ url }) =>
+      url.includes('/api/rest_v1/')
+        ? jsonResponse({}, 404)
+        : htmlResponse('<html><head><title>Tramway - Wikipedia</title></head></html>'),
+    );
+
+    const meta = await fetchLinkMetadata('https://en.wikipedia.org/wiki/Tramway');
+    expect(meta.title).toBe('Tramway - Wikipedia');
+  });
+});
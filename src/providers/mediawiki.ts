@@ -0,0 +1,181 @@
+import { requestJson } from '../request';
+import { LinkProvider, ProviderResult } from './types';
+
+/** A self-hosted MediaWiki instance, as stored in the plugin settings. */
+export interface MediawikiSiteConfig {
+  /** URL that article titles are appended to, e.g. `https://wiki.archlinux.org/title/`. */
+  articleUrl: string;
+  /** The wiki's `api.php`, e.g. `https://wiki.archlinux.org/api.php`. */
+  apiUrl: string;
+}
+
+/** Wikimedia projects that serve the REST page summary endpoint on language subdomains. */
+const WIKIMEDIA_HOST_RE =
+  /^([a-z0-9-]+)\.(?:m\.)?(wikipedia|wiktionary|wikiquote|wikibooks|wikisource|wikinews|wikiversity|wikivoyage)\.org$/i;
+
+let sites: MediawikiSiteConfig[] = [];
+
+/** Replaces the self-hosted wikis. Entries with an empty article or API URL are ignored. */
+export function setMediawikiSites(configs: MediawikiSiteConfig[]): void {
+  sites = configs
+    .map(({ articleUrl, apiUrl }) => ({ articleUrl: articleUrl.trim(), apiUrl: apiUrl.trim() }))
+    .filter(({ articleUrl, apiUrl }) => articleUrl && apiUrl);
+}
+
+/**
+ * A wiki article link. `title` and `section` are decoded, with
+ * underscores turned into spaces.
+ *
+ * @internal exported for testing
+ */
+export interface WikiPage {
+  title: string;
+  section?: string;
+  /** REST summary endpoint for Wikimedia projects, `undefined` for self-hosted wikis. */
+  summaryUrl?: string;
+  /** Action API of a self-hosted wiki. */
+  apiUrl?: string;
+  siteName: string;
+}
+
+function decodeTitle(raw: string): string {
+  try {
+    return decodeURIComponent(raw).replace(/_/g, ' ').trim();
+  } catch {
+    return raw.replace(/_/g, ' ').trim();
+  }
+}
+
+/** Reads the article title from `/wiki/Title` or `/w/index.php?title=Title`. */
+function wikimediaTitle(url: URL): string | undefined {
+  if (url.pathname.startsWith('/wiki/')) {
+    return url.pathname.slice('/wiki/'.length);
+  }
+  if (url.pathname === '/w/index.php') {
+    return url.searchParams.get('title') ?? undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Parses a Wikimedia project article URL (any language, desktop or
+ * mobile) or an article on a configured self-hosted wiki. Returns
+ * `undefined` for anything else.
+ *
+ * @internal exported for testing
+ */
+export function parseWikiLink(url: URL): WikiPage | undefined {
+  const section = url.hash ? decodeTitle(url.hash.slice(1)) || undefined : undefined;
+
+  const wikimedia = WIKIMEDIA_HOST_RE.exec(url.hostname);
+  if (wikimedia) {
+    const raw = wikimediaTitle(url);
+    const title = raw ? decodeTitle(raw) : '';
+    if (!title) {
+      return undefined;
+    }
+    const [, language, project] = wikimedia;
+    const key = encodeURIComponent(title.replace(/ /g, '_'));
+    return {
+      title,
+      section,
+      summaryUrl: `https://${language}.${project}.org/api/rest_v1/page/summary/${key}`,
+      siteName: project.charAt(0).toUpperCase() + project.slice(1),
+    };
+  }
+
+  const href = url.href.replace(/#.*$/, '');
+  const site = sites.find(({ articleUrl }) => href.startsWith(articleUrl));
+  if (site) {
+    const title = decodeTitle(href.slice(site.articleUrl.length).replace(/\?.*$/, ''));
+    return title ? { title, section, apiUrl: site.apiUrl, siteName: url.hostname } : undefined;
+  }
+  return undefined;
+}
+
+/** The subset of the REST page summary used here. */
+interface PageSummary {
+  type?: string;
+  title?: string;
+  titles?: { normalized?: string };
+  description?: string;
+  extract?: string;
+  thumbnail?: { source?: string };
+}
+
+/** The subset of an Action API `query` page used here (`formatversion=2`). */
+interface QueryPage {
+  title?: string;
+  missing?: boolean;
+  description?: string;
+  extract?: string;
+  thumbnail?: { source?: string };
+}
+
+async function fetchSummary(summaryUrl: string): Promise<PageSummary | undefined> {
+  const summary = (await requestJson(summaryUrl)) as PageSummary | undefined;
+  return summary?.title ? summary : undefined;
+}
+
+/**
+ * Queries a self-hosted wiki's Action API. `extracts`, `pageimages` and
+ * `description` depend on extensions; wikis without them still return
+ * the canonical title.
+ */
+async function fetchQueryPage(apiUrl: string, title: string): Promise<PageSummary | undefined> {
+  const params = new URLSearchParams({
+    action: 'query',
+    format: 'json',
+    formatversion: '2',
+    redirects: '1',
+    prop: 'description|extracts|pageimages',
+    exintro: '1',
+    explaintext: '1',
+    exsentences: '2',
+    piprop: 'thumbnail',
+    pithumbsize: '320',
+    titles: title,
+  });
+  const json = (await requestJson(`${apiUrl}?${params}`)) as
+    | { query?: { pages?: QueryPage[] } }
+    | undefined;
+  const page = json?.query?.pages?.[0];
+  if (!page?.title || page.missing) {
+    return undefined;
+  }
+  return page;
+}
+
+/**
+ * Wikipedia and other Wikimedia projects (through the REST page summary
+ * endpoint) plus self-hosted wikis configured in the settings (through
+ * the Action API): canonical title, short description and thumbnail,
+ * without downloading the article. Section anchors are shown as
+ * `Article › Section`.
+ */
+export const mediawikiProvider: LinkProvider = {
+  id: 'mediawiki',
+  matches: (url) => parseWikiLink(url) !== undefined,
+  fromApi: async (url): Promise<ProviderResult | undefined> => {
+    const page = parseWikiLink(url);
+    if (!page) {
+      return undefined;
+    }
+    const summary = page.summaryUrl
+      ? await fetchSummary(page.summaryUrl)
+      : page.apiUrl
+        ? await fetchQueryPage(page.apiUrl, page.title)
+        : undefined;
+    if (!summary) {
+      return undefined;
+    }
+    const title = summary.titles?.normalized ?? summary.title?.replace(/_/g, ' ') ?? page.title;
+    return {
+      title: page.section ? `${title} › ${page.section}` : title,
+      description: summary.description?.trim() || summary.extract?.trim() || undefined,
+      image: summary.thumbnail?.source,
+      siteName: page.siteName,
+      type: 'article',
+    };
+  },
+};
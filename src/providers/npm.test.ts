@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseNpmUrl } from './npm';
+import { clearCache, fetchLinkMetadata } from '../metadata';
+import { jsonResponse } from '../__mocks__/responses';
+
+import { requestUrl } from 'obsidian';
+const mockRequestUrl = vi.mocked(requestUrl);
+
+describe('parseNpmUrl', () => {
+  const parse = (url: string) => parseNpmUrl(new URL(url));
+
+  it('parses plain, scoped and version-pinned package links', () => {
+    expect(parse('https://www.npmjs.com/package/react')).toEqual({ name: 'react' });
+    expect(parse('https://www.npmjs.com/package/@types/node')).toEqual({ name: '@types/node' });
+    expect(parse('https://www.npmjs.com/package/react/v/18.2.0')).toEqual({
+      name: 'react',
+      version: '18.2.0',
+    });
+  });
+
+  it('rejects other pages', () => {
+    expect(parse('https://www.npmjs.com/search?q=react')).toBeUndefined();
+    expect(parse('https://www.npmjs.com/~someone')).toBeUndefined();
+  });
+});
+
+describe('npm provider', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+    mockRequestUrl.mockImplementation(async ({ url }) =>
+      jsonResponse({
+        name: '@types/node',
+        version: url.endsWith('/latest') ? '20.12.7' : '18.19.0',
+        description: 'TypeScript definitions for node',
+      }),
+    );
+  });
+
+  it('shows the latest version and description', async () => {
+    const meta = await fetchLinkMetadata('https://www.npmjs.com/package/@types/node');
+    expect(meta.title).toBe('@types/node 20.12.7');
+    expect(meta.description).toBe('TypeScript definitions for node');
+    expect(meta.favicon).toBe('https://www.npmjs.com/favicon.ico');
+    expect(mockRequestUrl).toHaveBeenCalledWith(
+      expect.objectContaining({ url: 'https://registry.npmjs.org/@types%2Fnode/latest' }),
+    );
+  });
+
+  it('shows the pinned version', async () => {
+    const meta = await fetchLinkMetadata('https://www.npmjs.com/package/@types/node/v/18.19.0');
+    expect(meta.title).toBe('@types/node 18.19.0');
+  });
+});
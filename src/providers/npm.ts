@@ -0,0 +1,57 @@
+import { requestJson } from '../request';
+import { LinkProvider } from './types';
+
+const NPM_HOSTS = ['www.npmjs.com', 'npmjs.com'];
+
+/**
+ * A package page link. `version` is set for version-pinned URLs.
+ *
+ * @internal exported for testing
+ */
+export interface PackageRef {
+  name: string;
+  version?: string;
+}
+
+/**
+ * Parses `/package/<name>` and `/package/<name>/v/<version>` links,
+ * including scoped packages.
+ *
+ * @internal exported for testing
+ */
+export function parseNpmUrl(url: URL): PackageRef | undefined {
+  if (!NPM_HOSTS.includes(url.hostname)) {
+    return undefined;
+  }
+  const match = /^\/package\/((?:@[^/]+\/)?[^/@]+)(?:\/v\/([^/]+))?\/?$/.exec(
+    decodeURIComponent(url.pathname),
+  );
+  return match ? { name: match[1], version: match[2] } : undefined;
+}
+
+/** npm package pages: name, version and description from the npm registry. */
+export const npmProvider: LinkProvider = {
+  id: 'npm',
+  matches: (url) => parseNpmUrl(url) !== undefined,
+  fromApi: async (url) => {
+    const ref = parseNpmUrl(url);
+    if (!ref) {
+      return undefined;
+    }
+    // The version manifest is small; the full packument can be megabytes
+    const name = ref.name.replace('/', '%2F');
+    const manifest = (await requestJson(
+      `https://registry.npmjs.org/${name}/${encodeURIComponent(ref.version ?? 'latest')}`,
+    )) as { name?: string; version?: string; description?: string } | undefined;
+    if (!manifest?.version) {
+      return undefined;
+    }
+    return {
+      title: `${manifest.name ?? ref.name} ${manifest.version}`,
+      favicon: 'https://www.npmjs.com/favicon.ico',
+      description: manifest.description?.trim() || undefined,
+      siteName: 'npm',
+      type: 'package',
+    };
+  },
+};
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { fetchOembed } from './oembed';
+import { jsonResponse } from '../__mocks__/responses';
+
+import { requestUrl } from 'obsidian';
+const mockRequestUrl = vi.mocked(requestUrl);
+
+describe('fetchOembed', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('returns title and author for a YouTube watch URL', async () => {
+    mockRequestUrl.mockResolvedValue(
+      jsonResponse({ title: 'My Video Title', author_name: 'Channel Name' }),
+    );
+
+    const result = await fetchOembed('https://www.youtube.com/watch?v=abc123');
+    expect(result).toEqual({ title: 'My Video Title', author: 'Channel Name' });
+    expect(mockRequestUrl).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: expect.stringContaining('youtube.com/oembed'),
+      }),
+    );
+  });
+
+  it('returns empty author when author_name is missing', async () => {
+    mockRequestUrl.mockResolvedValue(jsonResponse({ title: 'No Author Video' }));
+
+    const result = await fetchOembed('https://www.youtube.com/watch?v=abc123');
+    expect(result).toEqual({ title: 'No Author Video', author: '' });
+  });
+
+  it('returns title and author for a youtu.be short URL', async () => {
+    mockRequestUrl.mockResolvedValue(
+      jsonResponse({ title: 'Short URL Video', author_name: 'Short Channel' }),
+    );
+
+    const result = await fetchOembed('https://youtu.be/abc123');
+    expect(result).toEqual({
+      title: 'Short URL Video',
+      author: 'Short Channel',
+    });
+  });
+
+  it('returns title and author for a Vimeo URL', async () => {
+    mockRequestUrl.mockResolvedValue(
+      jsonResponse({ title: 'Vimeo Video', author_name: 'Vimeo Creator' }),
+    );
+
+    const result = await fetchOembed('https://vimeo.com/123456');
+    expect(result).toEqual({ title: 'Vimeo Video', author: 'Vimeo Creator' });
+  });
+
+  it('returns undefined for non-oEmbed URLs', async () => {
+    const result = await fetchOembed('https://github.com');
+    expect(result).toBeUndefined();
+    expect(mockRequestUrl).not.toHaveBeenCalled();
+  });
+
+  it('returns undefined when oEmbed request fails', async () => {
+    mockRequestUrl.mockRejectedValue(new Error('Network error'));
+
+    const result = await fetchOembed('https://www.youtube.com/watch?v=abc123');
+    expect(result).toBeUndefined();
+  });
+});
@@ -0,0 +1,57 @@
+import { requestJson } from '../request';
+import { findOembedRequestUrl } from '../oembed';
+import { extractOembedDiscoveryUrl } from '../parsers/html';
+import { LinkProvider } from './types';
+
+/**
+ * Requests an oEmbed endpoint and returns its title and author.
+ * Returns `undefined` if the request fails or the response has no title.
+ */
+async function requestOembed(
+  requestUrlString: string,
+): Promise<{ title: string; author: string } | undefined> {
+  const json = (await requestJson(requestUrlString)) as
+    | { title?: unknown; author_name?: unknown }
+    | undefined;
+  const title = typeof json?.title === 'string' ? json.title.trim() : '';
+  if (!title) {
+    return undefined;
+  }
+  const author = typeof json?.author_name === 'string' ? json.author_name.trim() : '';
+  return { title, author };
+}
+
+/**
+ * Attempts to fetch a title via oEmbed for sites in the provider registry
+ * (built-in or user-configured, see {@link setOembedProviders}).
+ * Returns `undefined` if the URL isn't oEmbed-eligible or the request fails.
+ *
+ * @internal exported for testing
+ */
+export async function fetchOembed(
+  url: string,
+): Promise<{ title: string; author: string } | undefined> {
+  const endpoint = findOembedRequestUrl(url);
+  return endpoint ? requestOembed(endpoint) : undefined;
+}
+
+/** Sites in the oEmbed provider registry, resolved without downloading their (heavy) HTML. */
+export const oembedProvider: LinkProvider = {
+  id: 'oembed',
+  matches: (url) => findOembedRequestUrl(url.href) !== undefined,
+  fromApi: (url) => fetchOembed(url.href),
+};
+
+/**
+ * Pages that advertise an oEmbed endpoint (e.g. every WordPress site)
+ * give a clean title there. Matches every URL, so it only runs when no
+ * more specific provider found a title.
+ */
+export const oembedDiscoveryProvider: LinkProvider = {
+  id: 'oembed-discovery',
+  matches: () => true,
+  fromHtml: (doc, url) => {
+    const endpoint = extractOembedDiscoveryUrl(doc, url.href);
+    return endpoint ? requestOembed(endpoint) : undefined;
+  },
+};
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parsePubmedId, pubmedToCsl } from './pubmed';
+import { clearCache, fetchLinkMetadata } from '../metadata';
+import { jsonResponse } from '../__mocks__/responses';
+
+import { requestUrl } from 'obsidian';
+const mockRequestUrl = vi.mocked(requestUrl);
+
+const SUMMARY = {
+  title: 'Structure of the SARS-CoV-2 spike glycoprotein.',
+  authors: [
+    { name: 'Walls AC', authtype: 'Author' },
+    { name: 'Park YJ', authtype: 'Author' },
+    { name: 'Seattle Structural Genomics', authtype: 'CollectiveName' },
+  ],
+  pubdate: '2020 Apr 16',
+  fulljournalname: 'Cell',
+  source: 'Cell',
+  volume: '181',
+  issue: '2',
+  pages: '281-292.e6',
+  articleids: [
+    { idtype: 'pubmed', value: '32155444' },
+    { idtype: 'doi', value: '10.1016/j.cell.2020.02.058' },
+  ],
+};
+
+describe('parsePubmedId', () => {
+  it('reads PMIDs from current and legacy links', () => {
+    expect(parsePubmedId(new URL('https://pubmed.ncbi.nlm.nih.gov/32155444/'))).toBe('32155444');
+    expect(parsePubmedId(new URL('https://www.ncbi.nlm.nih.gov/pubmed/32155444'))).toBe('32155444');
+  });
+
+  it('rejects searches and other NCBI pages', () => {
+    expect(parsePubmedId(new URL('https://pubmed.ncbi.nlm.nih.gov/?term=spike'))).toBeUndefined();
+    expect(parsePubmedId(new URL('https://www.ncbi.nlm.nih.gov/pmc/articles/1'))).toBeUndefined();
+  });
+});
+
+describe('pubmedToCsl', () => {
+  it('converts the summary to CSL-JSON', () => {
+    expect(pubmedToCsl('32155444', SUMMARY)).toMatchObject({
+      title: 'Structure of the SARS-CoV-2 spike glycoprotein',
+      author: [
+        { family: 'Walls', given: 'AC' },
+        { family: 'Park', given: 'YJ' },
+      ],
+      issued: { 'date-parts': [[2020, 4, 16]] },
+      'container-title': 'Cell',
+      page: '281-292.e6',
+      DOI: '10.1016/j.cell.2020.02.058',
+      PMID: '32155444',
+    });
+  });
+});
+
+describe('PubMed provider', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+  });
+
+  it('shows the citation title from E-utilities', async () => {
+    mockRequestUrl.mockResolvedValue(
+      jsonResponse({ result: { uids: ['32155444'], '32155444': SUMMARY } }),
+    );
+
+    const meta = await fetchLinkMetadata('https://pubmed.ncbi.nlm.nih.gov/32155444/');
+    expect(meta.title).toBe('Walls et al. (2020) Structure of the SARS-CoV-2 spike glycoprotein');
+    expect(meta.siteName).toBe('Cell');
+    expect(meta.publishedTime).toBe('2020-04-16');
+    expect(meta.csl?.PMID).toBe('32155444');
+  });
+});
@@ -0,0 +1,108 @@
+import { citationResult, CslItem, CslName } from '../csl';
+import { requestJson } from '../request';
+import { LinkProvider } from './types';
+
+const ESUMMARY_URL = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esummary.fcgi';
+
+/**
+ * Returns the PubMed ID (PMID) of a PubMed article link.
+ *
+ * @internal exported for testing
+ */
+export function parsePubmedId(url: URL): string | undefined {
+  const match =
+    url.hostname === 'pubmed.ncbi.nlm.nih.gov'
+      ? /^\/(\d+)\/?$/.exec(url.pathname)
+      : url.hostname === 'www.ncbi.nlm.nih.gov' || url.hostname === 'ncbi.nlm.nih.gov'
+        ? /^\/pubmed\/(\d+)\/?$/.exec(url.pathname)
+        : null;
+  return match?.[1];
+}
+
+/** The subset of an E-utilities `esummary` document used here. */
+interface PubmedSummary {
+  title?: string;
+  authors?: { name?: string; authtype?: string }[];
+  pubdate?: string;
+  fulljournalname?: string;
+  source?: string;
+  volume?: string;
+  issue?: string;
+  pages?: string;
+  articleids?: { idtype?: string; value?: string }[];
+}
+
+/** Splits "Smith JA" into family name and initials at the last space. */
+function splitName(name: string): CslName {
+  const space = name.lastIndexOf(' ');
+  return space > 0
+    ? { family: name.slice(0, space), given: name.slice(space + 1) }
+    : { literal: name };
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/** Parses PubMed dates like `2020 Jan 5`, `2020 Jan` or `2020`. */
+function parsePubdate(pubdate: string): number[] | undefined {
+  const [year, month, day] = pubdate.split(/\s+/);
+  if (!/^\d{4}$/.test(year ?? '')) {
+    return undefined;
+  }
+  const parts = [Number(year)];
+  const monthIndex = MONTHS.indexOf(month?.slice(0, 3) ?? '');
+  if (monthIndex >= 0) {
+    parts.push(monthIndex + 1);
+    if (/^\d{1,2}$/.test(day ?? '')) {
+      parts.push(Number(day));
+    }
+  }
+  return parts;
+}
+
+/**
+ * Converts an E-utilities `esummary` document to CSL-JSON.
+ *
+ * @internal exported for testing
+ */
+export function pubmedToCsl(pmid: string, summary: PubmedSummary): CslItem | undefined {
+  const title = summary.title?.replace(/\.$/, '').trim();
+  if (!title) {
+    return undefined;
+  }
+  const parts = summary.pubdate ? parsePubdate(summary.pubdate) : undefined;
+  const doi = summary.articleids?.find(({ idtype }) => idtype === 'doi')?.value;
+  return {
+    type: 'article-journal',
+    id: `PMID:${pmid}`,
+    title,
+    author: (summary.authors ?? [])
+      .filter(({ name, authtype }) => name && (!authtype || authtype === 'Author'))
+      .map(({ name }) => splitName(name ?? '')),
+    issued: parts ? { 'date-parts': [parts] } : undefined,
+    'container-title': summary.fulljournalname || summary.source,
+    volume: summary.volume || undefined,
+    issue: summary.issue || undefined,
+    page: summary.pages || undefined,
+    PMID: pmid,
+    DOI: doi,
+    URL: `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`,
+  };
+}
+
+/** PubMed links, resolved through NCBI E-utilities instead of the article page. */
+export const pubmedProvider: LinkProvider = {
+  id: 'pubmed',
+  matches: (url) => parsePubmedId(url) !== undefined,
+  fromApi: async (url) => {
+    const pmid = parsePubmedId(url);
+    if (!pmid) {
+      return undefined;
+    }
+    const json = (await requestJson(`${ESUMMARY_URL}?db=pubmed&retmode=json&id=${pmid}`)) as
+      | { result?: Record<string, PubmedSummary> }
+      | undefined;
+    const summary = json?.result?.[pmid];
+    const item = summary ? pubmedToCsl(pmid, summary) : undefined;
+    return item ? citationResult(item, 'PubMed') : undefined;
+  },
+};
@@ -0,0 +1,44 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parsePypiUrl } from './pypi';
+import { clearCache, fetchLinkMetadata } from '../metadata';
+import { jsonResponse } from '../__mocks__/responses';
+
+import { requestUrl } from 'obsidian';
+const mockRequestUrl = vi.mocked(requestUrl);
+
+describe('parsePypiUrl', () => {
+  it('parses project and version-pinned links', () => {
+    expect(parsePypiUrl(new URL('https://pypi.org/project/requests/'))).toEqual({
+      name: 'requests',
+      version: undefined,
+    });
+    expect(parsePypiUrl(new URL('https://pypi.org/project/requests/2.31.0/'))).toEqual({
+      name: 'requests',
+      version: '2.31.0',
+    });
+    expect(parsePypiUrl(new URL('https://pypi.org/search/?q=requests'))).toBeUndefined();
+  });
+});
+
+describe('PyPI provider', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+  });
+
+  it('shows the version and summary from the JSON API', async () => {
+    mockRequestUrl.mockResolvedValue(
+      jsonResponse({
+        info: { name: 'requests', version: '2.31.0', summary: 'Python HTTP for Humans.' },
+      }),
+    );
+
+    const meta = await fetchLinkMetadata('https://pypi.org/project/requests/2.31.0/');
+    expect(meta.title).toBe('requests 2.31.0');
+    expect(meta.description).toBe('Python HTTP for Humans.');
+    expect(meta.siteName).toBe('PyPI');
+    expect(mockRequestUrl).toHaveBeenCalledWith(
+      expect.objectContaining({ url: 'https://pypi.org/pypi/requests/2.31.0/json' }),
+    );
+  });
+});
@@ -0,0 +1,43 @@
+import { requestJson } from '../request';
+import { PackageRef } from './npm';
+import { LinkProvider } from './types';
+
+/**
+ * Parses `/project/<name>/` and `/project/<name>/<version>/` links.
+ *
+ * @internal exported for testing
+ */
+export function parsePypiUrl(url: URL): PackageRef | undefined {
+  if (url.hostname !== 'pypi.org' && url.hostname !== 'www.pypi.org') {
+    return undefined;
+  }
+  const match = /^\/project\/([^/]+)(?:\/([^/]+))?\/?$/.exec(url.pathname);
+  return match ? { name: match[1], version: match[2] } : undefined;
+}
+
+/** PyPI project pages: name, version and summary from the PyPI JSON API. */
+export const pypiProvider: LinkProvider = {
+  id: 'pypi',
+  matches: (url) => parsePypiUrl(url) !== undefined,
+  fromApi: async (url) => {
+    const ref = parsePypiUrl(url);
+    if (!ref) {
+      return undefined;
+    }
+    const path = ref.version ? `${ref.name}/${ref.version}` : ref.name;
+    const json = (await requestJson(`https://pypi.org/pypi/${path}/json`)) as
+      | { info?: { name?: string; version?: string; summary?: string } }
+      | undefined;
+    const info = json?.info;
+    if (!info?.version) {
+      return undefined;
+    }
+    return {
+      title: `${info.name ?? ref.name} ${info.version}`,
+      favicon: 'https://pypi.org/favicon.ico',
+      description: info.summary?.trim() || undefined,
+      siteName: 'PyPI',
+      type: 'package',
+    };
+  },
+};
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseRedditPermalink } from './reddit';
+import { clearCache, fetchLinkMetadata } from '../metadata';
+import { jsonResponse } from '../__mocks__/responses';
+
+import { requestUrl } from 'obsidian';
+const mockRequestUrl = vi.mocked(requestUrl);
+
+function listing(data: Record<string, unknown>) {
+  return { data: { children: [{ data }] } };
+}
+
+const POST = {
+  title: 'Why is my TS build slow? (tsc 5.4, monorepo)',
+  subreddit_name_prefixed: 'r/typescript',
+  author: 'alice',
+  score: 1234,
+  num_comments: 56,
+  created_utc: 1714564800,
+};
+
+describe('parseRedditPermalink', () => {
+  const parse = (url: string) => parseRedditPermalink(new URL(url));
+
+  it('parses post and comment permalinks', () => {
+    expect(parse('https://www.reddit.com/r/typescript/comments/abc123/why_is_my_build/')).toEqual({
+      postId: 'abc123',
+      commentId: undefined,
+    });
+    expect(parse('https://old.reddit.com/r/typescript/comments/abc123/why/def456/')).toEqual({
+      postId: 'abc123',
+      commentId: 'def456',
+    });
+    expect(parse('https://www.reddit.com/r/typescript/comments/abc123/comment/def456/')).toEqual({
+      postId: 'abc123',
+      commentId: 'def456',
+    });
+  });
+
+  it('returns undefined for subreddits and users', () => {
+    expect(parse('https://www.reddit.com/r/typescript/')).toBeUndefined();
+    expect(parse('https://www.reddit.com/user/alice/')).toBeUndefined();
+  });
+});
+
+describe('Reddit provider', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+  });
+
+  it('shows the real post title, subreddit, author and counts', async () => {
+    mockRequestUrl.mockResolvedValue(jsonResponse([listing(POST), listing({})]));
+
+    const meta = await fetchLinkMetadata(
+      'https://www.reddit.com/r/typescript/comments/abc123/why_is_my_ts_build_slow_tsc_54/',
+    );
+    expect(meta.title).toBe('Why is my TS build slow? (tsc 5.4, monorepo)');
+    expect(meta.author).toBe('r/typescript · u/alice');
+    expect(meta.stats).toEqual([
+      { icon: 'arrow-big-up', value: '1.2k', label: '1234 points' },
+      { icon: 'message-square', value: '56', label: '56 comments' },
+    ]);
+    expect(meta.description).toBeUndefined();
+    expect(meta.publishedTime).toBe('2024-05-01T12:00:00.000Z');
+    expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+    expect(mockRequestUrl).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: 'https://www.reddit.com/comments/abc123.json?raw_json=1&limit=1',
+      }),
+    );
+  });
+
+  it('says comment permalinks point at a comment', async () => {
+    mockRequestUrl.mockResolvedValue(
+      jsonResponse([listing(POST), listing({ author: 'bob', body: 'Try project references.' })]),
+    );
+
+    const meta = await fetchLinkMetadata(
+      'https://www.reddit.com/r/typescript/comments/abc124/why_is_my_ts_build_slow/def456/',
+    );
+    expect(meta.title).toBe('Comment on "Why is my TS build slow? (tsc 5.4, monorepo)"');
+    expect(meta.author).toBe('r/typescript · u/bob');
+    expect(meta.description).toBe('Try project references.');
+    expect(mockRequestUrl).toHaveBeenCalledWith(
+      expect.objectContaining({ url: expect.stringContaining('/comments/abc124/_/def456.json') }),
+    );
+  });
+
+  it('falls back to the URL slug when the API refuses', async () => {
+    mockRequestUrl.mockResolvedValue(jsonResponse({ message: 'Forbidden' }, 403));
+
+    const meta = await fetchLinkMetadata(
+      'https://www.reddit.com/r/typescript/comments/abc125/why_is_my_build_slow/',
+    );
+    expect(meta.title).toBe('Why Is My Build Slow');
+    expect(meta.author).toBe('r/typescript');
+    expect(meta.blocked).toBe(true);
+    expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a refused post after an hour instead of keeping the slug title', async () => {
+    const url = 'https://www.reddit.com/r/typescript/comments/abc126/why_is_my_build_slow/';
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      mockRequestUrl.mockResolvedValue(jsonResponse({ message: 'Too Many Requests' }, 429));
+      expect((await fetchLinkMetadata(url)).title).toBe('Why Is My Build Slow');
+
+      mockRequestUrl.mockResolvedValue(jsonResponse([listing(POST), listing({})]));
+      vi.setSystemTime(Date.now() + 61 * 60 * 1000);
+      expect((await fetchLinkMetadata(url)).title).toBe(POST.title);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('resolves subreddits from the URL without a request', async () => {
+    const meta = await fetchLinkMetadata('https://www.reddit.com/r/typescript/');
+    expect(meta.title).toBe('r/typescript');
+    expect(mockRequestUrl).not.toHaveBeenCalled();
+  });
+});
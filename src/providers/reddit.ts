@@ -0,0 +1,123 @@
+import { extractRedditTitle } from '../parsers/url';
+import { requestJson } from '../request';
+import { countStat } from './format';
+import { LinkProvider, ProviderResult } from './types';
+
+const REDDIT_HOSTS = ['reddit.com', 'www.reddit.com', 'old.reddit.com'];
+
+/** Post and comment permalinks: /r/{subreddit}/comments/{postId}/{slug}/{commentId} */
+const PERMALINK_RE = /^\/r\/[^/]+\/comments\/([a-z0-9]+)(?:\/([^/]+)(?:\/([a-z0-9]+))?)?/i;
+
+/** A post or comment permalink, identified by base-36 ids. */
+interface RedditPermalink {
+  postId: string;
+  commentId?: string;
+}
+
+/**
+ * Parses post and comment permalinks, including comment share links
+ * without a slug (`/comments/{postId}/comment/{commentId}`).
+ *
+ * @internal exported for testing
+ */
+export function parseRedditPermalink(url: URL): RedditPermalink | undefined {
+  const match = PERMALINK_RE.exec(url.pathname);
+  if (!match) {
+    return undefined;
+  }
+  return { postId: match[1], commentId: match[3] };
+}
+
+/** The subset of a post (`t3`) or comment (`t1`) listing item used here. */
+interface RedditThing {
+  title?: string;
+  subreddit_name_prefixed?: string;
+  author?: string;
+  body?: string;
+  selftext?: string;
+  score?: number;
+  num_comments?: number;
+  created_utc?: number;
+}
+
+type RedditListing = { data?: { children?: { data?: RedditThing }[] } };
+
+function firstThing(listing: RedditListing | undefined): RedditThing | undefined {
+  return listing?.data?.children?.[0]?.data;
+}
+
+function byline(thing: RedditThing, subreddit: string): string {
+  const author = thing.author && thing.author !== '[deleted]' ? `u/${thing.author}` : '';
+  return [subreddit, author].filter(Boolean).join(' · ');
+}
+
+/**
+ * Fetches a post, or a comment and its post, from Reddit's JSON API.
+ * Reddit serves any permalink as JSON when `.json` is appended.
+ */
+async function fetchPermalink(permalink: RedditPermalink): Promise<ProviderResult | undefined> {
+  const path = permalink.commentId
+    ? `/comments/${permalink.postId}/_/${permalink.commentId}.json`
+    : `/comments/${permalink.postId}.json`;
+  const json = await requestJson(`https://www.reddit.com${path}?raw_json=1&limit=1`);
+  if (!Array.isArray(json)) {
+    return undefined;
+  }
+  const post = firstThing(json[0] as RedditListing);
+  if (!post?.title) {
+    return undefined;
+  }
+  const subreddit = post.subreddit_name_prefixed ?? '';
+  const published = post.created_utc ? new Date(post.created_utc * 1000).toISOString() : undefined;
+
+  if (permalink.commentId) {
+    const comment = firstThing(json[1] as RedditListing);
+    return {
+      title: `Comment on "${post.title}"`,
+      author: byline(comment ?? {}, subreddit),
+      description: comment?.body?.trim() || undefined,
+      siteName: 'Reddit',
+      type: 'comment',
+      publishedTime: comment?.created_utc
+        ? new Date(comment.created_utc * 1000).toISOString()
+        : published,
+    };
+  }
+
+  const stats =
+    post.score !== undefined && post.num_comments !== undefined
+      ? [
+          countStat(post.score, 'point', 'arrow-big-up'),
+          countStat(post.num_comments, 'comment', 'message-square'),
+        ]
+      : undefined;
+  return {
+    title: post.title,
+    author: byline(post, subreddit),
+    description: post.selftext?.trim() || undefined,
+    stats,
+    siteName: 'Reddit',
+    type: 'article',
+    publishedTime: published,
+  };
+}
+
+/**
+ * Reddit links: posts and comments from the JSON API, falling back to
+ * the URL slug when the API refuses; subreddits and users from the URL.
+ * Reddit's HTML is often blocked or a generic shell, so it is never
+ * fetched. Slug fallbacks are marked `blocked` so they are retried soon.
+ */
+export const redditProvider: LinkProvider = {
+  id: 'reddit',
+  matches: (url) => REDDIT_HOSTS.includes(url.hostname),
+  fromUrl: (url) => (parseRedditPermalink(url) ? undefined : extractRedditTitle(url.href)),
+  fromApi: async (url) => {
+    const permalink = parseRedditPermalink(url);
+    if (!permalink) {
+      return undefined;
+    }
+    const fallback = extractRedditTitle(url.href);
+    return (await fetchPermalink(permalink)) ?? (fallback && { ...fallback, blocked: true });
+  },
+};
@@ -0,0 +1,64 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { findProviders, registerProvider, unregisterProvider } from './registry';
+import { LinkProvider } from './types';
+
+function provider(id: string, host: string): LinkProvider {
+  return { id, matches: (url) => url.hostname === host };
+}
+
+describe('provider registry', () => {
+  const cleanups: (() => void)[] = [];
+
+  afterEach(() => {
+    cleanups.splice(0).forEach((fn) => fn());
+  });
+
+  it('matches built-in providers by URL', () => {
+    const ids = findProviders(new URL('https://github.com/acme/widgets')).map((p) => p.id);
+    expect(ids).toContain('github');
+    expect(ids).not.toContain('reddit');
+  });
+
+  it('checks registered providers before built-ins', () => {
+    cleanups.push(registerProvider(provider('custom', 'github.com')));
+    const ids = findProviders(new URL('https://github.com/acme/widgets')).map((p) => p.id);
+    expect(ids[0]).toBe('custom');
+    expect(ids).toContain('github');
+  });
+
+  it('replaces a provider registered with the same id', () => {
+    cleanups.push(registerProvider(provider('custom', 'a.example')));
+    cleanups.push(registerProvider(provider('custom', 'b.example')));
+    expect(findProviders(new URL('https://a.example/')).map((p) => p.id)).not.toContain('custom');
+    expect(findProviders(new URL('https://b.example/')).map((p) => p.id)).toContain('custom');
+  });
+
+  it('unregisters through the returned function or by id', () => {
+    const unregister = registerProvider(provider('one', 'a.example'));
+    registerProvider(provider('two', 'a.example'));
+    unregister();
+    unregisterProvider('two');
+    const ids = findProviders(new URL('https://a.example/')).map((p) => p.id);
+    expect(ids).not.toContain('one');
+    expect(ids).not.toContain('two');
+  });
+
+  it('does not let a stale unregister remove a replacement', () => {
+    const unregister = registerProvider(provider('custom', 'a.example'));
+    cleanups.push(registerProvider(provider('custom', 'a.example')));
+    unregister();
+    expect(findProviders(new URL('https://a.example/')).map((p) => p.id)).toContain('custom');
+  });
+
+  it('skips providers whose matcher throws', () => {
+    cleanups.push(
+      registerProvider({
+        id: 'broken',
+        matches: () => {
+          throw new Error('boom');
+        },
+      }),
+    );
+    expect(findProviders(new URL('https://a.example/')).map((p) => p.id)).not.toContain('broken');
+  });
+});
@@ -0,0 +1,81 @@
+import { arxivProvider } from './arxiv';
+import { blueskyProvider } from './bluesky';
+import { cratesProvider } from './crates';
+import { doiProvider } from './doi';
+import { githubProvider } from './github';
+import { gitlabProvider } from './gitlab';
+import { goProvider } from './go';
+import { hackerNewsProvider } from './hackernews';
+import { jiraProvider } from './jira';
+import { linearProvider } from './linear';
+import { lobstersProvider } from './lobsters';
+import { mastodonProvider } from './mastodon';
+import { mediawikiProvider } from './mediawiki';
+import { npmProvider } from './npm';
+import { oembedDiscoveryProvider, oembedProvider } from './oembed';
+import { pubmedProvider } from './pubmed';
+import { pypiProvider } from './pypi';
+import { redditProvider } from './reddit';
+import { stackExchangeProvider } from './stackexchange';
+import { twitterProvider } from './twitter';
+import { LinkProvider } from './types';
+
+/** Built-in providers, most specific first. */
+const BUILTIN_PROVIDERS: LinkProvider[] = [
+  oembedProvider,
+  githubProvider,
+  gitlabProvider,
+  jiraProvider,
+  linearProvider,
+  redditProvider,
+  stackExchangeProvider,
+  hackerNewsProvider,
+  lobstersProvider,
+  mediawikiProvider,
+  doiProvider,
+  arxivProvider,
+  pubmedProvider,
+  npmProvider,
+  pypiProvider,
+  cratesProvider,
+  goProvider,
+  blueskyProvider,
+  twitterProvider,
+  mastodonProvider,
+  oembedDiscoveryProvider,
+];
+
+/** Providers registered at runtime, e.g. by other plugins, keyed by id. */
+const registered = new Map<string, LinkProvider>();
+
+/**
+ * Registers a provider. Registered providers are checked before the
+ * built-in ones, in registration order; a provider with the same id as
+ * an existing one replaces it. Returns a function that unregisters it.
+ * Links already in the cache keep their metadata until refreshed.
+ */
+export function registerProvider(provider: LinkProvider): () => void {
+  registered.delete(provider.id);
+  registered.set(provider.id, provider);
+  return () => {
+    if (registered.get(provider.id) === provider) {
+      registered.delete(provider.id);
+    }
+  };
+}
+
+/** Removes a registered provider by id. Built-in providers can't be removed. */
+export function unregisterProvider(id: string): void {
+  registered.delete(id);
+}
+
+/** Returns the providers matching a URL: registered ones first, then the built-ins. */
+export function findProviders(url: URL): LinkProvider[] {
+  return [...registered.values(), ...BUILTIN_PROVIDERS].filter((provider) => {
+    try {
+      return provider.matches(url);
+    } catch {
+      return false;
+    }
+  });
+}
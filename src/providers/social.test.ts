@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { formatPostTitle, htmlToText } from './social';
+
+describe('formatPostTitle', () => {
+  it('shows short posts in full', () => {
+    expect(formatPostTitle('alice', 'Hello\n\nworld')).toBe('@alice: Hello world');
+  });
+
+  it('cuts long posts at a word boundary', () => {
+    expect(
+      formatPostTitle('alice', 'Today I finally migrated our whole build from webpack to esbuild'),
+    ).toBe('@alice: Today I finally migrated our whole build from…');
+  });
+
+  it('shows just the handle for posts without text', () => {
+    expect(formatPostTitle('alice', '  ')).toBe('@alice');
+  });
+});
+
+describe('htmlToText', () => {
+  it('flattens paragraphs and line breaks', () => {
+    expect(htmlToText('<p>First<br>line</p><p>Second &amp; <a href="#">link</a></p>')).toBe(
+      'First line Second & link',
+    );
+  });
+});
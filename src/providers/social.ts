@@ -0,0 +1,33 @@
+/** Maximum length of the post excerpt shown in the pill, in characters. */
+const EXCERPT_LENGTH = 50;
+
+/**
+ * Converts post HTML (Mastodon statuses, X/Twitter embeds) to plain text,
+ * keeping line breaks between paragraphs as spaces.
+ *
+ * @internal exported for testing
+ */
+export function htmlToText(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('br, p').forEach((el) => el.append(' '));
+  return (doc.body.textContent ?? '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Formats a social post pill title: `@handle: first words of post…`,
+ * cut at a word boundary. Posts without text show just the handle.
+ *
+ * @internal exported for testing
+ */
+export function formatPostTitle(handle: string, text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (!flat) {
+    return `@${handle}`;
+  }
+  if (flat.length <= EXCERPT_LENGTH) {
+    return `@${handle}: ${flat}`;
+  }
+  const cut = flat.slice(0, EXCERPT_LENGTH);
+  const space = cut.lastIndexOf(' ');
+  return `@${handle}: ${(space > EXCERPT_LENGTH / 2 ? cut.slice(0, space) : cut).trimEnd()}…`;
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseStackExchangeUrl, stackExchangeFallbackTitle } from './stackexchange';
+import { clearCache, fetchLinkMetadata } from '../metadata';
+import { jsonResponse } from '../__mocks__/responses';
+
+import { requestUrl } from 'obsidian';
+const mockRequestUrl = vi.mocked(requestUrl);
+
+const QUESTION = {
+  question_id: 927358,
+  title: 'How do I undo the most recent local commits in Git?',
+  tags: ['git', 'version-control', 'git-commit'],
+  score: 26000,
+  answer_count: 108,
+  is_answered: true,
+  accepted_answer_id: 927386,
+  owner: { display_name: 'Hamza Yerlikaya' },
+  creation_date: 1243013024,
+  body: '<p>I accidentally committed the <code>wrong</code> files.</p>\n<p>How do I undo it?</p>',
+};
+
+describe('parseStackExchangeUrl', () => {
+  const parse = (url: string) => parseStackExchangeUrl(new URL(url));
+
+  it('parses questions on any Stack Exchange site', () => {
+    expect(parse('https://stackoverflow.com/questions/927358/how-do-i-undo')).toEqual({
+      site: 'stackoverflow.com',
+      questionId: '927358',
+      answerId: undefined,
+      slug: 'how-do-i-undo',
+    });
+    expect(parse('https://unix.stackexchange.com/q/12345')?.site).toBe('unix.stackexchange.com');
+    expect(parse('https://ru.stackoverflow.com/questions/1/x')?.site).toBe('ru.stackoverflow.com');
+    expect(parse('https://www.superuser.com/questions/1/x')?.site).toBe('superuser.com');
+  });
+
+  it('parses answer links in all their forms', () => {
+    expect(parse('https://stackoverflow.com/a/927386')).toEqual({
+      site: 'stackoverflow.com',
+      answerId: '927386',
+    });
+    expect(
+      parse('https://stackoverflow.com/questions/927358/how-do-i-undo/927386#927386'),
+    ).toMatchObject({ questionId: '927358', answerId: '927386' });
+    expect(
+      parse('https://stackoverflow.com/questions/927358/how-do-i-undo#answer-927386')?.answerId,
+    ).toBe('927386');
+  });
+
+  it('rejects other pages and sites', () => {
+    expect(parse('https://stackoverflow.com/questions/tagged/git')).toBeUndefined();
+    expect(parse('https://stackoverflow.com/users/1/jeff-atwood')).toBeUndefined();
+    expect(parse('https://example.com/questions/1/x')).toBeUndefined();
+  });
+});
+
+describe('stackExchangeFallbackTitle', () => {
+  it('turns the slug back into a sentence', () => {
+    const ref = parseStackExchangeUrl(
+      new URL('https://stackoverflow.com/questions/927358/how-do-i-undo-the-most-recent-commits'),
+    );
+    expect(ref && stackExchangeFallbackTitle(ref)).toBe('How do i undo the most recent commits');
+  });
+
+  it('says answer links point at an answer', () => {
+    expect(
+      stackExchangeFallbackTitle({ site: 'stackoverflow.com', answerId: '1', slug: 'undo-it' }),
+    ).toBe('Answer to "Undo it"');
+    expect(stackExchangeFallbackTitle({ site: 'stackoverflow.com', answerId: '1' })).toBe(
+      'Answer #1',
+    );
+  });
+});
+
+describe('Stack Exchange provider', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+  });
+
+  it('shows the question title, tags, score and accepted state', async () => {
+    mockRequestUrl.mockResolvedValue(
+      jsonResponse({ items: [{ ...QUESTION, title: 'Why is &quot;x&quot; &lt; y?' }] }),
+    );
+
+    const meta = await fetchLinkMetadata('https://stackoverflow.com/questions/927358/why-is-x-y');
+    expect(meta.title).toBe('Why is "x" < y?');
+    expect(meta.author).toBe('Hamza Yerlikaya');
+    expect(meta.description).toBe('I accidentally committed the wrong files. How do I undo it?');
+    expect(meta.stats).toEqual([
+      { icon: 'arrow-big-up', value: '26k', label: '26000 votes' },
+      { icon: 'message-square', value: '108', label: '108 answers' },
+    ]);
+    expect(meta.tags).toEqual(['git', 'version-control', 'git-commit']);
+    expect(meta.status?.state).toBe('accepted');
+    expect(mockRequestUrl).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: 'https://api.stackexchange.com/2.3/questions/927358?site=stackoverflow.com&filter=withbody',
+      }),
+    );
+  });
+
+  it('resolves answer links through the answer and its question', async () => {
+    mockRequestUrl.mockImplementation(async ({ url }) =>
+      url.includes('/answers/')
+        ? jsonResponse({
+            items: [
+              {
+                question_id: 927358,
+                score: 1,
+                is_accepted: false,
+                owner: { display_name: 'Someone' },
+                body: '<p>Use <code>git reset</code>.</p>',
+              },
+            ],
+          })
+        : jsonResponse({ items: [QUESTION] }),
+    );
+
+    const meta = await fetchLinkMetadata('https://stackoverflow.com/a/999001');
+    expect(meta.title).toBe('Answer to "How do I undo the most recent local commits in Git?"');
+    expect(meta.author).toBe('Someone');
+    expect(meta.description).toBe('Use git reset.');
+    expect(meta.stats).toEqual([{ icon: 'arrow-big-up', value: '1', label: '1 vote' }]);
+    expect(meta.status).toBeUndefined();
+  });
+
+  it('falls back to the URL slug when the API is unavailable', async () => {
+    mockRequestUrl.mockRejectedValue(new Error('offline'));
+
+    const meta = await fetchLinkMetadata(
+      'https://serverfault.com/questions/42/why-does-my-server-reboot',
+    );
+    expect(meta.title).toBe('Why does my server reboot');
+    expect(meta.blocked).toBe(true);
+  });
+
+  it('retries a question after an hour when the API quota was exhausted', async () => {
+    const url = 'https://stackoverflow.com/questions/927358/how-do-i-undo';
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      mockRequestUrl.mockResolvedValue(
+        jsonResponse({ error_id: 502, error_name: 'throttle_violation' }, 400),
+      );
+      expect((await fetchLinkMetadata(url)).title).toBe('How do i undo');
+
+      mockRequestUrl.mockResolvedValue(jsonResponse({ items: [QUESTION] }));
+      vi.setSystemTime(Date.now() + 30 * 60 * 1000);
+      expect((await fetchLinkMetadata(url)).title).toBe('How do i undo');
+
+      vi.setSystemTime(Date.now() + 31 * 60 * 1000);
+      expect((await fetchLinkMetadata(url)).title).toBe(QUESTION.title);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
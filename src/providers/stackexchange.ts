@@ -0,0 +1,178 @@
+import type { LinkStatus } from '../metadata';
+import { requestJson } from '../request';
+import { countStat } from './format';
+import { LinkProvider, ProviderResult } from './types';
+
+const API_BASE = 'https://api.stackexchange.com/2.3';
+
+/** Maximum length of the question or answer excerpt shown in the hover card, in characters. */
+const EXCERPT_LENGTH = 300;
+
+/** Stack Exchange site hosts, including localized and meta subdomains. */
+const SITE_HOST_RE =
+  /^(?:[a-z]+\.)?(?:stackoverflow\.com|serverfault\.com|superuser\.com|askubuntu\.com|mathoverflow\.net|stackapps\.com)$|^[a-z0-9.-]+\.stackexchange\.com$/;
+
+/**
+ * A question or answer link. `site` is the host without `www.`, which
+ * the API accepts as its `site` parameter.
+ *
+ * @internal exported for testing
+ */
+export interface StackExchangeRef {
+  site: string;
+  questionId?: string;
+  answerId?: string;
+  slug?: string;
+}
+
+/**
+ * Parses question links (`/questions/<id>/<slug>`, `/q/<id>`) and answer
+ * links (`/questions/<id>/<slug>/<answerId>`, `#<answerId>` anchors and
+ * `/a/<answerId>`) on any Stack Exchange site.
+ *
+ * @internal exported for testing
+ */
+export function parseStackExchangeUrl(url: URL): StackExchangeRef | undefined {
+  const site = url.hostname.replace(/^www\./, '');
+  if (!SITE_HOST_RE.test(site) || site === 'api.stackexchange.com') {
+    return undefined;
+  }
+
+  const answer = /^\/a\/(\d+)/.exec(url.pathname);
+  if (answer) {
+    return { site, answerId: answer[1] };
+  }
+  const question = /^\/(?:questions|q)\/(\d+)(?:\/([^/]+))?(?:\/(\d+))?/.exec(url.pathname);
+  if (!question) {
+    return undefined;
+  }
+  const anchor = /^#(?:answer-)?(\d+)$/.exec(url.hash)?.[1];
+  return {
+    site,
+    questionId: question[1],
+    answerId: question[3] ?? anchor,
+    slug: question[2],
+  };
+}
+
+/** Turns a URL slug back into a sentence: `how-do-i-undo` → `How do i undo`. */
+function slugToSentence(slug: string): string {
+  let text: string;
+  try {
+    text = decodeURIComponent(slug);
+  } catch {
+    text = slug;
+  }
+  text = text.replace(/-/g, ' ').trim();
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Title derived from the URL alone, used when the API is unavailable.
+ *
+ * @internal exported for testing
+ */
+export function stackExchangeFallbackTitle(ref: StackExchangeRef): string {
+  const question = ref.slug ? slugToSentence(ref.slug) : undefined;
+  if (ref.answerId) {
+    return question ? `Answer to "${question}"` : `Answer #${ref.answerId}`;
+  }
+  return question ?? `Question #${ref.questionId}`;
+}
+
+/** Question and answer titles are HTML-escaped in API responses. */
+function decodeEntities(html: string): string {
+  return new DOMParser().parseFromString(html, 'text/html').documentElement.textContent ?? html;
+}
+
+/** Plain-text start of a question or answer body, which the API returns as HTML. */
+function excerpt(html: string | undefined): string | undefined {
+  const text = html ? decodeEntities(html).replace(/\s+/g, ' ').trim() : '';
+  if (!text) {
+    return undefined;
+  }
+  return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH).trimEnd()}…` : text;
+}
+
+/** The subset of API question and answer objects used here. */
+interface StackExchangeItem {
+  question_id?: number;
+  title?: string;
+  body?: string;
+  tags?: string[];
+  score?: number;
+  answer_count?: number;
+  is_answered?: boolean;
+  accepted_answer_id?: number;
+  is_accepted?: boolean;
+  owner?: { display_name?: string };
+  creation_date?: number;
+}
+
+async function fetchItem(path: string, site: string): Promise<StackExchangeItem | undefined> {
+  const json = (await requestJson(
+    `${API_BASE}/${path}?site=${encodeURIComponent(site)}&filter=withbody`,
+  )) as { items?: StackExchangeItem[] } | undefined;
+  return json?.items?.[0];
+}
+
+function questionStatus(question: StackExchangeItem): LinkStatus {
+  if (question.accepted_answer_id) {
+    return { state: 'accepted', icon: 'circle-check', label: 'Accepted answer' };
+  }
+  if (question.is_answered) {
+    return { state: 'answered', icon: 'message-circle', label: 'Answered' };
+  }
+  return { state: 'unanswered', icon: 'circle-help', label: 'Unanswered' };
+}
+
+async function fetchFromApi(ref: StackExchangeRef): Promise<ProviderResult | undefined> {
+  const answer = ref.answerId ? await fetchItem(`answers/${ref.answerId}`, ref.site) : undefined;
+  const questionId = ref.questionId ?? answer?.question_id;
+  const question = questionId ? await fetchItem(`questions/${questionId}`, ref.site) : undefined;
+  if (!question?.title || (ref.answerId && !answer)) {
+    return undefined;
+  }
+
+  const title = decodeEntities(question.title);
+  const item = answer ?? question;
+  const votes = countStat(item.score ?? 0, 'vote', 'arrow-big-up');
+  return {
+    title: answer ? `Answer to "${title}"` : title,
+    author: item.owner?.display_name ? decodeEntities(item.owner.display_name) : '',
+    description: excerpt(item.body),
+    stats: answer
+      ? [votes]
+      : [votes, countStat(question.answer_count ?? 0, 'answer', 'message-square')],
+    tags: question.tags,
+    siteName: ref.site,
+    type: answer ? 'answer' : 'question',
+    publishedTime: item.creation_date
+      ? new Date(item.creation_date * 1000).toISOString()
+      : undefined,
+    status: answer
+      ? answer.is_accepted
+        ? { state: 'accepted', icon: 'circle-check', label: 'Accepted answer' }
+        : undefined
+      : questionStatus(question),
+  };
+}
+
+/**
+ * Stack Overflow and other Stack Exchange sites: question title, tags,
+ * score and answered/accepted state from the Stack Exchange API, which
+ * avoids the sites' bot interstitials. Falls back to the URL slug when
+ * the API is unavailable (offline, throttled or out of quota), marked
+ * `blocked` so it is retried soon.
+ */
+export const stackExchangeProvider: LinkProvider = {
+  id: 'stackexchange',
+  matches: (url) => parseStackExchangeUrl(url) !== undefined,
+  fromApi: async (url) => {
+    const ref = parseStackExchangeUrl(url);
+    if (!ref) {
+      return undefined;
+    }
+    return (await fetchFromApi(ref)) ?? { title: stackExchangeFallbackTitle(ref), blocked: true };
+  },
+};
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { setJiraConfig } from './jira';
+import { pathUnderBase, workflowStatus } from './tracker';
+import { clearCache, fetchLinkMetadata } from '../metadata';
+import {
+  fetchRequestUrl,
+  STAND_IN_TOKEN,
+  startTrackerServer,
+} from '../../scripts/tracker-stand-in';
+
+import { requestUrl } from 'obsidian';
+const mockRequestUrl = vi.mocked(requestUrl);
+
+describe('pathUnderBase', () => {
+  const path = (url: string, base: string) => pathUnderBase(new URL(url), base);
+
+  it('returns the path below the base URL, including a context path', () => {
+    expect(path('https://example.com/browse/A-1', 'https://example.com')).toBe('/browse/A-1');
+    expect(path('https://example.com/jira/browse/A-1', 'https://example.com/jira')).toBe(
+      '/browse/A-1',
+    );
+  });
+
+  it('rejects other origins and paths that only share a prefix', () => {
+    expect(path('http://example.com/browse/A-1', 'https://example.com')).toBeUndefined();
+    expect(
+      path('https://example.com/jira2/browse/A-1', 'https://example.com/jira'),
+    ).toBeUndefined();
+    expect(path('https://example.com/browse/A-1', '')).toBeUndefined();
+    expect(path('https://example.com/browse/A-1', 'not a url')).toBeUndefined();
+  });
+});
+
+describe('workflowStatus', () => {
+  it('keeps the tracker status name as the label', () => {
+    expect(workflowStatus('done', 'Shipped')).toEqual({
+      state: 'completed',
+      icon: 'circle-check',
+      label: 'Shipped',
+    });
+  });
+});
+
+describe('tracker stand-in server', () => {
+  afterEach(() => {
+    setJiraConfig({ baseUrl: '', email: '', token: '' });
+  });
+
+  it('serves a Jira issue over a real localhost round-trip', async () => {
+    const server = await startTrackerServer();
+    try {
+      vi.resetAllMocks();
+      clearCache();
+      mockRequestUrl.mockImplementation(fetchRequestUrl);
+      setJiraConfig({ baseUrl: server.baseUrl, email: '', token: STAND_IN_TOKEN });
+
+      const meta = await fetchLinkMetadata(`${server.baseUrl}/browse/PROJ-123`);
+      expect(meta.title).toBe('PROJ-123 · Checkout fails for saved cards');
+      expect(meta.status?.label).toBe('In Review');
+      expect(server.requests[0].headers.authorization).toBe(`Bearer ${STAND_IN_TOKEN}`);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,54 @@
+import type { LinkStatus } from '../metadata';
+
+/** Workflow stage shared by the issue tracker providers, independent of each tracker's status names. */
+export type WorkflowStage = 'backlog' | 'todo' | 'in-progress' | 'done' | 'canceled';
+
+const STAGE_STATUS: Record<WorkflowStage, Omit<LinkStatus, 'label'>> = {
+  backlog: { state: 'backlog', icon: 'circle-dashed' },
+  todo: { state: 'todo', icon: 'circle' },
+  'in-progress': { state: 'in-progress', icon: 'circle-ellipsis' },
+  done: { state: 'completed', icon: 'circle-check' },
+  canceled: { state: 'canceled', icon: 'circle-x' },
+};
+
+/**
+ * Status badge for a tracker issue. The label is the tracker's own status
+ * name (e.g. "In Review"); the icon and colour follow its stage.
+ */
+export function workflowStatus(stage: WorkflowStage, label: string): LinkStatus {
+  return { ...STAGE_STATUS[stage], label };
+}
+
+/** Trims a configured instance URL and drops trailing slashes. Empty means not configured. */
+export function normalizeBaseUrl(value: string): string {
+  return value.trim().replace(/\/+$/, '');
+}
+
+/**
+ * Returns the path of `url` below a configured instance URL, which may
+ * include a context path (`https://example.com/jira`), or `undefined` if
+ * the link is on another site.
+ *
+ * @internal exported for testing
+ */
+export function pathUnderBase(url: URL, baseUrl: string): string | undefined {
+  if (!baseUrl) {
+    return undefined;
+  }
+  let base: URL;
+  try {
+    base = new URL(baseUrl);
+  } catch {
+    return undefined;
+  }
+  const prefix = base.pathname.replace(/\/+$/, '');
+  if (url.origin !== base.origin || !url.pathname.startsWith(`${prefix}/`)) {
+    return undefined;
+  }
+  return url.pathname.slice(prefix.length);
+}
+
+/** Pill title for a tracker item: `KEY-123 · Summary`. */
+export function issueTitle(key: string, summary: string): string {
+  return `${key} · ${summary}`;
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseTweetUrl } from './twitter';
+import { clearCache, fetchLinkMetadata } from '../metadata';
+import { jsonResponse } from '../__mocks__/responses';
+
+import { requestUrl } from 'obsidian';
+const mockRequestUrl = vi.mocked(requestUrl);
+
+describe('parseTweetUrl', () => {
+  it('reads status links on twitter.com and x.com', () => {
+    expect(parseTweetUrl(new URL('https://x.com/jack/status/20'))).toEqual({
+      handle: 'jack',
+      id: '20',
+    });
+    expect(parseTweetUrl(new URL('https://mobile.twitter.com/jack/status/20?s=21'))?.id).toBe('20');
+    expect(parseTweetUrl(new URL('https://x.com/jack'))).toBeUndefined();
+  });
+});
+
+describe('X/Twitter provider', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    clearCache();
+  });
+
+  it('shows the handle and post text from the oEmbed endpoint', async () => {
+    mockRequestUrl.mockResolvedValue(
+      jsonResponse({
+        author_name: 'jack',
+        author_url: 'https://twitter.com/jack',
+        html: '<blockquote class="twitter-tweet"><p lang="en" dir="ltr">just setting up my twttr</p>&mdash; jack (@jack) <a href="https://twitter.com/jack/status/20">March 21, 2006</a></blockquote>\n',
+      }),
+    );
+
+    const meta = await fetchLinkMetadata('https://x.com/jack/status/20');
+    expect(meta.title).toBe('@jack: just setting up my twttr');
+    expect(meta.siteName).toBe('X');
+    expect(mockRequestUrl).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: `https://publish.twitter.com/oembed?omit_script=1&url=${encodeURIComponent('https://x.com/jack/status/20')}`,
+      }),
+    );
+  });
+});
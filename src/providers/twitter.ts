@@ -0,0 +1,59 @@
+import { buildOembedRequestUrl } from '../oembed';
+import { requestJson } from '../request';
+import { formatPostTitle, htmlToText } from './social';
+import { LinkProvider } from './types';
+
+const TWITTER_HOSTS = [
+  'twitter.com',
+  'www.twitter.com',
+  'mobile.twitter.com',
+  'x.com',
+  'www.x.com',
+];
+
+/**
+ * Returns the handle of an X/Twitter status link, or `undefined` for
+ * other pages.
+ *
+ * @internal exported for testing
+ */
+export function parseTweetUrl(url: URL): { handle: string; id: string } | undefined {
+  if (!TWITTER_HOSTS.includes(url.hostname)) {
+    return undefined;
+  }
+  const match = /^\/([A-Za-z0-9_]{1,15})\/status(?:es)?\/(\d+)/.exec(url.pathname);
+  return match ? { handle: match[1], id: match[2] } : undefined;
+}
+
+/**
+ * X/Twitter posts through the publish.twitter.com oEmbed endpoint, the
+ * only source that works without an account. The embed HTML carries the
+ * post text; it has no avatar, so the pill keeps the site icon.
+ */
+export const twitterProvider: LinkProvider = {
+  id: 'twitter',
+  matches: (url) => parseTweetUrl(url) !== undefined,
+  fromApi: async (url) => {
+    const ref = parseTweetUrl(url);
+    if (!ref) {
+      return undefined;
+    }
+    const endpoint = 'https://publish.twitter.com/oembed?omit_script=1&url=';
+    const json = (await requestJson(buildOembedRequestUrl(endpoint, url.href))) as
+      | { html?: string; author_url?: string }
+      | undefined;
+    if (!json?.html) {
+      return undefined;
+    }
+    // The embed is "<blockquote><p>text</p>— Name (@handle) <a>date</a></blockquote>"
+    const doc = new DOMParser().parseFromString(json.html, 'text/html');
+    const text = htmlToText(doc.querySelector('p')?.innerHTML ?? '');
+    const handle = json.author_url?.split('/').pop() || ref.handle;
+    return {
+      title: formatPostTitle(handle, text),
+      description: text || undefined,
+      siteName: 'X',
+      type: 'post',
+    };
+  },
+};
@@ -0,0 +1,36 @@
+import type { LinkMetadata } from '../metadata';
+
+/**
+ * Metadata resolved by a provider. Fields left out are filled in from the
+ * page (or with defaults), so a provider only needs to return what it
+ * knows better than the generic extractors.
+ */
+export type ProviderResult = Partial<LinkMetadata>;
+
+/**
+ * Resolves link metadata for a set of URLs. Every hook is optional; a
+ * fetch runs them in this order:
+ *
+ * 1. {@link fromUrl} — from the URL alone, without any request
+ * 2. {@link fromApi} — from a JSON API instead of the page
+ * 3. {@link fromHtml} — from the page's parsed `<head>`
+ * 4. {@link postProcess} — adjusts the final result
+ *
+ * Steps 1–2 end the fetch as soon as a hook returns a title. In step 3
+ * the first hook that returns a title wins, and its fields take
+ * precedence over the generic extractors. Hooks that throw are treated
+ * as returning nothing.
+ */
+export interface LinkProvider {
+  /** Unique id. Registering a provider with an existing id replaces it. */
+  id: string;
+  /** Returns `true` for URLs this provider handles. */
+  matches(url: URL): boolean;
+  fromUrl?(url: URL): ProviderResult | undefined;
+  fromApi?(url: URL): Promise<ProviderResult | undefined>;
+  fromHtml?(
+    doc: Document,
+    url: URL,
+  ): ProviderResult | undefined | Promise<ProviderResult | undefined>;
+  postProcess?(meta: LinkMetadata, url: URL): LinkMetadata;
+}
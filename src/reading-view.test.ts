@@ -1,58 +1,21 @@
 import { describe, it, expect } from 'vitest';
-import { createPill, isEmptyTextLink } from './reading-view';
-
-describe('createPill', () => {
-  it('creates an anchor with correct class, href, and target', () => {
-    const pill = createPill('Example', '', 'https://example.com');
-    expect(pill.tagName).toBe('A');
-    expect(pill.className).toBe('link-mention external-link');
-    expect((pill as HTMLAnchorElement).href).toBe('https://example.com/');
-    expect(pill.getAttribute('target')).toBe('_blank');
-    expect(pill.getAttribute('rel')).toBe('noopener noreferrer');
-    expect(pill.getAttribute('title')).toBe('https://example.com');
-  });
-
-  it('includes a favicon img when favicon is provided', () => {
-    const pill = createPill('Ex', 'data:image/png;base64,abc', 'https://ex.com');
-    const img = pill.querySelector('img.link-mention-favicon') as HTMLImageElement;
-    expect(img).not.toBeNull();
-    expect(img.src).toBe('data:image/png;base64,abc');
-    expect(img.alt).toBe('');
-  });
-
-  it('omits favicon img when favicon is empty', () => {
-    const pill = createPill('Ex', '', 'https://ex.com');
-    const img = pill.querySelector('img');
-    expect(img).toBeNull();
-  });
+import {
+  isEmptyTextLink,
+  locateSourceLink,
+  readingViewPostProcessor,
+  refreshReadingViewPills,
+} from './reading-view';
+import { createPill } from './pill';
 
-  it('includes a title span with correct text', () => {
-    const pill = createPill('My Title', '', 'https://ex.com');
-    const span = pill.querySelector('span.link-mention-title');
-    expect(span).not.toBeNull();
-    expect(span!.textContent).toBe('My Title');
-  });
-
-  it('includes an author span when author is provided', () => {
-    const pill = createPill('Title', '', 'https://ex.com', 'GitHub');
-    const author = pill.querySelector('span.link-mention-author');
-    expect(author).not.toBeNull();
-    expect(author!.textContent).toBe('GitHub');
-  });
-
-  it('omits author span when author is empty', () => {
-    const pill = createPill('Title', '', 'https://ex.com');
-    const author = pill.querySelector('span.link-mention-author');
-    expect(author).toBeNull();
-  });
-
-  it('renders author before title', () => {
-    const pill = createPill('Title', 'fav.ico', 'https://ex.com', 'Author');
-    const spans = pill.querySelectorAll('span');
-    expect(spans[0].className).toBe('link-mention-author');
-    expect(spans[1].className).toBe('link-mention-title');
-  });
-});
+/** A workspace whose leaves live in the given documents. */
+function fakeApp(...docs: Document[]) {
+  const leaves = docs.map((doc) => ({ view: { containerEl: { doc } } }));
+  return {
+    workspace: {
+      iterateAllLeaves: (callback: (leaf: unknown) => void) => leaves.forEach(callback),
+    },
+  } as never;
+}
 
 describe('isEmptyTextLink', () => {
   function makeLink(href: string, text: string): HTMLAnchorElement {
@@ -74,3 +37,91 @@ describe('isEmptyTextLink', () => {
     expect(isEmptyTextLink(makeLink('https://ex.com', 'Click here'))).toBe(false);
   });
 });
+
+describe('refreshReadingViewPills', () => {
+  it('replaces marked pills for the changed URL only', () => {
+    const changed = createPill('https://ex.com/a', { title: 'Old', favicon: '', author: '' });
+    changed.setAttribute('data-link-mention-url', 'https://ex.com/a');
+    const other = createPill('https://ex.com/b', { title: 'Other', favicon: '', author: '' });
+    other.setAttribute('data-link-mention-url', 'https://ex.com/b');
+    document.body.append(changed, other);
+
+    refreshReadingViewPills(fakeApp(), 'https://ex.com/a', {
+      title: 'New',
+      favicon: '',
+      author: 'Me',
+    });
+
+    const titles = Array.from(document.querySelectorAll('.link-mention-title')).map(
+      (el) => el.textContent,
+    );
+    expect(titles).toEqual(['New', 'Other']);
+    expect(document.querySelector('.link-mention-author')!.textContent).toBe('Me');
+    document.body.innerHTML = '';
+  });
+
+  it('replaces pills in popout windows', () => {
+    const popout = document.implementation.createHTMLDocument('Popout');
+    const pill = createPill('https://ex.com/a', { title: 'Old', favicon: '', author: '' });
+    pill.setAttribute('data-link-mention-url', 'https://ex.com/a');
+    popout.body.append(pill);
+
+    refreshReadingViewPills(fakeApp(popout), 'https://ex.com/a', {
+      title: 'New',
+      favicon: '',
+      author: '',
+    });
+
+    expect(popout.querySelector('.link-mention-title')!.textContent).toBe('New');
+  });
+});
+
+describe('readingViewPostProcessor', () => {
+  it('shows the link title instead of the fetched one and keeps it on redraw', () => {
+    const el = document.createElement('div');
+    el.innerHTML =
+      '<a class="external-link" href="https://override.example/" title="My title"></a>';
+    document.body.append(el);
+    const ctx = { getSectionInfo: () => null, sourcePath: 'note.md' };
+    readingViewPostProcessor(el, ctx as never, {} as never);
+
+    expect(el.querySelector('.link-mention-title')!.textContent).toBe('My title');
+
+    refreshReadingViewPills(fakeApp(), 'https://override.example/', {
+      title: 'Fetched',
+      favicon: 'https://override.example/icon.png',
+      author: '',
+    });
+    expect(el.querySelector('.link-mention-title')!.textContent).toBe('My title');
+    expect(el.querySelector('img')!.getAttribute('src')).toBe('https://override.example/icon.png');
+    document.body.innerHTML = '';
+  });
+});
+
+describe('locateSourceLink', () => {
+  const note = [
+    '# Title',
+    '',
+    'First [](https://a.example) and [](https://b.example)',
+    'Again [](https://a.example)',
+  ].join('\n');
+
+  it('returns the offsets of the matching link within the section', () => {
+    const link = locateSourceLink(note, 2, 3, 'https://b.example', 0);
+    expect(link).toBeDefined();
+    expect(note.slice(link!.from, link!.to)).toBe('[](https://b.example)');
+  });
+
+  it('picks the n-th occurrence of a repeated URL', () => {
+    const link = locateSourceLink(note, 2, 3, 'https://a.example', 1);
+    expect(link!.from).toBe(note.lastIndexOf('[](https://a.example)'));
+  });
+
+  it('matches URLs that differ only by normalization', () => {
+    expect(locateSourceLink(note, 2, 2, 'https://a.example/', 0)).toBeDefined();
+  });
+
+  it('ignores links outside the section', () => {
+    expect(locateSourceLink(note, 3, 3, 'https://b.example', 0)).toBeUndefined();
+  });
+});
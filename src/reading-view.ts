@@ -1,56 +1,152 @@
-import { MarkdownPostProcessorContext, setIcon } from 'obsidian';
-import { fetchLinkMetadata, getCachedMetadata } from './metadata';
-import { extractUrlTitle } from './parsers/url';
+import { App, MarkdownPostProcessorContext, TFile } from 'obsidian';
+import { PillSource, showPillMenu } from './context-menu';
+import { attachHoverCard } from './hover-card';
+import { findEmptyLinks, KnownLink } from './live-preview';
+import {
+  fetchLinkMetadata,
+  getCachedMetadata,
+  LinkMetadata,
+  revalidateIfStale,
+  withTitleOverride,
+} from './metadata';
+import { extractUrlTitle, normalizeUrl } from './parsers/url';
+import { createPill } from './pill';
+
+/** Marks pills rendered by the reading-view post-processor so they can be redrawn later. */
+const READING_PILL_ATTR = 'data-link-mention-url';
+/** The link title from `[](url "Title")`, kept on the pill so redraws show it too. */
+const READING_TITLE_ATTR = 'data-link-mention-title';
+
+/** Resolves the markdown source of a pill when its context menu opens. */
+type SourceLookup = () => PillSource | null;
+
+/** Source lookups of rendered pills, carried over when a pill is redrawn. */
+const pillSources = new WeakMap<HTMLElement, SourceLookup>();
 
 /**
- * Creates a styled `<a>` pill element displaying a favicon and title
- * for an external link. Used by the reading-view post-processor to
- * replace bare `[](url)` links.
+ * Creates a reading-view pill for {@link href}, marks it for later redraws
+ * and attaches the hover card and context menu. A link {@link title}
+ * replaces the fetched one.
+ */
+function createReadingPill(
+  href: string,
+  fetched: LinkMetadata,
+  source: SourceLookup,
+  title?: string,
+): HTMLElement {
+  const meta = withTitleOverride(fetched, title);
+  const pill = createPill(href, meta);
+  pill.setAttribute(READING_PILL_ATTR, href);
+  if (title) {
+    pill.setAttribute(READING_TITLE_ATTR, title);
+  }
+  attachHoverCard(pill, href, meta);
+  pillSources.set(pill, source);
+  pill.addEventListener('contextmenu', (e) => {
+    e.preventDefault();
+    e.stopPropagation();
+    showPillMenu(e, pill, href, meta, source());
+  });
+  return pill;
+}
+
+/**
+ * Finds the `[](url)` in a note's markdown that rendered the
+ * {@link occurrence}-th pill for {@link href} within the section spanning
+ * {@link lineStart}–{@link lineEnd}. Positions are offsets into {@link data}.
  *
  * @internal exported for testing
  */
-export function createPill(title: string, favicon: string, href: string, author = ''): HTMLElement {
-  const pill = document.createElement('a');
-  pill.className = 'link-mention external-link';
-  pill.href = href;
-  pill.title = href;
-  pill.setAttribute('target', '_blank');
-  pill.setAttribute('rel', 'noopener noreferrer');
-
-  if (favicon) {
-    const img = document.createElement('img');
-    img.className = 'link-mention-favicon';
-    img.src = favicon;
-    img.alt = '';
-    img.setAttribute('width', '19');
-    img.setAttribute('height', '19');
-    img.addEventListener('error', () => {
-      const iconEl = document.createElement('span');
-      iconEl.className = 'link-mention-favicon link-mention-default-icon';
-      setIcon(iconEl, 'link');
-      img.replaceWith(iconEl);
-    });
-    pill.appendChild(img);
-  } else {
-    const iconEl = document.createElement('span');
-    iconEl.className = 'link-mention-favicon link-mention-default-icon';
-    setIcon(iconEl, 'link');
-    pill.appendChild(iconEl);
-  }
+export function locateSourceLink(
+  data: string,
+  lineStart: number,
+  lineEnd: number,
+  href: string,
+  occurrence: number,
+): KnownLink | undefined {
+  const lines = data.split('\n');
+  const offset = lines.slice(0, lineStart).reduce((sum, line) => sum + line.length + 1, 0);
+  const section = lines.slice(lineStart, lineEnd + 1).join('\n');
+  const target = normalizeUrl(href);
+  return findEmptyLinks(section, offset).filter((link) => normalizeUrl(link.url) === target)[
+    occurrence
+  ];
+}
 
-  if (author) {
-    const authorSpan = document.createElement('span');
-    authorSpan.className = 'link-mention-author';
-    authorSpan.textContent = author;
-    pill.appendChild(authorSpan);
-  }
+/**
+ * Builds a {@link SourceLookup} that edits the note file behind a rendered
+ * section. Returns `null` from the lookup when the section can't be mapped
+ * back to a `[](url)` (e.g. the pill came from a bare URL).
+ */
+function sectionSource(
+  app: App,
+  ctx: MarkdownPostProcessorContext,
+  sectionEl: HTMLElement,
+  href: string,
+  occurrence: number,
+): SourceLookup {
+  return () => {
+    const info = ctx.getSectionInfo(sectionEl);
+    const file = app.vault.getAbstractFileByPath(ctx.sourcePath);
+    if (!info || !(file instanceof TFile)) {
+      return null;
+    }
+    const link = locateSourceLink(info.text, info.lineStart, info.lineEnd, href, occurrence);
+    if (!link) {
+      return null;
+    }
 
-  const span = document.createElement('span');
-  span.className = 'link-mention-title';
-  span.textContent = title;
+    return {
+      replace: (markdown) => {
+        void app.vault.process(file, (data) => {
+          const current = locateSourceLink(data, info.lineStart, info.lineEnd, href, occurrence);
+          if (!current) {
+            return data;
+          }
+          return data.slice(0, current.from) + markdown + data.slice(current.to);
+        });
+      },
+      reveal: () => {
+        const before = info.text.slice(0, link.to - 1).split('\n');
+        const cursor = { line: before.length - 1, ch: before[before.length - 1].length };
+        void app.workspace
+          .getLeaf(false)
+          .openFile(file, { state: { mode: 'source' }, eState: { line: cursor.line } })
+          .then(() => {
+            const editor = app.workspace.activeEditor?.editor;
+            editor?.setCursor(cursor);
+            editor?.focus();
+          });
+      },
+    };
+  };
+}
 
-  pill.appendChild(span);
-  return pill;
+/** Documents of every workspace window: the main one and any popout windows. */
+function workspaceDocuments(app: App): Set<Document> {
+  const docs = new Set<Document>([document]);
+  app.workspace.iterateAllLeaves((leaf) => docs.add(leaf.view.containerEl.doc));
+  return docs;
+}
+
+/**
+ * Replaces every rendered reading-view pill for {@link url}, in any
+ * workspace window, with one built from {@link meta}. Registered as a
+ * metadata change listener so that background revalidations show up
+ * without re-rendering the note.
+ */
+export function refreshReadingViewPills(app: App, url: string, meta: LinkMetadata): void {
+  const pills = Array.from(workspaceDocuments(app)).flatMap((doc) =>
+    Array.from(doc.querySelectorAll<HTMLElement>(`a.link-mention[${READING_PILL_ATTR}]`)),
+  );
+  for (const pill of pills) {
+    const href = pill.getAttribute(READING_PILL_ATTR);
+    if (href && normalizeUrl(href) === url) {
+      const source = pillSources.get(pill) ?? (() => null);
+      const title = pill.getAttribute(READING_TITLE_ATTR) ?? undefined;
+      pill.replaceWith(createReadingPill(href, meta, source, title));
+    }
+  }
 }
 
 /**
@@ -70,13 +166,19 @@ export function isEmptyTextLink(el: HTMLAnchorElement): boolean {
 /**
  * Markdown post-processor for reading view. Finds all `a.external-link`
  * elements with no display text (from `[](url)` syntax), replaces them
- * with styled mention pills, and triggers metadata fetches for uncached URLs.
+ * with styled mention pills, and triggers metadata fetches for uncached URLs
+ * and background revalidation for stale ones. A link title
+ * (`[](url "Title")`, rendered as the anchor's `title` attribute) is
+ * shown instead of the fetched title.
  */
 export function readingViewPostProcessor(
   el: HTMLElement,
-  _ctx: MarkdownPostProcessorContext,
+  ctx: MarkdownPostProcessorContext,
+  app: App,
 ): void {
   const links = el.querySelectorAll<HTMLAnchorElement>('a.external-link');
+  // Counts pills per URL so each one maps back to its own `[](url)` in the section
+  const occurrences = new Map<string, number>();
 
   for (const link of Array.from(links)) {
     if (!isEmptyTextLink(link)) {
@@ -88,19 +190,28 @@ export function readingViewPostProcessor(
       continue;
     }
 
+    const occurrence = occurrences.get(href) ?? 0;
+    occurrences.set(href, occurrence + 1);
+    const source = sectionSource(app, ctx, el, href, occurrence);
+    const title = link.getAttribute('title')?.trim() || undefined;
+
     const cached = getCachedMetadata(href);
     if (cached) {
-      const pill = createPill(cached.title, cached.favicon, href, cached.author);
-      link.replaceWith(pill);
+      link.replaceWith(createReadingPill(href, cached, source, title));
+      revalidateIfStale(href);
     } else {
       // Show URL-derived placeholder, then upgrade when fetch completes
       const placeholderTitle = extractUrlTitle(href);
-      const placeholder = createPill(placeholderTitle, '', href);
+      const placeholder = createReadingPill(
+        href,
+        { title: placeholderTitle, favicon: '', author: '' },
+        source,
+        title,
+      );
       link.replaceWith(placeholder);
 
       void fetchLinkMetadata(href).then((meta) => {
-        const pill = createPill(meta.title, meta.favicon, href, meta.author);
-        placeholder.replaceWith(pill);
+        placeholder.replaceWith(createReadingPill(href, meta, source, title));
       });
     }
   }
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { headersFor, HeaderRule, requestJson, setHeaderRules } from './request';
+import { jsonResponse } from './__mocks__/responses';
+
+import { requestUrl } from 'obsidian';
+const mockRequestUrl = vi.mocked(requestUrl);
+
+function rule(fields: Partial<HeaderRule>): HeaderRule {
+  return {
+    id: '',
+    pattern: '',
+    userAgent: '',
+    acceptLanguage: '',
+    authorization: '',
+    cookie: '',
+    ...fields,
+  };
+}
+
+describe('headersFor', () => {
+  afterEach(() => {
+    setHeaderRules([]);
+  });
+
+  it('returns the headers of rules matching the host', () => {
+    setHeaderRules([
+      rule({ pattern: '*.example.com', userAgent: 'Mozilla/5.0', authorization: 'Bearer abc' }),
+    ]);
+    expect(headersFor('https://wiki.example.com/page')).toEqual({
+      'User-Agent': 'Mozilla/5.0',
+      Authorization: 'Bearer abc',
+    });
+    expect(headersFor('https://example.org/page')).toEqual({});
+  });
+
+  it('matches hosts with or without their port', () => {
+    setHeaderRules([
+      rule({ pattern: 'wiki.corp', cookie: 'a=1' }),
+      rule({ pattern: 'git.corp:8443', cookie: 'b=2' }),
+    ]);
+    expect(headersFor('http://wiki.corp:8080/x')).toEqual({ Cookie: 'a=1' });
+    expect(headersFor('https://git.corp:8443/x')).toEqual({ Cookie: 'b=2' });
+  });
+
+  it('lets earlier rules win and later rules fill in missing headers', () => {
+    setHeaderRules([
+      rule({ pattern: 'docs.example.com', acceptLanguage: 'de' }),
+      rule({ pattern: '*.example.com', acceptLanguage: 'en', userAgent: 'Bot' }),
+    ]);
+    expect(headersFor('https://docs.example.com/')).toEqual({
+      'Accept-Language': 'de',
+      'User-Agent': 'Bot',
+    });
+  });
+
+  it('ignores rules without a pattern and invalid URLs', () => {
+    setHeaderRules([rule({ pattern: ' ', cookie: 'a=1' })]);
+    expect(headersFor('https://example.com/')).toEqual({});
+    expect(headersFor('not a url')).toEqual({});
+  });
+});
+
+describe('requestJson', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    setHeaderRules([]);
+  });
+
+  it('adds the configured headers, with the caller headers taking precedence', async () => {
+    setHeaderRules([
+      rule({ pattern: 'api.example.com', authorization: 'Bearer user', userAgent: 'Bot' }),
+    ]);
+    mockRequestUrl.mockResolvedValue(jsonResponse({ ok: true }));
+
+    await requestJson('https://api.example.com/items', { Authorization: 'Bearer provider' });
+    expect(mockRequestUrl).toHaveBeenCalledWith(
+      expect.objectContaining({
+        headers: { 'User-Agent': 'Bot', Authorization: 'Bearer provider' },
+      }),
+    );
+  });
+});
@@ -0,0 +1,142 @@
+import { requestUrl } from 'obsidian';
+import { matchesUrlGlob } from './parsers/url';
+
+/** Extra request headers for matching hosts, as stored in the plugin settings. */
+export interface HeaderRule {
+  /** Stable id that ties the rule to its secrets in local storage, whatever its pattern. */
+  id: string;
+  /** Host glob, e.g. `wiki.example.com` or `*.intranet.example.com` (see {@link matchesUrlGlob}). */
+  pattern: string;
+  userAgent: string;
+  acceptLanguage: string;
+  /** Secret: kept out of `data.json` (see `settings.ts`). */
+  authorization: string;
+  /** Secret: kept out of `data.json` (see `settings.ts`). */
+  cookie: string;
+}
+
+let headerRules: HeaderRule[] = [];
+
+/** Replaces the header rules. Rules with an empty pattern are ignored. */
+export function setHeaderRules(rules: HeaderRule[]): void {
+  headerRules = rules.filter(({ pattern }) => pattern.trim());
+}
+
+/**
+ * Returns the extra headers configured for a URL's host (with or without
+ * its port). When several rules match, the first one that sets a header
+ * wins for that header.
+ *
+ * @internal exported for testing
+ */
+export function headersFor(url: string): Record<string, string> {
+  let page: URL;
+  try {
+    page = new URL(url);
+  } catch {
+    return {};
+  }
+  const headers: Record<string, string> = {};
+  for (const rule of headerRules) {
+    if (!matchesUrlGlob(page.host, rule.pattern) && !matchesUrlGlob(page.hostname, rule.pattern)) {
+      continue;
+    }
+    const values: [string, string][] = [
+      ['User-Agent', rule.userAgent],
+      ['Accept-Language', rule.acceptLanguage],
+      ['Authorization', rule.authorization],
+      ['Cookie', rule.cookie],
+    ];
+    for (const [name, value] of values) {
+      if (value.trim() && headers[name] === undefined) {
+        headers[name] = value.trim();
+      }
+    }
+  }
+  return headers;
+}
+
+/**
+ * Adds the configured headers for the URL's host. Headers set by the
+ * caller (e.g. a provider's API token) take precedence.
+ */
+function withHeaderRules(
+  url: string,
+  headers: Record<string, string> | undefined,
+): Record<string, string> {
+  return { ...headersFor(url), ...headers };
+}
+
+/**
+ * GETs a JSON API and returns the parsed body. Returns `undefined` on
+ * network errors, error statuses and invalid JSON, so callers can fall
+ * back to other sources.
+ */
+export async function requestJson(url: string, headers?: Record<string, string>): Promise<unknown> {
+  try {
+    const response = await requestUrl({
+      url,
+      method: 'GET',
+      headers: withHeaderRules(url, headers),
+      throw: false,
+    });
+    if (response.status >= 400) {
+      return undefined;
+    }
+    return response.json;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * GETs a text resource (e.g. an XML feed). Returns `undefined` on network
+ * errors and error statuses.
+ */
+export async function requestText(
+  url: string,
+  headers?: Record<string, string>,
+): Promise<string | undefined> {
+  try {
+    const response = await requestUrl({
+      url,
+      method: 'GET',
+      headers: withHeaderRules(url, headers),
+      throw: false,
+    });
+    if (response.status >= 400) {
+      return undefined;
+    }
+    return response.text;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * POSTs a JSON body (e.g. a GraphQL query) and returns the parsed
+ * response. Returns `undefined` on network errors, error statuses and
+ * invalid JSON.
+ */
+export async function postJson(
+  url: string,
+  body: unknown,
+  headers?: Record<string, string>,
+): Promise<unknown> {
+  try {
+    const response = await requestUrl({
+      url,
+      method: 'POST',
+      contentType: 'application/json',
+      headers: withHeaderRules(url, headers),
+      body: JSON.stringify(body),
+      throw: false,
+    });
+    if (response.status >= 400) {
+      return undefined;
+    }
+    return response.json;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SETTINGS,
+  hasSecrets,
+  LinkMentionSettings,
+  mergeSecrets,
+  splitSecrets,
+  withHeaderRuleIds,
+} from './settings';
+
+const settings: LinkMentionSettings = {
+  ...DEFAULT_SETTINGS,
+  githubToken: 'ghp_1',
+  jira: { baseUrl: 'https://jira.example.com', email: 'me@example.com', token: 'jira-1' },
+  gitlab: { baseUrl: 'https://gitlab.com', token: '' },
+  requestHeaders: [
+    {
+      id: 'wiki',
+      pattern: 'wiki.example.com',
+      userAgent: 'Bot',
+      acceptLanguage: '',
+      authorization: 'Basic abc',
+      cookie: 'session=1',
+    },
+  ],
+};
+
+describe('splitSecrets', () => {
+  it('leaves no credentials in the data written to data.json', () => {
+    const { data, secrets } = splitSecrets(settings);
+    const json = JSON.stringify(data);
+    for (const value of ['ghp_1', 'jira-1', 'Basic abc', 'session=1']) {
+      expect(json).not.toContain(value);
+    }
+    expect(data.jira.email).toBe('me@example.com');
+    expect(data.requestHeaders[0].userAgent).toBe('Bot');
+    expect(secrets.requestHeaders).toEqual({
+      wiki: { authorization: 'Basic abc', cookie: 'session=1' },
+    });
+    expect(hasSecrets(data)).toBe(false);
+  });
+
+  it('round-trips through mergeSecrets', () => {
+    const { data, secrets } = splitSecrets(settings);
+    expect(mergeSecrets(data, secrets)).toEqual(settings);
+  });
+});
+
+describe('mergeSecrets', () => {
+  it('keeps tokens from an older data.json when nothing is stored', () => {
+    expect(mergeSecrets(settings, null)).toBe(settings);
+    expect(mergeSecrets(settings, {}).githubToken).toBe('ghp_1');
+    expect(hasSecrets(settings)).toBe(true);
+  });
+
+  it('keeps header secrets with their rule when the pattern changes', () => {
+    const { data, secrets } = splitSecrets(settings);
+    const renamed = { ...data, requestHeaders: [{ ...data.requestHeaders[0], pattern: 'other' }] };
+    expect(mergeSecrets(renamed, secrets).requestHeaders[0].cookie).toBe('session=1');
+  });
+
+  it('keeps separate secrets for rules with the same pattern', () => {
+    const [wiki] = settings.requestHeaders;
+    const twice = {
+      ...settings,
+      requestHeaders: [wiki, { ...wiki, id: 'wiki-2', authorization: '', cookie: 'session=2' }],
+    };
+    const { data, secrets } = splitSecrets(twice);
+    expect(mergeSecrets(data, secrets).requestHeaders.map(({ cookie }) => cookie)).toEqual([
+      'session=1',
+      'session=2',
+    ]);
+  });
+
+  it('keeps a secret entered before the pattern', () => {
+    const [wiki] = settings.requestHeaders;
+    const unnamed = { ...settings, requestHeaders: [{ ...wiki, pattern: '' }] };
+    const { data, secrets } = splitSecrets(unnamed);
+    expect(mergeSecrets(data, secrets).requestHeaders[0].authorization).toBe('Basic abc');
+  });
+
+  it('reads header secrets that earlier versions keyed by pattern', () => {
+    const { data } = splitSecrets(settings);
+    const legacy = { requestHeaders: { 'wiki.example.com': { authorization: 'old', cookie: '' } } };
+    expect(mergeSecrets(data, legacy).requestHeaders[0].authorization).toBe('old');
+  });
+});
+
+describe('withHeaderRuleIds', () => {
+  it('gives rules without an id a unique one', () => {
+    const [wiki] = settings.requestHeaders;
+    const legacy = {
+      ...settings,
+      requestHeaders: [wiki, { ...wiki, id: '' }, { ...wiki, id: '' }],
+    };
+    const ids = withHeaderRuleIds(legacy).requestHeaders.map(({ id }) => id);
+    expect(ids[0]).toBe('wiki');
+    expect(new Set(ids).size).toBe(3);
+    expect(withHeaderRuleIds(settings)).toBe(settings);
+  });
+});
@@ -0,0 +1,847 @@
+import { App, debounce, Notice, PluginSettingTab, Setting, TextComponent } from 'obsidian';
+import type LinkMentionPlugin from './main';
+import { setHoverCardEnabled } from './hover-card';
+import { setPreferredLanguages } from './language';
+import {
+  exportCache,
+  markCacheStale,
+  reapplyTitleRules,
+  refreshCachedWhere,
+  setMaxConcurrent,
+} from './metadata';
+import { OembedProviderConfig, setOembedProviders } from './oembed';
+import { setGithubToken } from './providers/github';
+import { GitlabConfig, gitlabProvider, setGitlabConfig } from './providers/gitlab';
+import { JiraConfig, jiraProvider, setJiraConfig } from './providers/jira';
+import { LinearConfig, linearProvider, setLinearConfig } from './providers/linear';
+import { MediawikiSiteConfig, setMediawikiSites } from './providers/mediawiki';
+import { HeaderRule, setHeaderRules } from './request';
+import { setJunkTitlePhrases } from './title-quality';
+import {
+  exportTitleRules,
+  importTitleRules,
+  previewRule,
+  setTitleRules,
+  TitleRule,
+  TitleRuleAction,
+} from './title-rules';
+
+export interface LinkMentionSettings {
+  showExternalArrow: boolean;
+  showHoverCard: boolean;
+  maxConcurrentFetches: number;
+  cacheTtlDays: number;
+  maxCacheEntries: number;
+  revalidateAfterHours: number;
+  oembedProviders: OembedProviderConfig[];
+  githubToken: string;
+  jira: JiraConfig;
+  gitlab: GitlabConfig;
+  linear: LinearConfig;
+  mediawikiSites: MediawikiSiteConfig[];
+  requestHeaders: HeaderRule[];
+  preferredLanguages: string;
+  junkTitlePhrases: string;
+  titleRules: TitleRule[];
+}
+
+/** Default number of concurrent metadata fetches. */
+const DEFAULT_CONCURRENT_FETCHES = 4;
+/** Upper bound for the concurrent fetches slider. Too high can freeze the UI on link-heavy notes. */
+const MAX_CONCURRENT_LIMIT = 30;
+/** Upper bound for the cache duration slider. */
+const MAX_CACHE_TTL_DAYS = 365;
+/** Step and lower bound for the cache size slider. */
+const MAX_CACHE_ENTRIES_STEP = 100;
+/** Upper bound for the cache size slider. The whole cache is rewritten on every save. */
+const MAX_CACHE_ENTRIES_LIMIT = 10000;
+
+/** Upper bound for the revalidation age slider (one week). */
+const MAX_REVALIDATE_HOURS = 168;
+
+/** Pause in typing after which cached links are re-fetched with the changed settings, in milliseconds. */
+const REFRESH_DELAY = 1500;
+
+/** Cached titles shown in the live preview under each title rule. */
+const TITLE_RULE_PREVIEW_LIMIT = 3;
+
+const TITLE_RULE_ACTIONS: Record<TitleRuleAction, string> = {
+  replace: 'Find and replace',
+  'strip-suffix': 'Strip suffix',
+  segment: 'Take segment',
+};
+
+export const DEFAULT_SETTINGS: LinkMentionSettings = {
+  showExternalArrow: true,
+  showHoverCard: true,
+  maxConcurrentFetches: DEFAULT_CONCURRENT_FETCHES,
+  cacheTtlDays: 30,
+  maxCacheEntries: 2000,
+  revalidateAfterHours: 24,
+  oembedProviders: [],
+  githubToken: '',
+  jira: { baseUrl: '', email: '', token: '' },
+  gitlab: { baseUrl: 'https://gitlab.com', token: '' },
+  linear: { apiUrl: 'https://api.linear.app/graphql', token: '' },
+  mediawikiSites: [],
+  requestHeaders: [],
+  preferredLanguages: '',
+  junkTitlePhrases: '',
+  titleRules: [],
+};
+
+/**
+ * Credentials from the settings. They are stored in the vault's local
+ * storage instead of `data.json`, which is often synced or committed
+ * along with the vault, so each device keeps its own copy.
+ */
+export interface SettingsSecrets {
+  githubToken: string;
+  jiraToken: string;
+  gitlabToken: string;
+  linearToken: string;
+  /**
+   * Authorization and Cookie values of the header rules, keyed by rule id.
+   * Earlier versions keyed them by pattern, which is still read.
+   */
+  requestHeaders: Record<string, { authorization: string; cookie: string }>;
+}
+
+/** Returns a new id for a header rule. */
+export function newHeaderRuleId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Gives header rules saved by earlier versions, which had no id, a new
+ * one. Returns {@link settings} itself if every rule has an id.
+ */
+export function withHeaderRuleIds(settings: LinkMentionSettings): LinkMentionSettings {
+  if (settings.requestHeaders.every((rule) => rule.id)) {
+    return settings;
+  }
+  return {
+    ...settings,
+    requestHeaders: settings.requestHeaders.map((rule) =>
+      rule.id ? rule : { ...rule, id: newHeaderRuleId() },
+    ),
+  };
+}
+
+/** Separates the credentials from the settings, returning settings safe to write to `data.json`. */
+export function splitSecrets(settings: LinkMentionSettings): {
+  data: LinkMentionSettings;
+  secrets: SettingsSecrets;
+} {
+  const requestHeaders: SettingsSecrets['requestHeaders'] = {};
+  for (const { id, authorization, cookie } of settings.requestHeaders) {
+    if (authorization || cookie) {
+      requestHeaders[id] = { authorization, cookie };
+    }
+  }
+  return {
+    data: {
+      ...settings,
+      githubToken: '',
+      jira: { ...settings.jira, token: '' },
+      gitlab: { ...settings.gitlab, token: '' },
+      linear: { ...settings.linear, token: '' },
+      requestHeaders: settings.requestHeaders.map((rule) => ({
+        ...rule,
+        authorization: '',
+        cookie: '',
+      })),
+    },
+    secrets: {
+      githubToken: settings.githubToken,
+      jiraToken: settings.jira.token,
+      gitlabToken: settings.gitlab.token,
+      linearToken: settings.linear.token,
+      requestHeaders,
+    },
+  };
+}
+
+/**
+ * Puts stored credentials back into the settings. Values still present
+ * in the settings (from a `data.json` written before secrets were split
+ * out) are kept where nothing is stored.
+ */
+export function mergeSecrets(
+  settings: LinkMentionSettings,
+  secrets: Partial<SettingsSecrets> | null,
+): LinkMentionSettings {
+  if (!secrets) {
+    return settings;
+  }
+  const headers = secrets.requestHeaders ?? {};
+  return {
+    ...settings,
+    githubToken: secrets.githubToken || settings.githubToken,
+    jira: { ...settings.jira, token: secrets.jiraToken || settings.jira.token },
+    gitlab: { ...settings.gitlab, token: secrets.gitlabToken || settings.gitlab.token },
+    linear: { ...settings.linear, token: secrets.linearToken || settings.linear.token },
+    requestHeaders: settings.requestHeaders.map((rule) => {
+      const stored = headers[rule.id] ?? headers[rule.pattern];
+      return {
+        ...rule,
+        authorization: stored?.authorization || rule.authorization,
+        cookie: stored?.cookie || rule.cookie,
+      };
+    }),
+  };
+}
+
+/** Returns `true` if the settings contain any credential, e.g. in a `data.json` that predates split secrets. */
+export function hasSecrets(settings: LinkMentionSettings): boolean {
+  const { secrets } = splitSecrets(settings);
+  return (
+    !!(secrets.githubToken || secrets.jiraToken || secrets.gitlabToken || secrets.linearToken) ||
+    Object.keys(secrets.requestHeaders).length > 0
+  );
+}
+
+export class LinkMentionSettingTab extends PluginSettingTab {
+  plugin: LinkMentionPlugin;
+
+  /**
+   * Re-fetches cached issue tracker links after their instance or token
+   * changed, so pills that fell back to the bare key pick up the fix.
+   */
+  private refreshTrackerLinks = debounce(
+    () =>
+      void refreshCachedWhere((url) =>
+        [jiraProvider, gitlabProvider, linearProvider].some((provider) => provider.matches(url)),
+      ),
+    REFRESH_DELAY,
+    true,
+  );
+
+  constructor(app: App, plugin: LinkMentionPlugin) {
+    super(app, plugin);
+    this.plugin = plugin;
+  }
+
+  display(): void {
+    const { containerEl } = this;
+    containerEl.empty();
+
+    new Setting(containerEl)
+      .setName('Show external link arrow')
+      .setDesc("Show Obsidian's external-link arrow icon next to link mention pills.")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.showExternalArrow).onChange(async (value) => {
+          this.plugin.settings.showExternalArrow = value;
+          await this.plugin.saveSettings();
+        }),
+      );
+
+    new Setting(containerEl)
+      .setName('Show hover card')
+      .setDesc(
+        'Show the full title, description, preview image and URL when hovering a pill (long-press on mobile). Applies to pills rendered after the change.',
+      )
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.showHoverCard).onChange(async (value) => {
+          this.plugin.settings.showHoverCard = value;
+          setHoverCardEnabled(value);
+          await this.plugin.saveSettings();
+        }),
+      );
+
+    new Setting(containerEl)
+      .setName('Max concurrent fetches')
+      .setDesc(
+        'Number of link metadata requests that can run in parallel. Higher values populate pills faster but may cause rate limiting.',
+      )
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, MAX_CONCURRENT_LIMIT, 1)
+          .setValue(this.plugin.settings.maxConcurrentFetches)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.maxConcurrentFetches = value;
+            setMaxConcurrent(value);
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Cache duration (days)')
+      .setDesc(
+        'How long fetched titles and favicons are kept, including across restarts, before they are fetched again.',
+      )
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, MAX_CACHE_TTL_DAYS, 1)
+          .setValue(this.plugin.settings.cacheTtlDays)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.cacheTtlDays = value;
+            this.plugin.applyCacheLimits();
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Refresh after (hours)')
+      .setDesc(
+        'Cached links older than this are shown right away and re-fetched in the background. Pills update if the title, author, favicon or status changed.',
+      )
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, MAX_REVALIDATE_HOURS, 1)
+          .setValue(this.plugin.settings.revalidateAfterHours)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.revalidateAfterHours = value;
+            this.plugin.applyCacheLimits();
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Max cached links')
+      .setDesc(
+        'Number of links kept in the cache. The least recently viewed links are dropped first.',
+      )
+      .addSlider((slider) =>
+        slider
+          .setLimits(MAX_CACHE_ENTRIES_STEP, MAX_CACHE_ENTRIES_LIMIT, MAX_CACHE_ENTRIES_STEP)
+          .setValue(this.plugin.settings.maxCacheEntries)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.maxCacheEntries = value;
+            this.plugin.applyCacheLimits();
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Preferred languages')
+      .setDesc(
+        'Comma-separated language tags, most preferred first, e.g. "en-GB, de". Sent to sites as Accept-Language, and pages that link to a translation in one of these languages are titled from that translation. Empty leaves the choice to each site. After a change, cached links are re-fetched as they are shown.',
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder('en-GB, de')
+          .setValue(this.plugin.settings.preferredLanguages)
+          .onChange(async (value) => {
+            this.plugin.settings.preferredLanguages = value;
+            setPreferredLanguages(value);
+            // Translations decide the title of any page, but re-fetching the
+            // whole cache at once would flood every site with requests
+            markCacheStale();
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Junk titles')
+      .setDesc(
+        'Page titles to ignore, one per line, in addition to built-in ones like "Just a moment", "Access denied" and "404 Not Found". A title matches when one of its parts (split at "|", "-", ":" and similar) is a phrase, or starts with a phrase followed by "to". Such links fall back to oEmbed, og:title or the URL and are retried after an hour.',
+      )
+      .addTextArea((text) =>
+        text
+          .setPlaceholder('Verify your age\nPaywall')
+          .setValue(this.plugin.settings.junkTitlePhrases)
+          .onChange(async (value) => {
+            this.plugin.settings.junkTitlePhrases = value;
+            setJunkTitlePhrases(value);
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl).setName('GitHub').setHeading();
+
+    new Setting(containerEl)
+      .setName('Personal access token')
+      .setDesc(
+        'Optional. Used to fetch issue, pull request and commit details from the GitHub API. Without a token GitHub allows 60 requests per hour and no private repositories. A fine-grained token with read-only access is enough.',
+      )
+      .addText((text) => {
+        text.inputEl.type = 'password';
+        text
+          .setPlaceholder('github_pat_…')
+          .setValue(this.plugin.settings.githubToken)
+          .onChange(async (value) => {
+            this.plugin.settings.githubToken = value;
+            setGithubToken(value);
+            await this.plugin.saveSettings();
+          });
+      });
+
+    this.displayIssueTrackers(containerEl);
+    this.displayMediawikiSites(containerEl);
+    this.displayOembedProviders(containerEl);
+    this.displayHeaderRules(containerEl);
+    this.displayTitleRules(containerEl);
+  }
+
+  /**
+   * Renders the Jira, GitLab and Linear sections. Each setting replaces
+   * the tracker's config object, so the defaults are never mutated, and
+   * re-fetches the tracker's cached links once typing stops.
+   */
+  private displayIssueTrackers(containerEl: HTMLElement): void {
+    const { settings } = this.plugin;
+
+    new Setting(containerEl)
+      .setName('Jira')
+      .setDesc('Issue links on this instance are resolved through the Jira REST API.')
+      .setHeading();
+    const saveJira = async (change: Partial<JiraConfig>) => {
+      settings.jira = { ...settings.jira, ...change };
+      setJiraConfig(settings.jira);
+      this.refreshTrackerLinks();
+      await this.plugin.saveSettings();
+    };
+    new Setting(containerEl)
+      .setName('Base URL')
+      .setDesc('The address issues are browsed under, including any context path.')
+      .addText((text) =>
+        text
+          .setPlaceholder('https://acme.atlassian.net')
+          .setValue(settings.jira.baseUrl)
+          .onChange((baseUrl) => saveJira({ baseUrl })),
+      );
+    new Setting(containerEl)
+      .setName('Email')
+      .setDesc(
+        'Jira Cloud only: the account the API token belongs to. Leave empty for a Jira Data Center personal access token.',
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder('you@example.com')
+          .setValue(settings.jira.email)
+          .onChange((email) => saveJira({ email })),
+      );
+    new Setting(containerEl).setName('API token').addText((text) => {
+      text.inputEl.type = 'password';
+      text.setValue(settings.jira.token).onChange((token) => saveJira({ token }));
+    });
+
+    new Setting(containerEl)
+      .setName('GitLab')
+      .setDesc('Issue and merge request links are resolved through the GitLab REST API.')
+      .setHeading();
+    const saveGitlab = async (change: Partial<GitlabConfig>) => {
+      settings.gitlab = { ...settings.gitlab, ...change };
+      setGitlabConfig(settings.gitlab);
+      this.refreshTrackerLinks();
+      await this.plugin.saveSettings();
+    };
+    new Setting(containerEl)
+      .setName('Base URL')
+      .setDesc(
+        'The address of a self-managed instance. gitlab.com links are resolved either way, and the token is only sent to this instance.',
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder('https://gitlab.com')
+          .setValue(settings.gitlab.baseUrl)
+          .onChange((baseUrl) => saveGitlab({ baseUrl })),
+      );
+    new Setting(containerEl)
+      .setName('Personal access token')
+      .setDesc('Optional for public projects. Needs the read_api scope.')
+      .addText((text) => {
+        text.inputEl.type = 'password';
+        text
+          .setPlaceholder('glpat-…')
+          .setValue(settings.gitlab.token)
+          .onChange((token) => saveGitlab({ token }));
+      });
+
+    new Setting(containerEl)
+      .setName('Linear')
+      .setDesc(
+        'Issue links are resolved through the Linear API. Without an API key the pill shows the issue key and the title from the link.',
+      )
+      .setHeading();
+    const saveLinear = async (change: Partial<LinearConfig>) => {
+      settings.linear = { ...settings.linear, ...change };
+      setLinearConfig(settings.linear);
+      this.refreshTrackerLinks();
+      await this.plugin.saveSettings();
+    };
+    new Setting(containerEl)
+      .setName('API URL')
+      .setDesc('Only needs changing to test against a stand-in server.')
+      .addText((text) =>
+        text
+          .setPlaceholder('https://api.linear.app/graphql')
+          .setValue(settings.linear.apiUrl)
+          .onChange((apiUrl) => saveLinear({ apiUrl })),
+      );
+    new Setting(containerEl)
+      .setName('API key')
+      .setDesc('A personal API key from Settings → Security & access in Linear.')
+      .addText((text) => {
+        text.inputEl.type = 'password';
+        text
+          .setPlaceholder('lin_api_…')
+          .setValue(settings.linear.token)
+          .onChange((token) => saveLinear({ token }));
+      });
+  }
+
+  /**
+   * Renders the self-hosted MediaWiki list. Adding or removing a row
+   * re-renders the whole tab; edits are saved as they are typed.
+   */
+  private displayMediawikiSites(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName('MediaWiki sites')
+      .setDesc(
+        "Self-hosted wikis to resolve through their API, like Wikipedia. Enter the URL that article titles are appended to and the address of the wiki's api.php.",
+      )
+      .setHeading();
+
+    const wikis = this.plugin.settings.mediawikiSites;
+    const save = async () => {
+      setMediawikiSites(this.plugin.settings.mediawikiSites);
+      await this.plugin.saveSettings();
+    };
+
+    wikis.forEach((wiki, index) => {
+      new Setting(containerEl)
+        .addText((text) =>
+          text
+            .setPlaceholder('https://wiki.example.com/wiki/')
+            .setValue(wiki.articleUrl)
+            .onChange(async (value) => {
+              wiki.articleUrl = value;
+              await save();
+            }),
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder('https://wiki.example.com/w/api.php')
+            .setValue(wiki.apiUrl)
+            .onChange(async (value) => {
+              wiki.apiUrl = value;
+              await save();
+            }),
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon('trash')
+            .setTooltip('Remove wiki')
+            .onClick(async () => {
+              this.plugin.settings.mediawikiSites = wikis.filter((_, i) => i !== index);
+              await save();
+              this.display();
+            }),
+        );
+    });
+
+    new Setting(containerEl).addButton((button) =>
+      button.setButtonText('Add wiki').onClick(async () => {
+        this.plugin.settings.mediawikiSites = [...wikis, { articleUrl: '', apiUrl: '' }];
+        await save();
+        this.display();
+      }),
+    );
+  }
+
+  /**
+   * Renders the user oEmbed provider list. Adding or removing a row
+   * re-renders the whole tab; edits are saved as they are typed.
+   */
+  private displayOembedProviders(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName('oEmbed providers')
+      .setDesc(
+        'Sites resolved through an oEmbed endpoint instead of their HTML. The pattern is matched against the link without "https://" and "*" matches anything, e.g. "soundcloud.com/*". The link is appended to the endpoint, or replaces "{url}" if present.',
+      )
+      .setHeading();
+
+    const providers = this.plugin.settings.oembedProviders;
+    const save = async () => {
+      setOembedProviders(this.plugin.settings.oembedProviders);
+      await this.plugin.saveSettings();
+    };
+
+    providers.forEach((provider, index) => {
+      new Setting(containerEl)
+        .addText((text) =>
+          text
+            .setPlaceholder('soundcloud.com/*')
+            .setValue(provider.pattern)
+            .onChange(async (value) => {
+              provider.pattern = value;
+              await save();
+            }),
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder('https://soundcloud.com/oembed?format=json&url=')
+            .setValue(provider.endpoint)
+            .onChange(async (value) => {
+              provider.endpoint = value;
+              await save();
+            }),
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon('trash')
+            .setTooltip('Remove provider')
+            .onClick(async () => {
+              this.plugin.settings.oembedProviders = providers.filter((_, i) => i !== index);
+              await save();
+              this.display();
+            }),
+        );
+    });
+
+    new Setting(containerEl).addButton((button) =>
+      button.setButtonText('Add provider').onClick(async () => {
+        this.plugin.settings.oembedProviders = [...providers, { pattern: '', endpoint: '' }];
+        await save();
+        this.display();
+      }),
+    );
+  }
+
+  /**
+   * Renders the request header rules. Adding or removing a row re-renders
+   * the whole tab; edits are saved as they are typed.
+   */
+  private displayHeaderRules(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName('Request headers')
+      .setDesc(
+        'Extra headers for sites that need a login, a specific language or a browser user agent, e.g. intranet wikis. The host pattern is matched against the link\'s host and "*" matches anything, e.g. "*.intranet.example.com". Authorization and cookie values are stored on this device only, outside the synced plugin data, and are never saved in the link cache.',
+      )
+      .setHeading();
+
+    const rules = this.plugin.settings.requestHeaders;
+    const save = async () => {
+      setHeaderRules(this.plugin.settings.requestHeaders);
+      await this.plugin.saveSettings();
+    };
+
+    rules.forEach((rule, index) => {
+      const secret =
+        (placeholder: string, key: 'authorization' | 'cookie') => (text: TextComponent) => {
+          text.inputEl.type = 'password';
+          text
+            .setPlaceholder(placeholder)
+            .setValue(rule[key])
+            .onChange(async (value) => {
+              rule[key] = value;
+              await save();
+            });
+        };
+      new Setting(containerEl)
+        .addText((text) =>
+          text
+            .setPlaceholder('wiki.example.com')
+            .setValue(rule.pattern)
+            .onChange(async (value) => {
+              rule.pattern = value;
+              await save();
+            }),
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder('User-Agent')
+            .setValue(rule.userAgent)
+            .onChange(async (value) => {
+              rule.userAgent = value;
+              await save();
+            }),
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder('Accept-Language')
+            .setValue(rule.acceptLanguage)
+            .onChange(async (value) => {
+              rule.acceptLanguage = value;
+              await save();
+            }),
+        )
+        .addText(secret('Authorization', 'authorization'))
+        .addText(secret('Cookie', 'cookie'))
+        .addExtraButton((button) =>
+          button
+            .setIcon('trash')
+            .setTooltip('Remove rule')
+            .onClick(async () => {
+              this.plugin.settings.requestHeaders = rules.filter((_, i) => i !== index);
+              await save();
+              this.display();
+            }),
+        );
+    });
+
+    new Setting(containerEl).addButton((button) =>
+      button.setButtonText('Add rule').onClick(async () => {
+        this.plugin.settings.requestHeaders = [
+          ...rules,
+          {
+            id: newHeaderRuleId(),
+            pattern: '',
+            userAgent: '',
+            acceptLanguage: '',
+            authorization: '',
+            cookie: '',
+          },
+        ];
+        await save();
+        this.display();
+      }),
+    );
+  }
+
+  private displayTitleRules(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName('Title rules')
+      .setDesc(
+        'Rewrite titles of links to matching hosts, e.g. to strip " - Confluence". "Find and replace" takes a regex and its replacement ($1 for groups). "Strip suffix" drops the last part of the title and "Take segment" keeps part N (-1 for the last), split at the separator regex, or at " · ", " • ", " | ", " - ", " – ", " — " and ": " when it is empty. Rules run in order, and apply to cached links right away; cached titles they would change are previewed under each rule.',
+      )
+      .setHeading();
+
+    const rules = this.plugin.settings.titleRules;
+    const save = async () => {
+      setTitleRules(this.plugin.settings.titleRules);
+      reapplyTitleRules();
+      await this.plugin.saveSettings();
+    };
+
+    rules.forEach((rule, index) => {
+      const row = new Setting(containerEl);
+      const preview = containerEl.appendChild(document.createElement('div'));
+      preview.className = 'link-mention-title-rule-preview';
+      const renderPreview = () =>
+        preview.replaceChildren(
+          ...previewTitleRule(rule).map(([before, after]) => {
+            const line = document.createElement('div');
+            line.textContent = `${before} → ${after}`;
+            return line;
+          }),
+        );
+      const update = async () => {
+        renderPreview();
+        await save();
+      };
+
+      row
+        .addText((text) =>
+          text
+            .setPlaceholder('*.atlassian.net')
+            .setValue(rule.pattern)
+            .onChange(async (value) => {
+              rule.pattern = value;
+              await update();
+            }),
+        )
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOptions(TITLE_RULE_ACTIONS)
+            .setValue(rule.action)
+            .onChange(async (value) => {
+              rule.action = value as TitleRuleAction;
+              await save();
+              this.display();
+            }),
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder(rule.action === 'replace' ? '\\s+-\\s+Confluence$' : 'Separator')
+            .setValue(rule.find)
+            .onChange(async (value) => {
+              rule.find = value;
+              await update();
+            }),
+        );
+      if (rule.action === 'replace') {
+        row.addText((text) =>
+          text
+            .setPlaceholder('Replacement')
+            .setValue(rule.replace)
+            .onChange(async (value) => {
+              rule.replace = value;
+              await update();
+            }),
+        );
+      }
+      if (rule.action === 'segment') {
+        row.addText((text) => {
+          text.inputEl.type = 'number';
+          text.setValue(String(rule.segment)).onChange(async (value) => {
+            rule.segment = Number.parseInt(value, 10) || 1;
+            await update();
+          });
+        });
+      }
+      row.addExtraButton((button) =>
+        button
+          .setIcon('trash')
+          .setTooltip('Remove rule')
+          .onClick(async () => {
+            this.plugin.settings.titleRules = rules.filter((_, i) => i !== index);
+            await save();
+            this.display();
+          }),
+      );
+      renderPreview();
+    });
+
+    new Setting(containerEl)
+      .addButton((button) =>
+        button.setButtonText('Add rule').onClick(async () => {
+          this.plugin.settings.titleRules = [
+            ...rules,
+            { pattern: '', action: 'strip-suffix', find: '', replace: '', segment: 1 },
+          ];
+          await save();
+          this.display();
+        }),
+      )
+      .addButton((button) =>
+        button.setButtonText('Copy as JSON').onClick(() => {
+          void navigator.clipboard.writeText(exportTitleRules(rules)).then(
+            () => new Notice('Title rules copied to clipboard'),
+            () => new Notice('Could not copy to clipboard'),
+          );
+        }),
+      )
+      .addButton((button) =>
+        button.setButtonText('Paste from JSON').onClick(async () => {
+          let imported: TitleRule[];
+          try {
+            imported = importTitleRules(await navigator.clipboard.readText());
+          } catch {
+            new Notice('The clipboard does not contain title rules as JSON');
+            return;
+          }
+          this.plugin.settings.titleRules = [...rules, ...imported];
+          new Notice(`Added ${imported.length} title rules`);
+          await save();
+          this.display();
+        }),
+      );
+  }
+}
+
+/**
+ * Cached titles that {@link rule} would change, most recently used
+ * first, as `[before, after]` pairs. Titles are previewed as extracted,
+ * before any saved rule changed them.
+ */
+function previewTitleRule(rule: TitleRule): [string, string][] {
+  const changes: [string, string][] = [];
+  for (const [url, meta] of exportCache().reverse()) {
+    const before = meta.extractedTitle ?? meta.title;
+    const after = previewRule(rule, meta.finalUrl ?? url, before);
+    if (after !== undefined && after !== before) {
+      changes.push([before, after]);
+    }
+    if (changes.length === TITLE_RULE_PREVIEW_LIMIT) {
+      break;
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { isErrorStatus, isJunkTitle, setJunkTitlePhrases } from './title-quality';
+
+describe('isJunkTitle', () => {
+  afterEach(() => {
+    setJunkTitlePhrases('');
+  });
+
+  it('flags bot wall, consent and error page titles', () => {
+    for (const title of [
+      'Just a moment...',
+      'Attention Required! | Cloudflare',
+      'Access Denied',
+      'Before you continue to YouTube',
+      'Log in | Facebook',
+      'Sign in to GitHub · GitHub',
+      '404 Not Found',
+      'Page not found – Example Blog',
+      '  Too   Many Requests  ',
+      'Login',
+      '404',
+      'Service Unavailable',
+    ]) {
+      expect(isJunkTitle(title), title).toBe(true);
+    }
+  });
+
+  it('keeps titles that merely mention a phrase', () => {
+    for (const title of [
+      'How to log in with SSH keys',
+      'Error: Cannot find module "fs"',
+      'Access denied errors in S3 explained',
+      'Lost and not found - A novel',
+      'Consent | Stanford Encyclopedia of Philosophy',
+      '404 | Album review',
+      'Login - Auth0 Docs',
+      'Captcha: a history of the Turing test',
+      '',
+    ]) {
+      expect(isJunkTitle(title), title).toBe(false);
+    }
+  });
+
+  it('adds phrases from the settings, one per line', () => {
+    expect(isJunkTitle('Verify your age | Example')).toBe(false);
+
+    setJunkTitlePhrases('Verify your age\n\n  Paywall!  ');
+    expect(isJunkTitle('Verify your age | Example')).toBe(true);
+    expect(isJunkTitle('paywall')).toBe(true);
+  });
+});
+
+describe('isErrorStatus', () => {
+  it('treats client and server errors as error pages', () => {
+    expect(isErrorStatus(200)).toBe(false);
+    expect(isErrorStatus(206)).toBe(false);
+    expect(isErrorStatus(403)).toBe(true);
+    expect(isErrorStatus(429)).toBe(true);
+    expect(isErrorStatus(503)).toBe(true);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Titles of bot walls, consent screens, login pages and error pages,
+ * which say nothing about the linked page. Lowercase, without trailing
+ * punctuation.
+ */
+const BUILTIN_JUNK_PHRASES = [
+  // Bot walls and rate limiting
+  'just a moment',
+  'attention required',
+  'one more step',
+  'please wait',
+  'checking your browser',
+  'security check',
+  'verifying you are human',
+  'are you a robot',
+  'are you a human',
+  'ddos-guard',
+  'too many requests',
+  'rate limited',
+  'access denied',
+  'access to this page has been denied',
+  'request blocked',
+  'you have been blocked',
+  // Consent and login walls
+  'before you continue',
+  'cookie consent',
+  'privacy settings',
+  'your privacy',
+  'log in',
+  'sign in',
+  'sign up',
+  'subscribe to continue reading',
+  // Error pages
+  'page not found',
+  '400 bad request',
+  '401 unauthorized',
+  '403 forbidden',
+  '404 not found',
+  'error 404',
+  '500 internal server error',
+  '502 bad gateway',
+  '503 service unavailable',
+  '504 gateway timeout',
+];
+
+/**
+ * Generic words that only mark a junk page when they are the whole title:
+ * as one segment they are as likely to name a real page ("Consent | Stanford
+ * Encyclopedia of Philosophy", "404 | Album review").
+ */
+const BUILTIN_JUNK_TITLES = [
+  'captcha',
+  'consent',
+  'login',
+  'forbidden',
+  '404',
+  'not found',
+  'internal server error',
+  'bad gateway',
+  'service unavailable',
+  'gateway timeout',
+];
+
+/**
+ * Separators between the segments of a page title, e.g. "Log in | Facebook":
+ * `|`, `·`, `•` and dashes between spaces, or `:` and a space.
+ */
+export const SEGMENT_SEPARATOR_RE = /\s+[|·•—–-]\s+|:\s+/;
+
+let userPhrases: string[] = [];
+
+/** Lowercases, unifies quotes and whitespace, and drops trailing dots, ellipses and exclamation marks. */
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/\s+/g, ' ')
+    .replace(/[\s.!…]+$/, '')
+    .trim();
+}
+
+/** Replaces the user's junk title phrases, one per line, added to the built-in list. Blank lines are ignored. */
+export function setJunkTitlePhrases(value: string): void {
+  userPhrases = value.split('\n').map(normalize).filter(Boolean);
+}
+
+/**
+ * Returns `true` if {@link title} is a bot wall, consent, login or error
+ * page title rather than a real one. A phrase matches a whole segment of
+ * the title ("Access Denied", "Log in | Facebook") or the start of one
+ * followed by "to" ("Before you continue to YouTube", "Sign in to
+ * GitHub"), so titles that merely contain a phrase, like "How to log in
+ * with SSH keys", are kept. Generic words like "Login" or "404" only
+ * match the whole title.
+ */
+export function isJunkTitle(title: string): boolean {
+  const segments = title.split(SEGMENT_SEPARATOR_RE).map(normalize).filter(Boolean);
+  if (segments.length === 0) {
+    return false;
+  }
+  if (BUILTIN_JUNK_TITLES.includes(normalize(title))) {
+    return true;
+  }
+  const phrases = [...BUILTIN_JUNK_PHRASES, ...userPhrases];
+  return segments.some((segment) =>
+    phrases.some((phrase) => segment === phrase || segment.startsWith(`${phrase} to `)),
+  );
+}
+
+/**
+ * Returns `true` for HTTP statuses whose page describes the error rather
+ * than the link: client and server errors, including 401/403 login and
+ * bot walls and 429 rate limits.
+ */
+export function isErrorStatus(status: number): boolean {
+  return status >= 400;
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  exportTitleRules,
+  importTitleRules,
+  previewRule,
+  rewriteTitle,
+  setTitleRules,
+  TitleRule,
+} from './title-rules';
+
+function rule(change: Partial<TitleRule>): TitleRule {
+  return { pattern: '*', action: 'strip-suffix', find: '', replace: '', segment: 1, ...change };
+}
+
+describe('rewriteTitle', () => {
+  afterEach(() => {
+    setTitleRules([]);
+  });
+
+  it('strips the last segment', () => {
+    setTitleRules([rule({ pattern: '*.atlassian.net' })]);
+    expect(
+      rewriteTitle('https://acme.atlassian.net/wiki/x', 'Onboarding - Team - Confluence'),
+    ).toBe('Onboarding - Team');
+    expect(rewriteTitle('https://acme.atlassian.net/wiki/x', 'No separator')).toBe('No separator');
+    expect(rewriteTitle('https://acme.atlassian.net/wiki/x', 'Onboarding • Confluence')).toBe(
+      'Onboarding',
+    );
+  });
+
+  it('takes a segment, counting from the end when negative', () => {
+    setTitleRules([rule({ pattern: 'www.theverge.com', action: 'segment', segment: -2 })]);
+    expect(rewriteTitle('https://www.theverge.com/a', 'Reviews – Bar – The Verge')).toBe('Bar');
+    expect(rewriteTitle('https://other.example/a', 'Reviews – Bar – The Verge')).toBe(
+      'Reviews – Bar – The Verge',
+    );
+  });
+
+  it('replaces regex matches with groups and a custom separator', () => {
+    setTitleRules([
+      rule({ action: 'replace', find: '^\\[(\\w+)\\] ', replace: '$1: ' }),
+      rule({ pattern: 'wiki.example.com', action: 'segment', find: ' / ', segment: 1 }),
+    ]);
+    expect(rewriteTitle('https://wiki.example.com/', '[DOC] Setup / Wiki')).toBe('DOC: Setup');
+  });
+
+  it('skips invalid regexes, empty patterns and rules that would empty the title', () => {
+    setTitleRules([
+      rule({ action: 'replace', find: '(' }),
+      rule({ pattern: '', action: 'replace', find: 'Title', replace: 'Nope' }),
+      rule({ action: 'replace', find: '.*', replace: '' }),
+    ]);
+    expect(rewriteTitle('https://any.example/', 'Title')).toBe('Title');
+  });
+});
+
+describe('previewRule', () => {
+  it('previews an unsaved rule for matching hosts only', () => {
+    const suffix = rule({ pattern: 'docs.example.com' });
+    expect(previewRule(suffix, 'https://docs.example.com/', 'Page | Docs')).toBe('Page');
+    expect(previewRule(suffix, 'https://blog.example.com/', 'Page | Docs')).toBeUndefined();
+    expect(previewRule(rule({ action: 'replace', find: '[' }), 'https://a.example/', 'T')).toBe(
+      undefined,
+    );
+  });
+});
+
+describe('importTitleRules', () => {
+  it('round-trips exported rules', () => {
+    const rules = [rule({ pattern: 'a.example' }), rule({ action: 'segment', segment: -1 })];
+    expect(importTitleRules(exportTitleRules(rules))).toEqual(rules);
+  });
+
+  it('skips invalid entries and fills in missing fields', () => {
+    expect(
+      importTitleRules(
+        JSON.stringify([
+          { pattern: 'a.example', action: 'replace', find: ' - A$' },
+          { pattern: 'b.example', action: 'unknown' },
+          { action: 'segment' },
+          null,
+        ]),
+      ),
+    ).toEqual([
+      { pattern: 'a.example', action: 'replace', find: ' - A$', replace: '', segment: 1 },
+    ]);
+  });
+
+  it('rejects anything but a JSON array', () => {
+    expect(() => importTitleRules('{"pattern": "a.example"}')).toThrow();
+    expect(() => importTitleRules('not json')).toThrow();
+  });
+});
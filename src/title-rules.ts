@@ -0,0 +1,147 @@
+import { matchesUrlGlob } from './parsers/url';
+import { SEGMENT_SEPARATOR_RE } from './title-quality';
+
+/**
+ * What a title rule does:
+ * - `replace`: replaces matches of the regex in `find` with `replace`
+ *   (`$1` etc. refer to groups).
+ * - `strip-suffix`: drops the last segment, e.g. " - Confluence".
+ * - `segment`: keeps only segment number `segment` (1 is the first, -1
+ *   the last).
+ *
+ * Segments are separated by the regex in `find`, or by
+ * {@link SEGMENT_SEPARATOR_RE} when it is empty.
+ */
+export type TitleRuleAction = 'replace' | 'strip-suffix' | 'segment';
+
+/** A title rewrite rule for matching hosts, as stored in the plugin settings. */
+export interface TitleRule {
+  /** Host glob, e.g. `*.atlassian.net` (see {@link matchesUrlGlob}). */
+  pattern: string;
+  action: TitleRuleAction;
+  /** Regex to replace, or the segment separator. */
+  find: string;
+  /** Replacement text for `replace` rules. */
+  replace: string;
+  /** Segment to keep for `segment` rules. */
+  segment: number;
+}
+
+const ACTIONS: TitleRuleAction[] = ['replace', 'strip-suffix', 'segment'];
+
+/** A rule whose regex compiled. Rules with an invalid regex are dropped. */
+interface CompiledRule {
+  rule: TitleRule;
+  regex: RegExp;
+}
+
+let compiledRules: CompiledRule[] = [];
+
+function compile(rule: TitleRule): CompiledRule | undefined {
+  if (!rule.pattern.trim() || (rule.action === 'replace' && !rule.find)) {
+    return undefined;
+  }
+  try {
+    return { rule, regex: new RegExp(rule.find || SEGMENT_SEPARATOR_RE.source, 'g') };
+  } catch {
+    return undefined;
+  }
+}
+
+/** Replaces the title rules. Rules with an empty pattern or an invalid regex are ignored. */
+export function setTitleRules(rules: TitleRule[]): void {
+  compiledRules = rules.map(compile).filter((compiled): compiled is CompiledRule => !!compiled);
+}
+
+/** Applies one rule to a title. Returns the title unchanged if the rule doesn't apply. */
+function applyRule({ rule, regex }: CompiledRule, title: string): string {
+  if (rule.action === 'replace') {
+    return title.replace(regex, rule.replace);
+  }
+  if (rule.action === 'strip-suffix') {
+    const last = Array.from(title.matchAll(regex)).pop();
+    return last?.index ? title.slice(0, last.index) : title;
+  }
+  const segments = title.split(regex);
+  const index = rule.segment > 0 ? rule.segment - 1 : segments.length + rule.segment;
+  return segments[index] ?? title;
+}
+
+/** Returns `true` if a rule's host glob matches a URL's host, with or without its port. */
+function matchesHost(pattern: string, url: string): boolean {
+  try {
+    const { host, hostname } = new URL(url);
+    return matchesUrlGlob(host, pattern) || matchesUrlGlob(hostname, pattern);
+  } catch {
+    return false;
+  }
+}
+
+function applyRules(rules: CompiledRule[], url: string, title: string): string {
+  let result = title;
+  for (const compiled of rules) {
+    if (!matchesHost(compiled.rule.pattern, url)) {
+      continue;
+    }
+    const rewritten = applyRule(compiled, result).trim();
+    if (rewritten) {
+      result = rewritten;
+    }
+  }
+  return result;
+}
+
+/**
+ * Rewrites a title with the rules whose pattern matches the host of
+ * {@link url}, in order. A rule that would leave the title empty is
+ * skipped.
+ */
+export function rewriteTitle(url: string, title: string): string {
+  return applyRules(compiledRules, url, title);
+}
+
+/**
+ * Rewrites a title with a single, possibly unsaved rule, for the live
+ * preview in the settings. Returns `undefined` if the rule doesn't apply
+ * to {@link url} or its regex is invalid.
+ */
+export function previewRule(rule: TitleRule, url: string, title: string): string | undefined {
+  const compiled = compile(rule);
+  return compiled && matchesHost(rule.pattern, url)
+    ? applyRules([compiled], url, title)
+    : undefined;
+}
+
+/** Serializes rules for sharing, e.g. through the clipboard. */
+export function exportTitleRules(rules: TitleRule[]): string {
+  return JSON.stringify(rules, null, 2);
+}
+
+/**
+ * Parses rules shared with {@link exportTitleRules}. Entries without a
+ * pattern or with an unknown action are skipped; missing fields get
+ * defaults. Throws if {@link json} isn't a JSON array.
+ */
+export function importTitleRules(json: string): TitleRule[] {
+  const parsed: unknown = JSON.parse(json);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Expected a JSON array of title rules');
+  }
+  const rules: TitleRule[] = [];
+  for (const entry of parsed) {
+    const value = (entry ?? {}) as Partial<Record<keyof TitleRule, unknown>>;
+    const action = value.action as TitleRuleAction;
+    if (typeof value.pattern !== 'string' || !value.pattern.trim() || !ACTIONS.includes(action)) {
+      continue;
+    }
+    rules.push({
+      pattern: value.pattern,
+      action,
+      find: typeof value.find === 'string' ? value.find : '',
+      replace: typeof value.replace === 'string' ? value.replace : '',
+      segment:
+        typeof value.segment === 'number' && Number.isInteger(value.segment) ? value.segment : 1,
+    });
+  }
+  return rules;
+}